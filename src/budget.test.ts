@@ -0,0 +1,39 @@
+import { TokenBudget } from './budget';
+import { LLMConversation } from './types';
+
+const conversation = (path: string, body: string) => ({
+  request: { method: 'GET', url: `https://api.example.com${path}`, headers: {} },
+  response: { status: 200, headers: {}, body }
+}) as unknown as LLMConversation;
+
+const render = (conversations: LLMConversation[]) =>
+  `# Requests\n\n${conversations.map(conv => `${conv.request.method} ${conv.request.url}\n${conv.response.body}\n`).join('\n')}`;
+
+describe('TokenBudget', () => {
+  const conversations = [conversation('/a', 'x'.repeat(40)), conversation('/b', 'y'.repeat(40))];
+
+  it('leaves output that fits untouched', () => {
+    const { output, report } = TokenBudget.fit(conversations, render, { maxTokens: 10000 });
+
+    expect(output).toBe(render(conversations));
+    expect(report).toMatchObject({ fits: true, keptEntries: 2, dropped: [] });
+    expect(TokenBudget.describe(report)).toHaveLength(1);
+  });
+
+  it('drops the latest entries until the output fits', () => {
+    const oneEntry = TokenBudget.fit(conversations.slice(0, 1), render, { maxTokens: 10000 }).report.finalTokens;
+    const { conversations: kept, report } = TokenBudget.fit(conversations, render, { maxTokens: oneEntry });
+
+    expect(kept.map(conv => conv.request.url)).toEqual(['https://api.example.com/a']);
+    expect(report).toMatchObject({ fits: true, keptEntries: 1, dropped: [{ index: 1, url: 'https://api.example.com/b', reason: 'low-priority' }] });
+  });
+
+  it('reports when the budget cannot hold a single entry', () => {
+    const { output, report } = TokenBudget.fit(conversations, render, { maxTokens: 1 });
+
+    expect(output).toBe(render([]));
+    expect(report.keptEntries).toBe(0);
+    expect(TokenBudget.describe(report)).toContain('The token budget cannot hold a single entry');
+    expect(TokenBudget.describe(report)).not.toContain('Output still exceeds the token budget');
+  });
+});
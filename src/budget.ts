@@ -0,0 +1,267 @@
+import { LLMConversation, TokenBudgetReport, BudgetDropReason } from './types';
+import { HARConverter } from './converter';
+import { TokenEstimator } from './tokenizer';
+
+export type BudgetRenderer = (conversations: LLMConversation[], indices: number[]) => string;
+
+interface BudgetItem {
+  index: number;
+  conversation: LLMConversation;
+}
+
+// Body lengths tried in turn before giving up on truncation
+const BODY_LIMITS = [4000, 2000, 1000, 500, 250, 100];
+
+// Headers kept when headers are collapsed
+const ESSENTIAL_HEADERS = ['authorization', 'content-type', 'location'];
+
+const DROP_PRIORITY: BudgetDropReason[] = ['static-asset', 'duplicate', 'redirect', 'low-priority'];
+
+export class TokenBudget {
+  /**
+   * Fit rendered output into a token budget, degrading in order:
+   * truncate bodies, collapse headers, then drop lower-priority entries
+   */
+  static fit(conversations: LLMConversation[], render: BudgetRenderer, options: {
+    maxTokens: number;
+    model?: string;
+  }): { output: string; conversations: LLMConversation[]; report: TokenBudgetReport } {
+    const model = options.model || 'default';
+    const estimate = TokenEstimator.get(model);
+    let items: BudgetItem[] = conversations.map((conversation, index) => ({ index, conversation }));
+
+    const renderItems = (candidates: BudgetItem[]) => render(
+      candidates.map(item => item.conversation),
+      candidates.map(item => item.index)
+    );
+
+    let output = renderItems(items);
+    let tokens = estimate(output);
+
+    const report: TokenBudgetReport = {
+      maxTokens: options.maxTokens,
+      model,
+      originalTokens: tokens,
+      finalTokens: tokens,
+      fits: tokens <= options.maxTokens,
+      truncatedBodies: 0,
+      collapsedHeaders: false,
+      keptEntries: items.length,
+      dropped: []
+    };
+
+    const finish = () => {
+      report.finalTokens = tokens;
+      report.fits = tokens <= options.maxTokens;
+      report.keptEntries = items.length;
+      return { output, conversations: items.map(item => item.conversation), report };
+    };
+
+    if (report.fits) {
+      return finish();
+    }
+
+    // 1. Truncate bodies, progressively tighter
+    const original = items;
+    for (const limit of BODY_LIMITS) {
+      let truncated = 0;
+      const candidates = original.map(item => {
+        const request = this.truncateBody(item.conversation.request.body, limit);
+        const response = this.truncateBody(item.conversation.response.body, limit);
+        truncated += (request.truncated ? 1 : 0) + (response.truncated ? 1 : 0);
+        return {
+          index: item.index,
+          conversation: {
+            ...item.conversation,
+            request: {
+              ...item.conversation.request,
+              body: request.body,
+              // Render the truncated text instead of the full parsed structure
+              parsedBody: request.truncated ? undefined : item.conversation.request.parsedBody
+            },
+            response: { ...item.conversation.response, body: response.body }
+          }
+        };
+      });
+
+      if (truncated === 0) {
+        continue;
+      }
+
+      // Formats rendered from the HAR entries ignore conversation bodies, so only
+      // record truncation when it changed the output
+      const candidateOutput = renderItems(candidates);
+      if (candidateOutput === output) {
+        continue;
+      }
+
+      items = candidates;
+      output = candidateOutput;
+      tokens = estimate(output);
+      report.truncatedBodies = truncated;
+      report.bodyLimit = limit;
+
+      if (tokens <= options.maxTokens) {
+        return finish();
+      }
+    }
+
+    // 2. Collapse headers to the essential ones, again only when the output shows them
+    const collapsed = items.map(item => ({
+      index: item.index,
+      conversation: {
+        ...item.conversation,
+        request: { ...item.conversation.request, headers: this.collapseHeaders(item.conversation.request.headers) },
+        response: { ...item.conversation.response, headers: this.collapseHeaders(item.conversation.response.headers) }
+      }
+    }));
+    const collapsedOutput = renderItems(collapsed);
+    if (collapsedOutput !== output) {
+      items = collapsed;
+      output = collapsedOutput;
+      tokens = estimate(output);
+      report.collapsedHeaders = true;
+
+      if (tokens <= options.maxTokens) {
+        return finish();
+      }
+    }
+
+    // 3. Drop entries, lowest priority and latest first
+    const reasons = this.classify(items);
+    const dropOrder = items
+      .map((item, position) => ({ item, position, reason: reasons[position] }))
+      .sort((a, b) =>
+        DROP_PRIORITY.indexOf(a.reason) - DROP_PRIORITY.indexOf(b.reason) || b.position - a.position
+      );
+
+    // Binary search for the smallest number of drops that fits
+    let low = 1;
+    let high = dropOrder.length;
+    let best = high;
+    while (low <= high) {
+      const count = Math.floor((low + high) / 2);
+      const dropped = new Set(dropOrder.slice(0, count).map(drop => drop.item.index));
+      const candidates = items.filter(item => !dropped.has(item.index));
+      if (estimate(renderItems(candidates)) <= options.maxTokens) {
+        best = count;
+        high = count - 1;
+      } else {
+        low = count + 1;
+      }
+    }
+
+    const drops = dropOrder.slice(0, best);
+    const dropped = new Set(drops.map(drop => drop.item.index));
+    report.dropped = drops
+      .map(({ item, reason }) => ({
+        index: item.index,
+        method: item.conversation.request.method,
+        url: item.conversation.request.url,
+        reason
+      }))
+      .sort((a, b) => a.index - b.index);
+
+    items = items.filter(item => !dropped.has(item.index));
+    output = renderItems(items);
+    tokens = estimate(output);
+
+    return finish();
+  }
+
+  /**
+   * Summarize what was cut to fit the budget
+   */
+  static describe(report: TokenBudgetReport): string[] {
+    const lines = [
+      `Token budget: ${report.finalTokens}/${report.maxTokens} tokens (${report.model}, originally ${report.originalTokens})`
+    ];
+
+    if (report.truncatedBodies > 0) {
+      lines.push(`Truncated ${report.truncatedBodies} bodies to ${report.bodyLimit} characters`);
+    }
+    if (report.collapsedHeaders) {
+      lines.push(`Collapsed headers to ${ESSENTIAL_HEADERS.join(', ')}`);
+    }
+    if (report.dropped.length > 0) {
+      const counts: Record<string, number> = {};
+      report.dropped.forEach(drop => {
+        counts[drop.reason] = (counts[drop.reason] || 0) + 1;
+      });
+      const breakdown = Object.entries(counts).map(([reason, count]) => `${count} ${reason}`).join(', ');
+      lines.push(`Dropped ${report.dropped.length} entries (${breakdown})`);
+    }
+    if (report.keptEntries === 0 && report.dropped.length > 0) {
+      lines.push('The token budget cannot hold a single entry');
+    } else if (!report.fits) {
+      lines.push('Output still exceeds the token budget');
+    }
+
+    return lines;
+  }
+
+  /**
+   * Truncate a body to a maximum length with a marker noting what was cut
+   */
+  private static truncateBody(body: string | undefined, limit: number): { body?: string; truncated: boolean } {
+    if (!body || body.length <= limit) {
+      return { body, truncated: false };
+    }
+    return { body: `${body.slice(0, limit)}… [truncated ${body.length - limit} chars]`, truncated: true };
+  }
+
+  /**
+   * Keep only the headers needed to understand a request
+   */
+  private static collapseHeaders(headers: Record<string, string>): Record<string, string> {
+    const collapsed: Record<string, string> = {};
+    for (const [key, value] of Object.entries(headers)) {
+      if (ESSENTIAL_HEADERS.includes(key)) {
+        collapsed[key] = value;
+      }
+    }
+    return collapsed;
+  }
+
+  /**
+   * Classify each item by how expendable it is
+   */
+  private static classify(items: BudgetItem[]): BudgetDropReason[] {
+    const seen = new Set<string>();
+
+    return items.map(({ conversation }) => {
+      const { request, response } = conversation;
+      let path = request.url;
+      try {
+        path = new URL(request.url).pathname;
+      } catch {
+        // Keep the raw URL
+      }
+
+      const key = `${request.method} ${HARConverter.normalizeUrl(path)} ${response.status}`;
+      const duplicate = seen.has(key);
+      seen.add(key);
+
+      if (this.isStaticAsset(path, response.contentType)) {
+        return 'static-asset';
+      }
+      if (duplicate) {
+        return 'duplicate';
+      }
+      if (response.status >= 300 && response.status < 400) {
+        return 'redirect';
+      }
+      return 'low-priority';
+    });
+  }
+
+  /**
+   * Check if a response is a static asset (script, style, image, font, media)
+   */
+  private static isStaticAsset(path: string, contentType?: string): boolean {
+    if (contentType && /^(image|font|audio|video)\/|css|javascript/.test(contentType)) {
+      return true;
+    }
+    return /\.(js|mjs|css|map|png|jpe?g|gif|svg|webp|avif|ico|woff2?|ttf|otf|eot|mp4|webm|mp3)$/i.test(path);
+  }
+}
@@ -3,171 +3,650 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import * as fs from 'fs';
-import * as path from 'path';
-import { HARFile } from './types';
+import { once } from 'events';
+import { HARFile, HAREntry, RedactionRuleName, DedupeStrategy, DedupeGroup, HarToLlmOptions } from './types';
 import { HARConverter } from './converter';
 import { Formatters } from './formatters';
+import { Redactor } from './redactor';
+import { TokenBudget } from './budget';
+import { TokenEstimator } from './tokenizer';
+import { ConfigLoader } from './config';
+import { HeaderPolicy } from './headers';
+import { Pipeline, PipelineOptions } from './pipeline';
+import { HARSources } from './sources';
+import { HARStreamReader } from './stream';
+import { HARDiff } from './diff';
+import { SnippetGenerator } from './snippets';
+import { HARReplayer } from './replay';
+import { HARMockServer } from './mock';
+import { PerformanceAnalyzer } from './performance';
+import { WaterfallRenderer } from './waterfall';
 
 const program = new Command();
 
+const collect = (value: string, previous: string[]) => previous.concat([value]);
+
 program
   .name('har-to-llm')
   .description('Convert HAR files to LLM-friendly format')
+  // Options after a subcommand name belong to the subcommand
+  .enablePositionalOptions()
   .version('1.0.0')
-  .argument('<file>', 'HAR file to convert')
+  .argument('<files...>', 'HAR files or glob patterns to convert; several files are merged in order of start time')
   .option('-o, --output <file>', 'Output file (default: stdout)')
-  .option('-f, --format <format>', 'Output format: markdown, json, text, curl, conversation, structured', 'markdown')
+  .option('-f, --format <format>', `Output format: ${Formatters.names().join(', ')}`, 'markdown')
+  .option('--formatter <module>', 'Load output formats from a module path or package name (repeatable)', collect, [])
+  .option('--template <file>', 'Render output with a Handlebars-like template file')
+  .option('--lang <languages>', `Languages for the snippets format (comma-separated: ${SnippetGenerator.names().join(', ')}; default: all)`)
   .option('-m, --methods <methods>', 'Filter by HTTP methods (comma-separated)')
   .option('-s, --status <codes>', 'Filter by status codes (comma-separated)')
   .option('-d, --domains <domains>', 'Filter by domains (comma-separated)')
   .option('-e, --exclude-domains <domains>', 'Exclude domains (comma-separated)')
   .option('--min-duration <ms>', 'Minimum request duration in ms')
   .option('--max-duration <ms>', 'Maximum request duration in ms')
+  .option('--graphql', 'Treat each GraphQL operation as its own endpoint for deduplication and summaries')
+  .option('--operations <names>', 'Filter GraphQL requests by operation name (comma-separated)')
+  .option('--where <expression>', 'Filter entries with an expression, e.g. "status >= 400 and path like \'/api/**\'" (repeatable)', collect, [])
+  .option('--page <page>', 'Only entries of this page, by id or title (repeatable)', collect, [])
+  .option('--since <time>', 'Only entries started at or after a timestamp or offset (30s from the start, -2m from the end)')
+  .option('--until <time>', 'Only entries started at or before a timestamp or offset')
+  .option('--range <positions>', 'Only entries at these positions in the file, e.g. 0..49,120')
+  .option('--around <expression>', 'Only entries started near an entry matching this expression')
+  .option('--window <seconds>', 'Seconds kept before and after each --around match', '5')
   .option('--no-deduplicate', 'Do not remove duplicate requests (default: deduplicate)')
+  .option('--dedupe <strategy>', `Deduplication strategy: ${HARConverter.DEDUPE_STRATEGIES.join(', ')}`, 'semantic')
+  .option('--keep <entry>', `Entry kept from each duplicate group: ${HARConverter.DEDUPE_KEEP.join(', ')}`, 'first')
+  .option('--dedupe-report [file]', 'Report the entries absorbed by each kept entry (to stderr, or as JSON to a file)')
+  .option('--keep-headers <patterns>', 'Always keep these headers (comma-separated names, globs like x-* or /regex/)')
+  .option('--drop-headers <patterns>', 'Always drop these headers (comma-separated names, globs or /regex/)')
+  .option('--keep-request-headers <patterns>', 'Always keep these request headers')
+  .option('--drop-request-headers <patterns>', 'Always drop these request headers')
+  .option('--keep-response-headers <patterns>', 'Always keep these response headers')
+  .option('--drop-response-headers <patterns>', 'Always drop these response headers')
+  .option('--all-headers', 'Keep every header that is not dropped explicitly')
+  .option('--redact [rules]', `Redact secrets and PII before formatting (comma-separated rules: ${Redactor.RULES.join(', ')}; default: all)`)
+  .option('--redact-headers <headers>', 'Additional header names to redact (comma-separated)')
+  .option('--redact-keys <keys>', 'Additional query/body field names to redact (comma-separated)')
+  .option('--redact-pattern <regex>', 'Additional regular expression to redact (repeatable)', collect, [])
+  .option('--deterministic', 'Map each redacted value to a stable numbered placeholder')
+  .option('--max-tokens <n>', 'Fit output into a token budget by truncating bodies, collapsing headers and dropping low-priority entries')
+  .option('--tokenizer <model>', `Model used to estimate tokens (${TokenEstimator.models().join(', ')})`, 'default')
+  .option('--config <file>', `Config file (default: nearest ${ConfigLoader.FILES.join(', ')})`)
+  .option('--profile <name>', 'Named profile from the config file')
+  .option('--by-source', 'Render a section per input file when several files are given')
   .option('--summary', 'Show summary only')
   .option('--verbose', 'Verbose output')
-  .action(async (file: string, options: any) => {
+  .action(async (patterns: string[], _options: any, command: Command) => {
     try {
-      // Check if file exists
-      if (!fs.existsSync(file)) {
-        console.error(chalk.red(`Error: File '${file}' not found`));
-        process.exit(1);
-      }
+      const files = expandFiles(patterns);
 
-      // Read and parse HAR file
-      if (options.verbose) {
-        console.log(chalk.blue(`Reading HAR file: ${file}`));
+      // Options from the config file fill in whatever was not given on the command line
+      const configFile = applyConfig(command);
+      const options = command.opts();
+      if (options.verbose && configFile) {
+        console.log(chalk.blue(`Using config: ${configFile}${options.profile ? ` (profile ${options.profile})` : ''}`));
       }
 
-      const harContent = fs.readFileSync(file, 'utf8');
-      const harData: HARFile = JSON.parse(harContent);
+      const pipeline = new Pipeline(toPipelineOptions(options));
 
-      if (options.verbose) {
-        console.log(chalk.blue(`Found ${harData.log.entries.length} entries`));
-      }
+      // Formats that render one entry at a time are written while the file is read
+      if (!options.dedupeReport && files.length === 1 && pipeline.canStream()) {
+        let out: NodeJS.WritableStream | undefined;
+        const write = async (chunk: string) => {
+          // Open the output lazily so nothing is written when no entries match
+          out = out || (options.output ? fs.createWriteStream(options.output) : process.stdout);
+          if (!out.write(chunk)) {
+            await once(out, 'drain');
+          }
+        };
 
-      // Apply filters
-      let filteredEntries = harData.log.entries;
+        const { total, written } = await pipeline.stream(files[0], write);
+        if (written === 0) {
+          console.log(chalk.yellow('No entries match the specified filters'));
+          process.exit(0);
+        }
 
-      if (options.methods) {
-        const methods = options.methods.split(',').map((m: string) => m.trim().toUpperCase());
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { methods });
+        if (options.output) {
+          await new Promise<void>(resolve => out!.end(resolve));
+        } else {
+          // Match console.log, which terminates stdout output with a newline
+          await write('\n');
+        }
         if (options.verbose) {
-          console.log(chalk.blue(`Filtered to ${filteredEntries.length} entries with methods: ${methods.join(', ')}`));
+          console.log(chalk.blue(`Streamed ${written} of ${total} entries`));
+          if (options.output) {
+            console.log(chalk.green(`Output written to: ${options.output}`));
+          }
+          console.log(chalk.green(`Successfully processed ${written} entries`));
         }
+        return;
       }
 
-      if (options.status) {
-        const statusCodes = options.status.split(',').map((s: string) => parseInt(s.trim()));
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { statusCodes });
-        if (options.verbose) {
-          console.log(chalk.blue(`Filtered to ${filteredEntries.length} entries with status codes: ${statusCodes.join(', ')}`));
-        }
+      const result = await pipeline.run(files.length === 1 ? files[0] : files);
+
+      if (options.dedupeReport && result.groups.length > 0) {
+        writeDedupeReport(result.groups, result.indexOf, options);
       }
 
-      if (options.domains) {
-        const domains = options.domains.split(',').map((d: string) => d.trim());
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { domains });
-        if (options.verbose) {
-          console.log(chalk.blue(`Filtered to ${filteredEntries.length} entries with domains: ${domains.join(', ')}`));
-        }
+      if (result.entries.length === 0) {
+        console.log(chalk.yellow('No entries match the specified filters'));
+        process.exit(0);
       }
 
-      if (options.excludeDomains) {
-        const excludeDomains = options.excludeDomains.split(',').map((d: string) => d.trim());
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { excludeDomains });
-        if (options.verbose) {
-          console.log(chalk.blue(`Filtered to ${filteredEntries.length} entries excluding domains: ${excludeDomains.join(', ')}`));
+      if (result.budget) {
+        TokenBudget.describe(result.budget).forEach(line => {
+          console.error(chalk.yellow(line));
+        });
+        // An empty document is never what the caller asked for
+        if (result.budget.keptEntries === 0) {
+          console.error(chalk.red('Error:'), `--max-tokens ${result.budget.maxTokens} cannot hold a single entry`);
+          process.exit(1);
         }
       }
 
-      if (options.minDuration) {
-        const minDuration = parseInt(options.minDuration);
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { minDuration });
-        if (options.verbose) {
-          console.log(chalk.blue(`Filtered to ${filteredEntries.length} entries with min duration: ${minDuration}ms`));
-        }
+      writeOutput(result.output, options);
+
+      if (options.verbose) {
+        console.log(chalk.green(`Successfully processed ${result.entries.length} entries`));
       }
 
-      if (options.maxDuration) {
-        const maxDuration = parseInt(options.maxDuration);
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { maxDuration });
-        if (options.verbose) {
-          console.log(chalk.blue(`Filtered to ${filteredEntries.length} entries with max duration: ${maxDuration}ms`));
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Expand file arguments and glob patterns, exiting when a file does not exist
+ */
+function expandFiles(patterns: string[]): string[] {
+  const files = HARSources.expand(patterns);
+  for (const file of files) {
+    if (!fs.existsSync(file)) {
+      console.error(chalk.red(`Error: File '${file}' not found`));
+      process.exit(1);
+    }
+  }
+  return files;
+}
+
+/**
+ * Split a comma-separated option value
+ */
+function list(value?: string): string[] | undefined {
+  return value ? value.split(',').map(item => item.trim()) : undefined;
+}
+
+/**
+ * Combine repeated --where expressions, which must all match
+ */
+function joinWhere(where: string[]): string | undefined {
+  return where.length > 1 ? where.map(expression => `(${expression})`).join(' and ') : where[0];
+}
+
+/**
+ * Load HAR files and apply the --methods, --domains and --where filters shared by the subcommands
+ */
+async function loadEntries(files: string[], options: any, deduplicate = false): Promise<{ har: HARFile; entries: HAREntry[] }> {
+  files.forEach(file => {
+    if (options.verbose) {
+      console.log(chalk.blue(`Reading HAR file: ${file}`));
+    }
+  });
+  const har = await HARSources.load(files);
+  const entries = HARConverter.filterEntries(har.log.entries, {
+    methods: list(options.methods)?.map(method => method.toUpperCase()),
+    domains: list(options.domains),
+    where: joinWhere(options.where),
+    deduplicate
+  });
+  return { har, entries };
+}
+
+/**
+ * Write output to the --output file, or print it to stdout
+ */
+function writeOutput(output: string, options: any): void {
+  if (options.output) {
+    fs.writeFileSync(options.output, output);
+    if (options.verbose) {
+      console.log(chalk.green(`Output written to: ${options.output}`));
+    }
+  } else {
+    console.log(output);
+  }
+}
+
+/**
+ * Convert command-line option values into pipeline options
+ */
+function toPipelineOptions(options: any): PipelineOptions {
+  return {
+    format: options.format,
+    formatters: options.formatter,
+    template: options.template,
+    languages: list(options.lang),
+    summary: options.summary,
+    methods: list(options.methods)?.map(method => method.toUpperCase()),
+    statusCodes: list(options.status)?.map(status => parseInt(status)),
+    domains: list(options.domains),
+    excludeDomains: list(options.excludeDomains),
+    minDuration: options.minDuration ? parseInt(options.minDuration) : undefined,
+    maxDuration: options.maxDuration ? parseInt(options.maxDuration) : undefined,
+    operations: list(options.operations),
+    // Repeated --where expressions must all match
+    where: joinWhere(options.where),
+    pages: options.page.length > 0 ? options.page : undefined,
+    since: options.since,
+    until: options.until,
+    range: options.range,
+    around: options.around,
+    window: parseFloat(options.window),
+    bySource: options.bySource,
+    deduplicate: options.deduplicate,
+    dedupe: options.dedupe,
+    keep: options.keep,
+    graphql: options.graphql,
+    // Header flags are layered over the header policy from the config file
+    headers: new HeaderPolicy(options.headers).extend({
+      keepAll: options.allHeaders,
+      allow: list(options.keepHeaders),
+      deny: list(options.dropHeaders),
+      request: { allow: list(options.keepRequestHeaders), deny: list(options.dropRequestHeaders) },
+      response: { allow: list(options.keepResponseHeaders), deny: list(options.dropResponseHeaders) }
+    }).options,
+    uselessHeaders: options.uselessHeaders,
+    redact: typeof options.redact === 'string' ? list(options.redact) as RedactionRuleName[] : options.redact,
+    redactHeaders: list(options.redactHeaders),
+    redactKeys: list(options.redactKeys),
+    redactPatterns: options.redactPattern,
+    deterministic: options.deterministic,
+    maxTokens: options.maxTokens ? parseInt(options.maxTokens) : undefined,
+    tokenizer: options.tokenizer,
+    log: options.verbose ? message => console.log(chalk.blue(message)) : undefined
+  };
+}
+
+/**
+ * Load the config file and apply the selected profile to options not set on the command line.
+ * Returns the path of the config file used, if any.
+ */
+function applyConfig(command: Command): string | undefined {
+  const { config, profile } = command.opts();
+  const file = config || ConfigLoader.find();
+  if (!file) {
+    if (profile) {
+      throw new Error(`Profile '${profile}' requested but no config file was found`);
+    }
+    return undefined;
+  }
+  if (!fs.existsSync(file)) {
+    throw new Error(`Config file '${file}' not found`);
+  }
+
+  const settings: HarToLlmOptions = ConfigLoader.resolve(ConfigLoader.load(file), profile);
+  const join = (values?: Array<string | number>) => values && values.join(',');
+
+  // Config values in the form the command-line options take
+  const values: Record<string, unknown> = {
+    format: settings.format,
+    formatter: settings.formatters,
+    template: settings.template,
+    lang: join(settings.languages),
+    output: settings.output,
+    methods: join(settings.methods),
+    status: join(settings.statusCodes),
+    domains: join(settings.domains),
+    excludeDomains: join(settings.excludeDomains),
+    minDuration: settings.minDuration !== undefined ? String(settings.minDuration) : undefined,
+    maxDuration: settings.maxDuration !== undefined ? String(settings.maxDuration) : undefined,
+    deduplicate: settings.deduplicate,
+    dedupe: settings.dedupe,
+    keep: settings.keep,
+    dedupeReport: settings.dedupeReport,
+    graphql: settings.graphql,
+    operations: join(settings.operations),
+    where: settings.where !== undefined ? [settings.where] : undefined,
+    page: settings.pages,
+    since: settings.since,
+    until: settings.until,
+    range: settings.range,
+    around: settings.around,
+    window: settings.window !== undefined ? String(settings.window) : undefined,
+    redact: Array.isArray(settings.redact) ? join(settings.redact) : settings.redact,
+    redactHeaders: join(settings.redactHeaders),
+    redactKeys: join(settings.redactKeys),
+    redactPattern: settings.redactPatterns,
+    deterministic: settings.deterministic,
+    maxTokens: settings.maxTokens !== undefined ? String(settings.maxTokens) : undefined,
+    tokenizer: settings.tokenizer,
+    bySource: settings.bySource,
+    summary: settings.summary,
+    verbose: settings.verbose,
+    headers: settings.headers,
+    uselessHeaders: settings.uselessHeaders
+  };
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && command.getOptionValueSource(key) !== 'cli') {
+      command.setOptionValueWithSource(key, value, 'config');
+    }
+  }
+
+
+  return file;
+}
+
+/**
+ * Print a deduplication report to stderr, or write it as JSON to a file
+ */
+function writeDedupeReport(groups: DedupeGroup[], indexOf: (entry: HAREntry) => number, options: any): void {
+  const strategy: DedupeStrategy = options.deduplicate === false ? 'none' : options.dedupe;
+  const report = groups.map(group => ({
+    index: indexOf(group.kept),
+    method: group.kept.request.method,
+    url: group.kept.request.url,
+    status: group.kept.response.status,
+    absorbed: group.absorbed.length,
+    absorbedIndices: group.absorbed.map(indexOf)
+  }));
+
+  if (typeof options.dedupeReport === 'string') {
+    fs.writeFileSync(options.dedupeReport, JSON.stringify({ strategy, keep: options.keep, groups: report }, null, 2));
+    if (options.verbose) {
+      console.log(chalk.green(`Deduplication report written to: ${options.dedupeReport}`));
+    }
+    return;
+  }
+
+  const absorbed = report.reduce((sum, group) => sum + group.absorbed, 0);
+  console.error(chalk.blue(`Deduplication report (${strategy}, keep ${options.keep}): ${report.length} kept, ${absorbed} absorbed`));
+  report.forEach(group => {
+    const detail = group.absorbed > 0 ? `absorbed ${group.absorbed}: ${group.absorbedIndices.map(i => `#${i}`).join(', ')}` : 'unique';
+    console.error(`#${group.index} ${group.method} ${group.url} ${group.status} - ${detail}`);
+  });
+}
+
+program
+  .command('diff')
+  .description('Compare two HAR files endpoint by endpoint')
+  .argument('<base>', 'HAR file of the known-good capture')
+  .argument('<head>', 'HAR file to compare with it')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-f, --format <format>', 'Output format: markdown, json', 'markdown')
+  .option('--graphql', 'Match GraphQL requests per operation')
+  .option('--where <expression>', 'Only compare entries matching an expression (repeatable)', collect, [])
+  .option('--latency-threshold <percent>', 'Report median latency growth above this percentage', '20')
+  .option('--exit-code', 'Exit with status 1 when the captures differ')
+  .option('--verbose', 'Verbose output')
+  .action(async (base: string, head: string, options: any) => {
+    try {
+      for (const file of [base, head]) {
+        if (!fs.existsSync(file)) {
+          console.error(chalk.red(`Error: File '${file}' not found`));
+          process.exit(1);
         }
       }
+      if (!['markdown', 'json'].includes(options.format)) {
+        throw new Error(`Unknown diff format: ${options.format}. Available formats: markdown, json`);
+      }
 
-      // Apply deduplication (default: true, unless --no-deduplicate is specified)
-      const shouldDeduplicate = options.deduplicate !== false;
-      if (shouldDeduplicate) {
-        const originalCount = filteredEntries.length;
-        filteredEntries = HARConverter.filterEntries(filteredEntries, { deduplicate: true });
+      const where = joinWhere(options.where);
+      const load = async (file: string) => {
         if (options.verbose) {
-          const removedCount = originalCount - filteredEntries.length;
-          if (removedCount > 0) {
-            console.log(chalk.blue(`Removed ${removedCount} duplicate requests (${filteredEntries.length} unique requests remaining)`));
-          } else {
-            console.log(chalk.blue('No duplicate requests found'));
-          }
+          console.log(chalk.blue(`Reading HAR file: ${file}`));
         }
-      } else if (options.verbose) {
-        console.log(chalk.blue('Deduplication disabled'));
+        const har = await HARStreamReader.readFile(file);
+        return HARConverter.filterEntries(har.log.entries, { where, deduplicate: false });
+      };
+
+      const report = HARDiff.compare(await load(base), await load(head), {
+        graphql: options.graphql,
+        latencyThreshold: parseFloat(options.latencyThreshold),
+        baseLabel: base,
+        headLabel: head
+      });
+      const output = options.format === 'json' ? HARDiff.toJSON(report) : HARDiff.toMarkdown(report);
+
+      writeOutput(output, options);
+
+      if (options.exitCode && HARDiff.hasChanges(report)) {
+        process.exit(1);
       }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('performance')
+  .alias('perf')
+  .description('Analyze request timings: latency percentiles, timing phases, connections, payload sizes and concurrency')
+  .argument('<files...>', 'HAR files or glob patterns to analyze')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-f, --format <format>', 'Output format: markdown, json', 'markdown')
+  .option('-m, --methods <methods>', 'Only analyze these HTTP methods (comma-separated)')
+  .option('-d, --domains <domains>', 'Only analyze requests to these domains (comma-separated)')
+  .option('--where <expression>', 'Only analyze entries matching an expression (repeatable)', collect, [])
+  .option('--graphql', 'Group GraphQL requests per operation')
+  .option('--slowest <n>', 'Number of slowest requests to list', '10')
+  .option('--verbose', 'Verbose output')
+  .action(async (patterns: string[], options: any) => {
+    try {
+      const files = expandFiles(patterns);
+      if (!['markdown', 'json'].includes(options.format)) {
+        throw new Error(`Unknown performance format: ${options.format}. Available formats: markdown, json`);
+      }
+
+      // Every call counts towards the percentiles, so duplicates are kept
+      const { entries } = await loadEntries(files, options);
 
-      if (filteredEntries.length === 0) {
+      const report = PerformanceAnalyzer.analyze(entries, { graphql: options.graphql, slowest: parseInt(options.slowest) });
+      const output = options.format === 'json' ? PerformanceAnalyzer.toJSON(report) : PerformanceAnalyzer.toMarkdown(report);
+
+      writeOutput(output, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('waterfall')
+  .description('Draw the request timeline as a waterfall, grouped by page and domain')
+  .argument('<files...>', 'HAR files or glob patterns to draw')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-f, --format <format>', 'Output format: ascii, svg, html', 'ascii')
+  .option('-w, --width <n>', 'Timeline width: characters for ascii (default 60), pixels for svg and html (default 800)')
+  .option('--no-color', 'Do not color ascii output, even in a terminal')
+  .option('-m, --methods <methods>', 'Only draw these HTTP methods (comma-separated)')
+  .option('-d, --domains <domains>', 'Only draw requests to these domains (comma-separated)')
+  .option('--where <expression>', 'Only draw entries matching an expression (repeatable)', collect, [])
+  .option('--verbose', 'Verbose output')
+  .action(async (patterns: string[], options: any) => {
+    try {
+      const files = expandFiles(patterns);
+      if (!['ascii', 'svg', 'html'].includes(options.format)) {
+        throw new Error(`Unknown waterfall format: ${options.format}. Available formats: ascii, svg, html`);
+      }
+      const width = options.width !== undefined ? parseInt(options.width) : undefined;
+      if (width !== undefined && (isNaN(width) || width <= 0)) {
+        throw new Error(`Invalid width: ${options.width}`);
+      }
+
+      const { har, entries } = await loadEntries(files, options);
+      if (entries.length === 0) {
         console.log(chalk.yellow('No entries match the specified filters'));
-        process.exit(0);
+        return;
       }
 
-      // Generate output
-      let output: string;
-
-      if (options.summary) {
-        const summary = HARConverter.generateSummary(filteredEntries);
-        output = JSON.stringify(summary, null, 2);
-      } else {
-        const conversations = filteredEntries.map(entry => HARConverter.convertEntry(entry));
-
-        switch (options.format.toLowerCase()) {
-          case 'markdown':
-            output = Formatters.toMarkdown(conversations);
-            break;
-          case 'json':
-            output = Formatters.toJSON(conversations);
-            break;
-          case 'text':
-            output = Formatters.toTextSummary(conversations);
-            break;
-          case 'curl':
-            output = Formatters.toCurlCommands(conversations);
-            break;
-          case 'conversation':
-            output = Formatters.toConversationLog(conversations);
-            break;
-          case 'structured':
-            output = Formatters.toStructuredData(filteredEntries);
-            break;
-          default:
-            console.error(chalk.red(`Unknown format: ${options.format}`));
-            console.log(chalk.blue('Available formats: markdown, json, text, curl, conversation, structured'));
-            process.exit(1);
-        }
+      const waterfallOptions = {
+        pages: har.log.pages || [],
+        width,
+        // Colors only make sense in a terminal
+        color: options.color && options.format === 'ascii' && !options.output && !!process.stdout.isTTY,
+        title: `Waterfall of ${files.join(', ')}`
+      };
+      const output = options.format === 'svg'
+        ? WaterfallRenderer.toSVG(entries, waterfallOptions)
+        : options.format === 'html'
+          ? WaterfallRenderer.toHTML(entries, waterfallOptions)
+          : WaterfallRenderer.toASCII(entries, waterfallOptions);
+
+      writeOutput(output, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('replay')
+  .description('Re-send captured requests and check that status codes and JSON response structures still match')
+  .argument('<files...>', 'HAR files or glob patterns to replay')
+  .option('-b, --base-url <url>', 'Send every request to this origin instead of the captured host, e.g. http://localhost:3000')
+  .option('--host <mapping>', 'Send requests for one host elsewhere, e.g. api.example.com=http://localhost:3001 (repeatable)', collect, [])
+  .option('--preserve-host', 'Keep the captured Host header instead of the target\'s')
+  .option('-m, --methods <methods>', 'Only replay these HTTP methods (comma-separated)')
+  .option('-d, --domains <domains>', 'Only replay requests to these domains (comma-separated)')
+  .option('--where <expression>', 'Only replay entries matching an expression (repeatable)', collect, [])
+  .option('--deduplicate', 'Replay one request per group of duplicates')
+  .option('--timeout <ms>', 'Request timeout in ms', '10000')
+  .option('-o, --output <file>', 'Output file (default: stdout)')
+  .option('-f, --format <format>', 'Output format: markdown, json', 'markdown')
+  .option('--verbose', 'Verbose output')
+  .action(async (patterns: string[], options: any) => {
+    try {
+      const files = expandFiles(patterns);
+      if (!['markdown', 'json'].includes(options.format)) {
+        throw new Error(`Unknown replay format: ${options.format}. Available formats: markdown, json`);
       }
 
-      // Write output
-      if (options.output) {
-        fs.writeFileSync(options.output, output);
-        if (options.verbose) {
-          console.log(chalk.green(`Output written to: ${options.output}`));
+      const hosts: Record<string, string> = {};
+      for (const mapping of options.host) {
+        const separator = mapping.indexOf('=');
+        if (separator <= 0 || separator === mapping.length - 1) {
+          throw new Error(`Invalid host mapping: ${mapping}. Use host=url, e.g. api.example.com=http://localhost:3001`);
+        }
+        hosts[mapping.slice(0, separator)] = mapping.slice(separator + 1);
+      }
+      for (const target of [options.baseUrl, ...Object.values(hosts)].filter(Boolean)) {
+        if (!/^https?:\/\/[^/]/.test(target)) {
+          throw new Error(`Invalid target URL: ${target}. Use an http or https URL, e.g. http://localhost:3000`);
         }
-      } else {
-        console.log(output);
       }
 
+      const { har, entries } = await loadEntries(files, options, !!options.deduplicate);
       if (options.verbose) {
-        console.log(chalk.green(`Successfully processed ${filteredEntries.length} entries`));
+        console.log(chalk.blue(`Replaying ${entries.length} of ${har.log.entries.length} entries`));
+      }
+
+      const report = await HARReplayer.replay(entries, {
+        baseUrl: options.baseUrl,
+        hosts,
+        preserveHost: options.preserveHost,
+        timeout: parseInt(options.timeout),
+        onResult: result => {
+          if (options.verbose) {
+            const status = result.actualStatus !== undefined ? result.actualStatus : 'error';
+            console.log(result.passed
+              ? chalk.green(`pass ${result.method} ${result.target} ${status}`)
+              : chalk.red(`FAIL ${result.method} ${result.target} ${status}: ${result.failures.join('; ')}`));
+          }
+        }
+      });
+      const output = options.format === 'json' ? HARReplayer.toJSON(report) : HARReplayer.toMarkdown(report);
+
+      writeOutput(output, options);
+
+      if (report.summary.failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('serve')
+  .description('Start a mock server answering requests with the recorded responses')
+  .argument('<files...>', 'HAR files or glob patterns to serve')
+  .option('-p, --port <port>', 'Port to listen on', '3000')
+  .option('--bind <address>', 'Address to listen on', '127.0.0.1')
+  .option('--latency <mode>', 'Simulate latency from the recorded timings: none, total, server (wait + receive)', 'none')
+  .option('--latency-scale <factor>', 'Multiply simulated latencies by this factor', '1')
+  .option('--fallback <strategy>', 'For unmatched requests: 404, nearest (closest recorded route), or a URL to proxy to', '404')
+  .option('--cors', 'Allow cross-origin requests from any origin')
+  .option('--no-watch', 'Do not reload when the HAR files change')
+  .option('-m, --methods <methods>', 'Only serve these HTTP methods (comma-separated)')
+  .option('-d, --domains <domains>', 'Only serve requests to these domains (comma-separated)')
+  .option('--where <expression>', 'Only serve entries matching an expression (repeatable)', collect, [])
+  .option('--verbose', 'Verbose output')
+  .action(async (patterns: string[], options: any) => {
+    try {
+      const files = expandFiles(patterns);
+      if (!['none', 'total', 'server'].includes(options.latency)) {
+        throw new Error(`Unknown latency mode: ${options.latency}. Available modes: none, total, server`);
+      }
+      if (options.fallback !== '404' && options.fallback !== 'nearest' && !/^https?:\/\/[^/]/.test(options.fallback)) {
+        throw new Error(`Invalid fallback: ${options.fallback}. Use 404, nearest or an http(s) URL, e.g. http://localhost:3001`);
+      }
+      const port = parseInt(options.port);
+      const latencyScale = parseFloat(options.latencyScale);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${options.port}`);
+      }
+      if (isNaN(latencyScale) || latencyScale < 0) {
+        throw new Error(`Invalid latency scale: ${options.latencyScale}`);
+      }
+
+      const load = async (): Promise<HAREntry[]> => (await loadEntries(files, options)).entries;
+
+      const server = new HARMockServer(await load(), {
+        latency: options.latency,
+        latencyScale,
+        fallback: options.fallback,
+        cors: options.cors,
+        onRequest: log => {
+          const color = log.source === 'recorded' ? chalk.green : log.source === 'not-found' ? chalk.red : chalk.yellow;
+          const detail = log.entry !== undefined ? `${log.source} #${log.entry}` : log.source;
+          console.log(color(`${log.method} ${log.url} → ${log.status} (${detail}${log.delay > 0 ? `, ${log.delay}ms` : ''})`));
+        }
+      });
+      const url = await server.listen(port, options.bind);
+      console.log(chalk.green(`Serving ${server.size} recorded responses at ${url}`));
+
+      if (options.watch) {
+        let reloading = Promise.resolve();
+        files.forEach(file => {
+          fs.watchFile(file, { interval: 500 }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs) {
+              return;
+            }
+            // Reload one change at a time, so a slow parse cannot overwrite a newer one
+            reloading = reloading.then(async () => {
+              try {
+                server.setEntries(await load());
+                console.log(chalk.blue(`Reloaded ${file}: serving ${server.size} recorded responses`));
+              } catch (error) {
+                console.error(chalk.red('Error:'), `Could not reload ${file}, keeping the previous responses:`, error instanceof Error ? error.message : error);
+              }
+            });
+          });
+        });
+        if (options.verbose) {
+          console.log(chalk.blue(`Watching ${files.join(', ')} for changes`));
+        }
       }
 
+      const stop = () => {
+        files.forEach(file => fs.unwatchFile(file));
+        server.close().finally(() => process.exit(0));
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
     } catch (error) {
       console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
       process.exit(1);
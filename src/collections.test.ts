@@ -0,0 +1,60 @@
+import { CollectionExporter } from './collections';
+import { LLMConversation } from './types';
+
+function conversation(url: string, headers: Record<string, string> = {}): LLMConversation {
+  return {
+    request: { method: 'GET', url, headers },
+    response: { status: 200, statusText: 'OK', headers: {} }
+  } as LLMConversation;
+}
+
+describe('CollectionExporter', () => {
+  it('keeps one base URL and unscoped credentials for a single host', () => {
+    const collection = CollectionExporter.toPostman([
+      conversation('https://api.example.com/users?token=AAA', { authorization: 'Bearer tokA' })
+    ]);
+    const request = collection.item[0].item[0].request;
+
+    expect(request.url.raw).toBe('{{baseUrl}}/users?token={{token}}');
+    expect(request.header).toEqual([{ key: 'authorization', value: 'Bearer {{authorization}}' }]);
+    expect(collection.variable.map((variable: any) => [variable.key, variable.value])).toEqual([
+      ['baseUrl', 'https://api.example.com'],
+      ['authorization', 'tokA'],
+      ['token', 'AAA']
+    ]);
+  });
+
+  it('scopes credential variables per host so no host receives another host\'s secret', () => {
+    const collection = CollectionExporter.toPostman([
+      conversation('https://a.example.com/users?token=AAA', { authorization: 'Bearer tokA' }),
+      conversation('https://b.example.org/users?token=BBB', { authorization: 'Bearer tokB' })
+    ]);
+    const [a, b] = collection.item.map((folder: any) => folder.item[0].item[0].request);
+
+    expect(a.url.raw).toBe('{{aExampleComUrl}}/users?token={{aExampleComToken}}');
+    expect(a.header).toEqual([{ key: 'authorization', value: 'Bearer {{aExampleComAuthorization}}' }]);
+    expect(b.url.raw).toBe('{{bExampleOrgUrl}}/users?token={{bExampleOrgToken}}');
+    expect(b.header).toEqual([{ key: 'authorization', value: 'Bearer {{bExampleOrgAuthorization}}' }]);
+    expect(Object.fromEntries(collection.variable.map((variable: any) => [variable.key, variable.value]))).toEqual({
+      aExampleComUrl: 'https://a.example.com',
+      aExampleComAuthorization: 'tokA',
+      aExampleComToken: 'AAA',
+      bExampleOrgUrl: 'https://b.example.org',
+      bExampleOrgAuthorization: 'tokB',
+      bExampleOrgToken: 'BBB'
+    });
+  });
+
+  it('marks scoped credentials as secret in Bruno environments', () => {
+    const collection = CollectionExporter.toBruno([
+      conversation('https://a.example.com/me', { cookie: 'sid=1' }),
+      conversation('https://b.example.org/me', { cookie: 'sid=2' })
+    ]);
+    const secrets = collection.environments[0].variables.filter((variable: any) => variable.secret);
+
+    expect(secrets.map((variable: any) => [variable.name, variable.value])).toEqual([
+      ['aExampleComCookie', 'sid=1'],
+      ['bExampleOrgCookie', 'sid=2']
+    ]);
+  });
+});
@@ -0,0 +1,409 @@
+import { LLMConversation } from './types';
+import { Redactor } from './redactor';
+
+export interface CollectionOptions {
+  /** Name of the collection (default: "HAR Capture") */
+  name?: string;
+}
+
+type VariableSyntax = (name: string) => string;
+
+interface CollectionBody {
+  mode: 'json' | 'text' | 'form' | 'multipart';
+  contentType: string;
+  text?: string;
+  fields?: Array<{ name: string; value: string }>;
+  files?: Array<{ name: string; value?: string; filename?: string; contentType?: string }>;
+}
+
+interface CollectionRequest {
+  name: string;
+  method: string;
+  baseVariable: string;
+  path: string;
+  query: Array<{ name: string; value: string }>;
+  headers: Array<{ name: string; value: string }>;
+  body?: CollectionBody;
+  response: LLMConversation['response'];
+}
+
+interface CollectionFolder {
+  name: string;
+  folders: CollectionFolder[];
+  requests: CollectionRequest[];
+}
+
+interface CollectionModel {
+  name: string;
+  root: CollectionFolder;
+  variables: Map<string, string>;
+  /** Variables holding credentials rather than origins */
+  secrets: Set<string>;
+}
+
+// Headers that HTTP clients compute themselves
+const COMPUTED_HEADERS = ['host', 'content-length'];
+
+// Query parameters that carry credentials (lowercase, without separators)
+const CREDENTIAL_PARAMS = ['accesstoken', 'apikey', 'token', 'key', 'auth', 'idtoken', 'clientsecret'];
+
+const AUTH_SCHEME = /^([A-Za-z][\w-]*)\s+(\S.*)$/;
+
+/**
+ * Exports conversations as collections for API clients (Postman, Insomnia and
+ * Bruno). Requests are grouped into a folder per host and a subfolder per first
+ * path segment; origins and credential headers are replaced with collection
+ * variables, and each request keeps its body and its response as an example.
+ */
+export class CollectionExporter {
+  /**
+   * Build a Postman Collection v2.1 document
+   */
+  static toPostman(conversations: LLMConversation[], options: CollectionOptions = {}): Record<string, any> {
+    const model = this.buildModel(conversations, options);
+    const variable: VariableSyntax = name => `{{${name}}}`;
+
+    const renderRequest = (request: CollectionRequest) => {
+      const url = this.url(request, variable);
+      const postmanRequest: Record<string, any> = {
+        method: request.method,
+        header: request.headers
+          .filter(header => !(request.body?.mode === 'multipart' && header.name === 'content-type'))
+          .map(header => ({ key: header.name, value: this.substitute(header.value, variable) })),
+        url: {
+          raw: url,
+          host: [variable(request.baseVariable)],
+          path: request.path.split('/').filter(Boolean),
+          ...(request.query.length > 0 && { query: request.query.map(param => ({ key: param.name, value: this.substitute(param.value, variable) })) })
+        }
+      };
+      if (request.body) {
+        postmanRequest.body = this.postmanBody(request.body);
+      }
+
+      return {
+        name: request.name,
+        request: postmanRequest,
+        response: [{
+          name: `${request.response.status} ${request.response.statusText}`.trim(),
+          originalRequest: postmanRequest,
+          status: request.response.statusText,
+          code: request.response.status,
+          ...(request.response.contentType && /json/i.test(request.response.contentType) && { _postman_previewlanguage: 'json' }),
+          header: Object.entries(request.response.headers).map(([key, value]) => ({ key, value })),
+          body: request.response.body || ''
+        }]
+      };
+    };
+
+    const renderFolder = (folder: CollectionFolder): any[] => [
+      ...folder.folders.map(child => ({ name: child.name, item: renderFolder(child) })),
+      ...folder.requests.map(renderRequest)
+    ];
+
+    return {
+      info: {
+        name: model.name,
+        schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      },
+      item: renderFolder(model.root),
+      variable: Array.from(model.variables.entries()).map(([key, value]) => ({ key, value, type: 'string' }))
+    };
+  }
+
+  /**
+   * Build an Insomnia export (format 4); example responses are kept in each request's description
+   */
+  static toInsomnia(conversations: LLMConversation[], options: CollectionOptions = {}): Record<string, any> {
+    const model = this.buildModel(conversations, options);
+    const variable: VariableSyntax = name => `{{ _.${name} }}`;
+    const resources: Record<string, any>[] = [];
+    const ids: Record<string, number> = {};
+    const nextId = (prefix: string) => `${prefix}_${(ids[prefix] = (ids[prefix] || 0) + 1)}`;
+
+    const workspaceId = nextId('wrk');
+    resources.push({ _id: workspaceId, _type: 'workspace', parentId: null, name: model.name, scope: 'collection' });
+    resources.push({
+      _id: nextId('env'),
+      _type: 'environment',
+      parentId: workspaceId,
+      name: 'Base Environment',
+      data: Object.fromEntries(model.variables)
+    });
+
+    const addFolder = (folder: CollectionFolder, parentId: string) => {
+      folder.folders.forEach(child => {
+        const id = nextId('fld');
+        resources.push({ _id: id, _type: 'request_group', parentId, name: child.name });
+        addFolder(child, id);
+      });
+      folder.requests.forEach(request => {
+        resources.push({
+          _id: nextId('req'),
+          _type: 'request',
+          parentId,
+          name: request.name,
+          method: request.method,
+          url: this.url(request, variable, false),
+          parameters: request.query.map(param => ({ name: param.name, value: this.substitute(param.value, variable) })),
+          headers: request.headers
+            .filter(header => !(request.body?.mode === 'multipart' && header.name === 'content-type'))
+            .map(header => ({ name: header.name, value: this.substitute(header.value, variable) })),
+          body: request.body ? this.insomniaBody(request.body) : {},
+          description: this.exampleResponse(request)
+        });
+      });
+    };
+    addFolder(model.root, workspaceId);
+
+    return {
+      _type: 'export',
+      __export_format: 4,
+      __export_source: 'har-to-llm',
+      resources
+    };
+  }
+
+  /**
+   * Build a Bruno collection export; example responses are kept in each request's docs
+   */
+  static toBruno(conversations: LLMConversation[], options: CollectionOptions = {}): Record<string, any> {
+    const model = this.buildModel(conversations, options);
+    const variable: VariableSyntax = name => `{{${name}}}`;
+
+    const renderFolder = (folder: CollectionFolder): any[] => [
+      ...folder.folders.map(child => ({ type: 'folder', name: child.name, items: renderFolder(child) })),
+      ...folder.requests.map((request, index) => ({
+        type: 'http-request',
+        name: request.name,
+        seq: index + 1,
+        request: {
+          method: request.method,
+          url: this.url(request, variable),
+          params: request.query.map(param => ({ name: param.name, value: this.substitute(param.value, variable), type: 'query', enabled: true })),
+          headers: request.headers
+            .filter(header => !(request.body?.mode === 'multipart' && header.name === 'content-type'))
+            .map(header => ({ name: header.name, value: this.substitute(header.value, variable), enabled: true })),
+          auth: { mode: 'none' },
+          body: request.body ? this.brunoBody(request.body) : { mode: 'none' },
+          docs: this.exampleResponse(request)
+        }
+      }))
+    ];
+
+    return {
+      name: model.name,
+      version: '1',
+      items: renderFolder(model.root),
+      environments: [{
+        name: 'Captured',
+        variables: Array.from(model.variables.entries()).map(([name, value]) => ({
+          name,
+          value,
+          enabled: true,
+          secret: model.secrets.has(name),
+          type: 'text'
+        }))
+      }]
+    };
+  }
+
+  /**
+   * Turn conversations into a folder tree of requests, pulling origins and credentials into variables
+   */
+  private static buildModel(conversations: LLMConversation[], options: CollectionOptions): CollectionModel {
+    const variables = new Map<string, string>();
+    const secrets = new Set<string>();
+    const root: CollectionFolder = { name: '', folders: [], requests: [] };
+    const origins = new Set<string>();
+    const parsed = conversations.flatMap(conv => {
+      try {
+        const url = new URL(conv.request.url);
+        origins.add(url.origin);
+        return [{ conv, url }];
+      } catch {
+        return [];
+      }
+    });
+
+    for (const { conv, url } of parsed) {
+      const baseVariable = origins.size === 1 ? 'baseUrl' : `${this.variableName(url.host)}Url`;
+      variables.set(baseVariable, url.origin);
+      // Credentials are scoped per host so one host's secret is never sent to another
+      const credentialVariable = (name: string) => this.variableName(origins.size === 1 ? name : `${url.host} ${name}`);
+
+      const headers = Object.entries(conv.request.headers)
+        .filter(([name]) => !COMPUTED_HEADERS.includes(name))
+        .map(([name, value]) => {
+          if (!Redactor.isCredentialHeader(name) && name !== 'cookie') {
+            return { name, value };
+          }
+          // The latest credential of a host wins; the scheme stays in the header
+          const credentials = /authorization$/.test(name) ? value.match(AUTH_SCHEME) : null;
+          const variableName = credentialVariable(name);
+          variables.set(variableName, credentials ? credentials[2] : value);
+          secrets.add(variableName);
+          return { name, value: credentials ? `${credentials[1]} ${this.placeholder(variableName)}` : this.placeholder(variableName) };
+        });
+
+      const segments = url.pathname.split('/').filter(Boolean);
+      this.folder(root, [url.host, ...segments.slice(0, 1)]).requests.push({
+        name: this.requestName(conv, url),
+        method: conv.request.method,
+        baseVariable,
+        path: url.pathname,
+        query: Array.from(url.searchParams.entries()).map(([name, value]) => {
+          if (!CREDENTIAL_PARAMS.includes(name.toLowerCase().replace(/[-_.]/g, ''))) {
+            return { name, value };
+          }
+          const variableName = credentialVariable(name);
+          variables.set(variableName, value);
+          secrets.add(variableName);
+          return { name, value: this.placeholder(variableName) };
+        }),
+        headers,
+        body: this.body(conv),
+        response: conv.response
+      });
+    }
+
+    // Collapse the host level when everything comes from one host
+    const tree = root.folders.length === 1 && root.requests.length === 0 ? root.folders[0] : root;
+    return { name: options.name || 'HAR Capture', root: { ...tree, name: '' }, variables, secrets };
+  }
+
+  /**
+   * Name a request by method and path, plus the operation names of GraphQL requests
+   */
+  private static requestName(conv: LLMConversation, url: URL): string {
+    const parsed = conv.request.parsedBody;
+    const operations = parsed?.type === 'graphql'
+      ? parsed.operations.map(operation => operation.operationName).filter(Boolean)
+      : [];
+    return `${conv.request.method} ${url.pathname}${operations.length > 0 ? ` (${operations.join(', ')})` : ''}`;
+  }
+
+  private static folder(root: CollectionFolder, path: string[]): CollectionFolder {
+    return path.reduce((parent, name) => {
+      let child = parent.folders.find(folder => folder.name === name);
+      if (!child) {
+        child = { name, folders: [], requests: [] };
+        parent.folders.push(child);
+      }
+      return child;
+    }, root);
+  }
+
+  private static body(conv: LLMConversation): CollectionBody | undefined {
+    const { body, parsedBody } = conv.request;
+    const contentType = (conv.request.contentType || '').split(';')[0].trim() || 'text/plain';
+
+    if (parsedBody?.type === 'multipart') {
+      return {
+        mode: 'multipart',
+        contentType,
+        files: parsedBody.parts.filter(part => part.name !== undefined).map(part => ({
+          name: part.name!,
+          ...(part.filename !== undefined ? { filename: part.filename } : { value: part.value || '' }),
+          ...(part.contentType && { contentType: part.contentType })
+        }))
+      };
+    }
+    if (parsedBody?.type === 'form') {
+      return { mode: 'form', contentType, fields: parsedBody.fields };
+    }
+    if (!body) {
+      return undefined;
+    }
+    return { mode: /json/i.test(contentType) ? 'json' : 'text', contentType, text: body };
+  }
+
+  private static postmanBody(body: CollectionBody): Record<string, any> {
+    switch (body.mode) {
+      case 'form':
+        return { mode: 'urlencoded', urlencoded: body.fields!.map(field => ({ key: field.name, value: field.value })) };
+      case 'multipart':
+        return {
+          mode: 'formdata',
+          formdata: body.files!.map(part => part.filename !== undefined
+            ? { key: part.name, type: 'file', src: part.filename }
+            : { key: part.name, type: 'text', value: part.value, ...(part.contentType && { contentType: part.contentType }) })
+        };
+      default:
+        return { mode: 'raw', raw: body.text, options: { raw: { language: body.mode === 'json' ? 'json' : 'text' } } };
+    }
+  }
+
+  private static insomniaBody(body: CollectionBody): Record<string, any> {
+    switch (body.mode) {
+      case 'form':
+        return { mimeType: body.contentType, params: body.fields!.map(field => ({ name: field.name, value: field.value })) };
+      case 'multipart':
+        return {
+          mimeType: 'multipart/form-data',
+          params: body.files!.map(part => part.filename !== undefined
+            ? { name: part.name, type: 'file', fileName: part.filename }
+            : { name: part.name, value: part.value })
+        };
+      default:
+        return { mimeType: body.contentType, text: body.text };
+    }
+  }
+
+  private static brunoBody(body: CollectionBody): Record<string, any> {
+    switch (body.mode) {
+      case 'form':
+        return { mode: 'formUrlEncoded', formUrlEncoded: body.fields!.map(field => ({ name: field.name, value: field.value, enabled: true })) };
+      case 'multipart':
+        return {
+          mode: 'multipartForm',
+          multipartForm: body.files!.map(part => part.filename !== undefined
+            ? { name: part.name, type: 'file', value: [part.filename], enabled: true }
+            : { name: part.name, type: 'text', value: part.value, enabled: true })
+        };
+      case 'json':
+        return { mode: 'json', json: body.text };
+      default:
+        return /xml/i.test(body.contentType) ? { mode: 'xml', xml: body.text } : { mode: 'text', text: body.text };
+    }
+  }
+
+  /**
+   * Describe the captured response in markdown, for clients without saved examples
+   */
+  private static exampleResponse(request: CollectionRequest): string {
+    const { response } = request;
+    let output = `Example response: ${response.status} ${response.statusText}`.trim() + '\n';
+    if (response.body) {
+      const language = response.contentType && /json/i.test(response.contentType) ? 'json' : '';
+      output += `\n\`\`\`${language}\n${response.body}\n\`\`\`\n`;
+    }
+    return output;
+  }
+
+  private static url(request: CollectionRequest, variable: VariableSyntax, withQuery = true): string {
+    const encode = (text: string) => encodeURIComponent(text).replace(/%7B%7B(\w+)%7D%7D/g, (_, name: string) => variable(name));
+    const query = request.query.map(param => `${encode(param.name)}=${encode(param.value)}`).join('&');
+    return `${variable(request.baseVariable)}${request.path}${withQuery && query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Convert the neutral `{{name}}` placeholders of the model to a client's syntax
+   */
+  private static substitute(value: string, variable: VariableSyntax): string {
+    return value.replace(/\{\{(\w+)\}\}/g, (_, name: string) => variable(name));
+  }
+
+  private static placeholder(name: string): string {
+    return `{{${name}}}`;
+  }
+
+  /**
+   * camelCase variable name for a host or header, e.g. `api.example.com` → `apiExampleCom`
+   */
+  private static variableName(text: string): string {
+    const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const name = words.map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+    return /^[A-Za-z]/.test(name) ? name : `host${name}`;
+  }
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HarToLlmConfig, HarToLlmOptions } from './types';
+
+// File names looked for in each directory, in order
+const CONFIG_FILES = ['.har-to-llmrc', '.har-to-llmrc.json', '.har-to-llmrc.js', 'har-to-llm.config.js'];
+
+type OptionType = 'string' | 'number' | 'boolean' | 'string[]' | 'number[]' | 'object';
+
+const TYPE_NAMES: Record<OptionType, string> = {
+  string: 'a string', number: 'a number', boolean: 'a boolean', 'string[]': 'an array of strings', 'number[]': 'an array of numbers', object: 'an object'
+};
+
+// Value types accepted for each option
+const OPTION_TYPES: Record<keyof HarToLlmOptions, OptionType[]> = {
+  format: ['string'], formatters: ['string[]'], template: ['string'], output: ['string'],
+  methods: ['string[]'], statusCodes: ['number[]'], domains: ['string[]'], excludeDomains: ['string[]'],
+  minDuration: ['number'], maxDuration: ['number'],
+  where: ['string'], pages: ['string[]'], since: ['string'], until: ['string'], range: ['string'], around: ['string'], window: ['number'],
+  languages: ['string[]'], deduplicate: ['boolean'], dedupe: ['string'], keep: ['string'], dedupeReport: ['boolean', 'string'],
+  graphql: ['boolean'], operations: ['string[]'], uselessHeaders: ['string[]'], headers: ['object'],
+  redact: ['boolean', 'string[]'], redactHeaders: ['string[]'], redactKeys: ['string[]'], redactPatterns: ['string[]'],
+  deterministic: ['boolean'], maxTokens: ['number'], tokenizer: ['string'], bySource: ['boolean'], summary: ['boolean'], verbose: ['boolean']
+};
+
+export class ConfigLoader {
+  static readonly FILES: readonly string[] = CONFIG_FILES;
+
+  /**
+   * Find the nearest config file, walking up from a directory to the filesystem root
+   */
+  static find(cwd: string = process.cwd()): string | undefined {
+    let dir = path.resolve(cwd);
+
+    while (true) {
+      for (const name of CONFIG_FILES) {
+        const file = path.join(dir, name);
+        if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+          return file;
+        }
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Load a JSON or JavaScript config file and check its options
+   */
+  static load(file: string): HarToLlmConfig {
+    const resolved = path.resolve(file);
+    let config: any;
+
+    if (resolved.endsWith('.js') || resolved.endsWith('.cjs')) {
+      const loaded = require(resolved);
+      config = loaded && loaded.default ? loaded.default : loaded;
+    } else {
+      try {
+        config = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+      } catch (error) {
+        throw new Error(`Invalid config file ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw new Error(`Invalid config file ${file}: expected an object`);
+    }
+
+    const { profiles, ...options } = config;
+    this.validate(options, file);
+    for (const [name, profile] of Object.entries(profiles || {})) {
+      this.validate(profile, `${file} (profile ${name})`);
+    }
+
+    // Templates and formatter modules are found relative to the config file
+    const dir = path.dirname(resolved);
+    [config, ...Object.values(config.profiles || {})].forEach((settings: HarToLlmOptions) => {
+      if (settings.template) {
+        settings.template = path.resolve(dir, settings.template);
+      }
+      if (settings.formatters) {
+        settings.formatters = settings.formatters.map(specifier => /^\.{1,2}[\\/]/.test(specifier) ? path.resolve(dir, specifier) : specifier);
+      }
+    });
+
+    return config;
+  }
+
+  /**
+   * Resolve the options of a config, with a named profile's options layered over the top-level ones
+   */
+  static resolve(config: HarToLlmConfig, profile?: string): HarToLlmOptions {
+    const { profiles, ...base } = config;
+    if (!profile) {
+      return base;
+    }
+
+    if (!profiles || !profiles[profile]) {
+      const available = Object.keys(profiles || {});
+      throw new Error(`Unknown profile: ${profile}. ${available.length > 0 ? `Available profiles: ${available.join(', ')}` : 'No profiles are defined'}`);
+    }
+
+    return { ...base, ...profiles[profile] };
+  }
+
+  private static validate(options: any, source: string): void {
+    if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+      throw new Error(`Invalid config file ${source}: expected an object`);
+    }
+
+    for (const [key, value] of Object.entries(options)) {
+      if (!Object.prototype.hasOwnProperty.call(OPTION_TYPES, key)) {
+        throw new Error(`Unknown option in ${source}: ${key}`);
+      }
+      const types = OPTION_TYPES[key as keyof HarToLlmOptions];
+      if (value !== undefined && !types.some(type => this.hasType(value, type))) {
+        throw new Error(`Invalid option in ${source}: ${key} must be ${types.map(type => TYPE_NAMES[type]).join(' or ')}`);
+      }
+    }
+  }
+
+  /**
+   * Check a config value against an option type
+   */
+  private static hasType(value: unknown, type: OptionType): boolean {
+    switch (type) {
+      case 'string[]':
+        return Array.isArray(value) && value.every(item => typeof item === 'string');
+      case 'number[]':
+        return Array.isArray(value) && value.every(item => typeof item === 'number');
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'number':
+        return typeof value === 'number' && !isNaN(value);
+      default:
+        return typeof value === type;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { HARConverter } from './converter';
+import { harEntry } from './test-helpers';
+
+describe('HARConverter.dedupe', () => {
+  const user = (id: number, extra: Record<string, unknown> = {}) =>
+    harEntry({ url: `https://api.example.com/users/${id}`, response: { id, name: `user ${id}`, ...extra } });
+
+  describe('semantic strategy', () => {
+    it('groups entries with the same templated URL and JSON structure', () => {
+      const entries = [user(1), user(2), user(3, { email: 'x@example.com' })];
+      const { entries: kept, groups } = HARConverter.dedupe(entries);
+
+      expect(kept).toEqual([entries[0], entries[2]]);
+      expect(groups).toEqual([
+        { kept: entries[0], absorbed: [entries[1]] },
+        { kept: entries[2], absorbed: [] }
+      ]);
+    });
+
+    it('keeps entries with different statuses, methods or request body shapes apart', () => {
+      const entries = [
+        harEntry({ method: 'POST', url: 'https://api.example.com/users', body: '{"name":"a"}' }),
+        harEntry({ method: 'POST', url: 'https://api.example.com/users', body: '{"name":"b"}' }),
+        harEntry({ method: 'POST', url: 'https://api.example.com/users', body: '{"name":"c","admin":true}' }),
+        harEntry({ method: 'POST', url: 'https://api.example.com/users', body: '{"name":"d"}', status: 400 }),
+        harEntry({ method: 'PUT', url: 'https://api.example.com/users', body: '{"name":"e"}' })
+      ];
+      expect(HARConverter.dedupe(entries).entries).toEqual([entries[0], entries[2], entries[3], entries[4]]);
+    });
+
+    it('treats arrays of any length with the same element shape as similar', () => {
+      const entries = [
+        harEntry({ url: 'https://api.example.com/items', response: [{ id: 1 }, { id: 2 }] }),
+        harEntry({ url: 'https://api.example.com/items', response: [{ id: 3 }] })
+      ];
+      expect(HARConverter.dedupe(entries).entries).toEqual([entries[0]]);
+    });
+
+    it('matches a null field against an object in a kept entry', () => {
+      const entries = [
+        user(1, { address: { city: 'Paris' } }),
+        user(2, { address: null })
+      ];
+      expect(HARConverter.dedupe(entries).entries).toEqual([entries[0]]);
+    });
+
+    it('is order-independent for object keys', () => {
+      const entries = [
+        harEntry({ url: 'https://api.example.com/me', response: { a: 1, b: 2 } }),
+        harEntry({ url: 'https://api.example.com/me', response: { b: 3, a: 4 } })
+      ];
+      expect(HARConverter.dedupe(entries).entries).toHaveLength(1);
+    });
+  });
+
+  describe('strategies', () => {
+    const entries = [
+      harEntry({ url: 'https://api.example.com/users/1?page=1', response: { id: 1 } }),
+      harEntry({ url: 'https://api.example.com/users/1?page=1', response: { id: 1, extra: true } }),
+      harEntry({ url: 'https://api.example.com/users/2?page=2', response: { id: 2 } })
+    ];
+
+    it('exact groups identical requests regardless of the response', () => {
+      expect(HARConverter.dedupe(entries, { strategy: 'exact' }).entries).toEqual([entries[0], entries[2]]);
+    });
+
+    it('endpoint groups by method and templated path', () => {
+      expect(HARConverter.dedupe(entries, { strategy: 'endpoint' }).entries).toEqual([entries[0]]);
+    });
+
+    it('none keeps every entry', () => {
+      const { entries: kept, groups } = HARConverter.dedupe(entries, { strategy: 'none' });
+      expect(kept).toEqual(entries);
+      expect(groups.every(group => group.absorbed.length === 0)).toBe(true);
+    });
+
+    it('rejects unknown strategies', () => {
+      expect(() => HARConverter.dedupe(entries, { strategy: 'fuzzy' as any })).toThrow('Unknown deduplication strategy: fuzzy');
+    });
+
+    it('ignores dynamic headers in exact mode', () => {
+      const withHeaders = [
+        harEntry({ url: 'https://api.example.com/a', headers: [{ name: 'If-None-Match', value: '"v1"' }, { name: 'Accept', value: 'application/json' }] }),
+        harEntry({ url: 'https://api.example.com/a', headers: [{ name: 'If-None-Match', value: '"v2"' }, { name: 'Accept', value: 'application/json' }] })
+      ];
+      expect(HARConverter.dedupe(withHeaders, { strategy: 'exact' }).entries).toHaveLength(1);
+    });
+  });
+
+  describe('keep', () => {
+    const entries = [
+      harEntry({ url: 'https://api.example.com/users/1', time: 50, response: { id: 1, name: 'a' } }),
+      harEntry({ url: 'https://api.example.com/users/2', time: 300, response: { id: 2, name: 'a much longer name' } }),
+      harEntry({ url: 'https://api.example.com/users/3', time: 100, status: 500, response: { id: 3, name: 'b' } }),
+      harEntry({ url: 'https://api.example.com/users/4', time: 80, response: { id: 4, name: 'c' } })
+    ];
+    const keep = (strategy: 'first' | 'last' | 'slowest' | 'largest' | 'error') =>
+      HARConverter.dedupe(entries, { strategy: 'endpoint', keep: strategy });
+
+    it.each([
+      ['first', 0],
+      ['last', 3],
+      ['slowest', 1],
+      ['largest', 1],
+      ['error', 2]
+    ] as const)('keeps the %s entry of a group', (strategy, index) => {
+      const { entries: kept, groups } = keep(strategy);
+      expect(kept).toEqual([entries[index]]);
+      expect(groups[0].absorbed).toEqual(entries.filter((_, i) => i !== index));
+    });
+
+    it('falls back to the first entry when no entry failed', () => {
+      const ok = entries.filter(item => item.response.status < 400);
+      expect(HARConverter.dedupe(ok, { strategy: 'endpoint', keep: 'error' }).entries).toEqual([ok[0]]);
+    });
+
+    it('returns kept entries in their original order', () => {
+      const mixed = [
+        harEntry({ url: 'https://api.example.com/a', time: 10 }),
+        harEntry({ url: 'https://api.example.com/b', time: 10 }),
+        harEntry({ url: 'https://api.example.com/a', time: 90 })
+      ];
+      expect(HARConverter.dedupe(mixed, { strategy: 'endpoint', keep: 'slowest' }).entries).toEqual([mixed[1], mixed[2]]);
+    });
+
+    it('rejects unknown representatives', () => {
+      expect(() => keep('median' as any)).toThrow('Unknown representative: median');
+    });
+  });
+
+  it('agrees with the streaming deduplicator', () => {
+    const entries = [user(1), user(2), user(3, { email: 'x' }), user(4, { email: 'y' })];
+    const isUnique = HARConverter.createDeduplicator('semantic');
+    expect(entries.filter(item => isUnique(item))).toEqual(HARConverter.dedupe(entries).entries);
+  });
+});
@@ -1,18 +1,90 @@
-import { HAREntry, LLMRequest, LLMResponse, LLMConversation, RequestSignature } from './types';
+import { createHash } from 'crypto';
+import {
+  HAREntry,
+  LLMRequest,
+  LLMResponse,
+  LLMConversation,
+  RequestSignature,
+  DedupeStrategy,
+  DedupeKeep,
+  DedupeGroup,
+  HeaderDirection,
+  HeaderPolicyOptions
+} from './types';
+import { BodyDecoder } from './decoder';
+import { PayloadParser } from './payload';
+import { GraphQLCatalog } from './graphql';
+import { HeaderPolicy } from './headers';
+import { EntryQuery } from './query';
+
+const DEDUPE_STRATEGIES: DedupeStrategy[] = ['exact', 'semantic', 'endpoint', 'none'];
+const DEDUPE_KEEP: DedupeKeep[] = ['first', 'last', 'slowest', 'largest', 'error'];
+
+type BodyShape =
+  | { kind: 'none' }
+  | { kind: 'text'; digest: string }
+  | { kind: 'json'; skeleton: any };
+
+interface EntryFingerprint {
+  bucket: string;
+  hash: string;
+  hasNull: boolean;
+  request: BodyShape;
+  response: BodyShape;
+}
 
 export class HARConverter {
+  /**
+   * Names of the available deduplication strategies and representative choices
+   */
+  static readonly DEDUPE_STRATEGIES: readonly DedupeStrategy[] = DEDUPE_STRATEGIES;
+  static readonly DEDUPE_KEEP: readonly DedupeKeep[] = DEDUPE_KEEP;
+
+  private static headerPolicy = new HeaderPolicy();
+
+  /**
+   * Set the policy deciding which headers are kept in converted entries and compared for deduplication
+   */
+  static setHeaderPolicy(policy: HeaderPolicy | HeaderPolicyOptions): void {
+    this.headerPolicy = policy instanceof HeaderPolicy ? policy : new HeaderPolicy(policy);
+  }
+
+  /**
+   * Get the current header policy
+   */
+  static getHeaderPolicy(): HeaderPolicy {
+    return this.headerPolicy;
+  }
+
+  /**
+   * Drop additional headers from converted entries, on top of the current policy
+   */
+  static addUselessHeaders(headers: string[]): void {
+    this.headerPolicy = this.headerPolicy.extend({ deny: headers });
+  }
+
   /**
    * Convert a single HAR entry to LLM conversation format
    */
   static convertEntry(entry: HAREntry): LLMConversation {
     const request = this.convertRequest(entry.request);
     const response = this.convertResponse(entry.response);
+
+    // Parse form, multipart and GraphQL bodies into a readable structure
+    const parsedBody = PayloadParser.parse(entry.request.postData, request.queryParams);
+    if (parsedBody) {
+      request.parsedBody = parsedBody;
+      if (parsedBody.type === 'multipart' && request.body) {
+        request.body = PayloadParser.elideMultipartFiles(request.body, request.contentType || '');
+      }
+    }
     
     return {
       request,
       response,
       timestamp: entry.startedDateTime,
-      duration: entry.time
+      duration: entry.time,
+      ...(entry._source !== undefined && { source: entry._source })
     };
   }
 
@@ -62,7 +134,7 @@ export class HARConverter {
     const headers: Record<string, string> = {};
     harResponse.headers.forEach(header => {
       const key = header.name.toLowerCase();
-      if (!this.isUselessHeader(key)) {
+      if (!this.isUselessHeader(key, 'response')) {
         headers[key] = header.value;
       }
     });
@@ -72,11 +144,13 @@ export class HARConverter {
     let contentType: string | undefined;
 
     if (harResponse.content && harResponse.content.text) {
-      body = harResponse.content.text;
+      // Undo base64 and compression, and summarize binary content
+      const decoded = BodyDecoder.decode(harResponse.content, harResponse.headers)!;
+      body = decoded.text;
       contentType = harResponse.content.mimeType;
       
       // Clean JSON body by removing redundant array elements
-      if (contentType && contentType.includes('json')) {
+      if (!decoded.binary && contentType && contentType.includes('json')) {
         try {
           const jsonBody = JSON.parse(body);
           const cleanedJson = this.normalizeJsonStructure(jsonBody);
@@ -97,136 +171,10 @@ export class HARConverter {
   }
 
   /**
-   * Check if a header is useless for API implementation
+   * Check if a header is useless for API implementation under the current header policy
    */
-  private static isUselessHeader(headerName: string): boolean {
-    const uselessHeaders = [
-      // Browser-specific headers
-      'user-agent',
-      'accept',
-      'accept-language',
-      'accept-encoding',
-      'cache-control',
-      'pragma',
-      'upgrade-insecure-requests',
-      'sec-fetch-dest',
-      'sec-fetch-mode',
-      'sec-fetch-site',
-      'sec-fetch-user',
-      'sec-ch-ua',
-      'sec-ch-ua-mobile',
-      'sec-ch-ua-platform',
-      
-      // Network and timing headers
-      'connection',
-      'keep-alive',
-      'transfer-encoding',
-      'content-encoding',
-      'content-length',
-      'date',
-      'server',
-      'via',
-      'x-powered-by',
-      'x-aspnet-version',
-      'x-aspnetmvc-version',
-      
-      // Caching headers
-      'etag',
-      'last-modified',
-      'if-modified-since',
-      'if-none-match',
-      'if-match',
-      'if-unmodified-since',
-      
-      // Security headers (usually set by server)
-      'x-frame-options',
-      'x-content-type-options',
-      'x-xss-protection',
-      'strict-transport-security',
-      'content-security-policy',
-      'referrer-policy',
-      
-      // Analytics and tracking
-      'x-forwarded-for',
-      'x-real-ip',
-      'x-forwarded-proto',
-      'x-forwarded-host',
-      'x-forwarded-port',
-      'x-requested-with',
-      
-      // CDN and proxy headers
-      'cf-ray',
-      'cf-cache-status',
-      'cf-request-id',
-      'x-cache',
-      'x-cache-hit',
-      'x-amz-cf-id',
-      'x-amz-cf-pop',
-      
-      // Other browser-generated headers
-      'origin',
-      'referer',
-      'dnt',
-      'save-data',
-      'viewport-width',
-      'device-memory',
-      'downlink',
-      'ect',
-      'rtt',
-      'save-data'
-    ];
-
-    return uselessHeaders.includes(headerName);
-  }
-
-  /**
-   * Create a semantic signature for LLM training deduplication
-   */
-  private static createSemanticSignature(entry: HAREntry): RequestSignature {
-    const request = this.convertRequest(entry.request);
-    
-    // Create a semantic signature that focuses on request patterns
-    return {
-      method: request.method,
-      url: request.url,
-      headers: request.headers,
-      queryParams: request.queryParams,
-      body: request.body
-    };
-  }
-
-  /**
-   * Check if two requests are semantically similar for LLM training
-   */
-  private static areRequestsSemanticallySimilar(sig1: RequestSignature, sig2: RequestSignature): boolean {
-    // Different methods are always different patterns
-    if (sig1.method !== sig2.method) {
-      return false;
-    }
-
-    // Different URL patterns are different (but ignore IDs)
-    const url1 = this.normalizeUrl(sig1.url);
-    const url2 = this.normalizeUrl(sig2.url);
-    if (url1 !== url2) {
-      return false;
-    }
-
-    // Different query parameter patterns are different
-    if (!this.areQueryParamsSimilar(sig1.queryParams, sig2.queryParams)) {
-      return false;
-    }
-
-    // Different body structures are different
-    if (!this.areBodiesSimilar(sig1.body, sig2.body)) {
-      return false;
-    }
-
-    // Headers should be similar (same authentication, content-type, etc.)
-    if (!this.areHeadersSimilar(sig1.headers, sig2.headers)) {
-      return false;
-    }
-
-    return true;
+  private static isUselessHeader(headerName: string, direction: HeaderDirection = 'request'): boolean {
+    return !this.headerPolicy.isAllowed(headerName, direction);
   }
 
   /**
@@ -281,52 +229,10 @@ export class HARConverter {
     return typeof obj;
   }
 
-  /**
-   * Check if two responses have semantically similar JSON structures
-   */
-  private static areResponsesSemanticallySimilar(entry1: HAREntry, entry2: HAREntry): boolean {
-    const response1 = entry1.response;
-    const response2 = entry2.response;
-
-    // Different status codes are different patterns
-    if (response1.status !== response2.status) {
-      return false;
-    }
-
-    // Check if both have JSON responses
-    const hasJson1 = response1.content && response1.content.mimeType && response1.content.mimeType.includes('json');
-    const hasJson2 = response2.content && response2.content.mimeType && response2.content.mimeType.includes('json');
-
-    // If one has JSON and other doesn't, they're different
-    if (hasJson1 !== hasJson2) {
-      return false;
-    }
-
-    // If both have JSON, compare normalized structures
-    if (hasJson1 && hasJson2) {
-      try {
-        const json1 = JSON.parse(response1.content.text || '{}');
-        const json2 = JSON.parse(response2.content.text || '{}');
-        
-        // Normalize both JSON structures before comparison
-        const normalized1 = this.normalizeJsonStructure(json1);
-        const normalized2 = this.normalizeJsonStructure(json2);
-        
-        return this.areJsonStructuresSimilar(normalized1, normalized2);
-      } catch {
-        // If parsing fails, compare as strings
-        return response1.content.text === response2.content.text;
-      }
-    }
-
-    // For non-JSON responses, compare as strings
-    return response1.content.text === response2.content.text;
-  }
-
   /**
    * Normalize URL by replacing IDs with placeholders
    */
-  private static normalizeUrl(url: string): string {
+  static normalizeUrl(url: string): string {
     // Replace numeric IDs with {id}
     let normalized = url.replace(/\/\d+(\/|$)/g, '/{id}$1');
     
@@ -340,58 +246,10 @@ export class HARConverter {
     return normalized;
   }
 
-  /**
-   * Check if query parameters are semantically similar
-   */
-  private static areQueryParamsSimilar(params1: Record<string, string>, params2: Record<string, string>): boolean {
-    const keys1 = Object.keys(params1).sort();
-    const keys2 = Object.keys(params2).sort();
-    
-    // Different parameter sets are different patterns
-    if (keys1.length !== keys2.length) {
-      return false;
-    }
-    
-    // Check if parameter names match (values can be different)
-    for (let i = 0; i < keys1.length; i++) {
-      if (keys1[i] !== keys2[i]) {
-        return false;
-      }
-    }
-    
-    return true;
-  }
-
-  /**
-   * Check if request bodies are semantically similar
-   */
-  private static areBodiesSimilar(body1?: string, body2?: string): boolean {
-    // Both null/undefined
-    if (!body1 && !body2) {
-      return true;
-    }
-    
-    // One has body, other doesn't
-    if (!body1 || !body2) {
-      return false;
-    }
-    
-    try {
-      // Try to parse as JSON and compare structure
-      const json1 = JSON.parse(body1);
-      const json2 = JSON.parse(body2);
-      
-      return this.areJsonStructuresSimilar(json1, json2);
-    } catch {
-      // If not JSON, compare as strings
-      return body1 === body2;
-    }
-  }
-
   /**
    * Check if JSON structures are similar (same keys, different values)
    */
-  private static areJsonStructuresSimilar(obj1: any, obj2: any): boolean {
+  static areJsonStructuresSimilar(obj1: any, obj2: any): boolean {
     if (typeof obj1 !== typeof obj2) {
       return false;
     }
@@ -446,28 +304,6 @@ export class HARConverter {
     return true;
   }
 
-  /**
-   * Check if headers are semantically similar
-   */
-  private static areHeadersSimilar(headers1: Record<string, string>, headers2: Record<string, string>): boolean {
-    const keys1 = Object.keys(headers1).sort();
-    const keys2 = Object.keys(headers2).sort();
-    
-    // Different header sets are different patterns
-    if (keys1.length !== keys2.length) {
-      return false;
-    }
-    
-    // Check if header names match (values can be different for most headers)
-    for (let i = 0; i < keys1.length; i++) {
-      if (keys1[i] !== keys2[i]) {
-        return false;
-      }
-    }
-    
-    return true;
-  }
-
   /**
    * Create a signature for exact request deduplication
    */
@@ -485,124 +321,362 @@ export class HARConverter {
   }
 
   /**
-   * Check if two request signatures are exactly equal
+   * Create a hash key that is equal for exactly equal request signatures
    */
-  private static areRequestsEqual(sig1: RequestSignature, sig2: RequestSignature): boolean {
-    // Compare basic properties
-    if (sig1.method !== sig2.method || sig1.url !== sig2.url) {
-      return false;
-    }
+  private static createExactKey(signature: RequestSignature): string {
+    // Compare headers excluding dynamic ones like timestamps and user-agent variations
+    const headers = this.getStaticHeaders(signature.headers);
+
+    return this.hash(JSON.stringify([
+      signature.method,
+      signature.url,
+      Object.keys(signature.queryParams).sort().map(key => [key, signature.queryParams[key]]),
+      Object.keys(headers).sort().map(key => [key, headers[key]]),
+      signature.body === undefined ? null : signature.body
+    ]));
+  }
 
-    // Compare query parameters
-    const queryKeys1 = Object.keys(sig1.queryParams).sort();
-    const queryKeys2 = Object.keys(sig2.queryParams).sort();
-    
-    if (queryKeys1.length !== queryKeys2.length) {
-      return false;
+  /**
+   * Get static headers for comparison (exclude dynamic ones unless the header policy allows them)
+   */
+  private static getStaticHeaders(headers: Record<string, string>): Record<string, string> {
+    const staticHeaders: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(headers)) {
+      if (this.headerPolicy.isStatic(key)) {
+        staticHeaders[key] = value;
+      }
     }
-    
-    for (const key of queryKeys1) {
-      if (sig1.queryParams[key] !== sig2.queryParams[key]) {
+
+    return staticHeaders;
+  }
+
+  /**
+   * Remove semantically similar requests for LLM training (including JSON response deduplication)
+   * Only deduplicate if both request AND response are similar
+   */
+  static deduplicateEntries(entries: HAREntry[]): HAREntry[] {
+    const isUnique = this.createDeduplicator();
+    return entries.filter(entry => isUnique(entry));
+  }
+
+  /**
+   * Create an incremental deduplicator for streamed entries.
+   * Returns true for the first entry of each group and false for later ones.
+   */
+  static createDeduplicator(strategy: DedupeStrategy = 'semantic', options: { graphql?: boolean } = {}): (entry: HAREntry) => boolean {
+    const groupOf = this.createGrouper(strategy, options);
+    const seen = new Set<number>();
+
+    return (entry: HAREntry) => {
+      const group = groupOf(entry);
+      if (seen.has(group)) {
         return false;
       }
-    }
+      seen.add(group);
+      return true;
+    };
+  }
 
-    // Compare headers (excluding dynamic headers like timestamps, user-agent variations)
-    const staticHeaders1 = this.getStaticHeaders(sig1.headers);
-    const staticHeaders2 = this.getStaticHeaders(sig2.headers);
-    
-    const headerKeys1 = Object.keys(staticHeaders1).sort();
-    const headerKeys2 = Object.keys(staticHeaders2).sort();
-    
-    if (headerKeys1.length !== headerKeys2.length) {
-      return false;
+  /**
+   * Deduplicate entries with a strategy, choosing which entry of each group to keep.
+   * Returns the kept entries in their original order and the groups they stand for.
+   */
+  static dedupe(entries: HAREntry[], options: {
+    strategy?: DedupeStrategy;
+    keep?: DedupeKeep;
+    graphql?: boolean;
+  } = {}): { entries: HAREntry[]; groups: DedupeGroup[] } {
+    const groupOf = this.createGrouper(options.strategy || 'semantic', { graphql: options.graphql });
+    const members: number[][] = [];
+
+    entries.forEach((entry, index) => {
+      const group = groupOf(entry);
+      members[group] = members[group] || [];
+      members[group].push(index);
+    });
+
+    const groups = members
+      .map(indices => {
+        const kept = this.pickRepresentative(indices, entries, options.keep || 'first');
+        return {
+          kept: entries[kept],
+          index: kept,
+          absorbed: indices.filter(index => index !== kept).map(index => ({ entry: entries[index], index }))
+        };
+      })
+      .sort((a, b) => a.index - b.index);
+
+    return {
+      entries: groups.map(group => group.kept),
+      groups: groups.map(({ kept, absorbed }) => ({ kept, absorbed: absorbed.map(item => item.entry) }))
+    };
+  }
+
+  /**
+   * Create a function that assigns each entry to a duplicate group.
+   * Group ids are sequential in order of first appearance.
+   * In GraphQL mode each operation counts as its own endpoint.
+   */
+  static createGrouper(strategy: DedupeStrategy, options: { graphql?: boolean } = {}): (entry: HAREntry) => number {
+    let count = 0;
+
+    switch (strategy) {
+      case 'none':
+        return () => count++;
+
+      case 'exact':
+      case 'endpoint': {
+        const groups = new Map<string, number>();
+        return (entry: HAREntry) => {
+          const key = strategy === 'exact'
+            ? this.createExactKey(this.createRequestSignature(entry))
+            : this.createEndpointKey(entry, options.graphql);
+          if (!groups.has(key)) {
+            groups.set(key, count++);
+          }
+          return groups.get(key)!;
+        };
+      }
+
+      case 'semantic': {
+        const buckets = new Map<string, {
+          fingerprints: Map<string, number>;
+          bodies: Array<Pick<EntryFingerprint, 'request' | 'response'> & { group: number }>;
+        }>();
+
+        return (entry: HAREntry) => {
+          const fingerprint = this.createFingerprint(entry, options.graphql);
+          let bucket = buckets.get(fingerprint.bucket);
+
+          if (bucket) {
+            const group = bucket.fingerprints.get(fingerprint.hash);
+            if (group !== undefined) {
+              return group;
+            }
+
+            // A null in the new entry matches an object in a kept one, which hashing cannot express
+            const match = fingerprint.hasNull && bucket.bodies.find(kept =>
+              this.areBodyShapesSimilar(fingerprint.request, kept.request) &&
+              this.areBodyShapesSimilar(fingerprint.response, kept.response)
+            );
+            if (match) {
+              return match.group;
+            }
+          } else {
+            bucket = { fingerprints: new Map(), bodies: [] };
+            buckets.set(fingerprint.bucket, bucket);
+          }
+
+          const group = count++;
+          bucket.fingerprints.set(fingerprint.hash, group);
+          bucket.bodies.push({ request: fingerprint.request, response: fingerprint.response, group });
+          return group;
+        };
+      }
+
+      default:
+        throw new Error(`Unknown deduplication strategy: ${strategy}. Available strategies: ${DEDUPE_STRATEGIES.join(', ')}`);
     }
-    
-    for (const key of headerKeys1) {
-      if (staticHeaders1[key] !== staticHeaders2[key]) {
-        return false;
+  }
+
+  /**
+   * Choose which entry of a duplicate group to keep
+   */
+  private static pickRepresentative(indices: number[], entries: HAREntry[], keep: DedupeKeep): number {
+    const first = indices[0];
+    const maxBy = (score: (entry: HAREntry) => number) => indices.reduce(
+      (best, index) => (score(entries[index]) > score(entries[best]) ? index : best),
+      first
+    );
+
+    switch (keep) {
+      case 'first':
+        return first;
+      case 'last':
+        return indices[indices.length - 1];
+      case 'slowest':
+        return maxBy(entry => entry.time);
+      case 'largest':
+        return maxBy(entry => this.getResponseSize(entry));
+      case 'error': {
+        const error = indices.find(index => entries[index].response.status >= 400 || entries[index].response.status === 0);
+        return error !== undefined ? error : first;
       }
+      default:
+        throw new Error(`Unknown representative: ${keep}. Available choices: ${DEDUPE_KEEP.join(', ')}`);
     }
+  }
 
-    // Compare body
-    if (sig1.body !== sig2.body) {
-      return false;
+  /**
+   * Get the size of a response body in bytes, falling back to the text length
+   */
+  private static getResponseSize(entry: HAREntry): number {
+    const { content, bodySize } = entry.response;
+    if (content.size > 0) {
+      return content.size;
+    }
+    if (content.text) {
+      return content.text.length;
     }
+    return Math.max(bodySize, 0);
+  }
 
-    return true;
+  /**
+   * Create a key identifying an endpoint: method and templated URL without query string,
+   * plus the operation for GraphQL requests in GraphQL mode
+   */
+  static createEndpointKey(entry: HAREntry, graphql?: boolean): string {
+    const url = entry.request.url.split(/[?#]/)[0];
+    const key = `${entry.request.method} ${this.normalizeUrl(url)}`;
+    const operations = graphql ? GraphQLCatalog.getOperations(entry) : undefined;
+    return operations ? `${key} ${GraphQLCatalog.requestKey(operations)}` : key;
   }
 
   /**
-   * Get static headers for comparison (exclude dynamic ones)
+   * Compute the structural fingerprint of an entry for semantic deduplication.
+   *
+   * Entries are similar when their buckets match (method, templated URL, query and
+   * header names, status, JSON-ness) and their request and response bodies have the
+   * same shape. Body shapes are kept as skeletons, which compare under
+   * areJsonStructuresSimilar exactly like the original values.
    */
-  private static getStaticHeaders(headers: Record<string, string>): Record<string, string> {
-    const staticHeaders: Record<string, string> = {};
-    const dynamicHeaders = [
-      'user-agent', 'date', 'if-modified-since', 'if-none-match', 
-      'cache-control', 'pragma', 'expires', 'last-modified', 'etag',
-      'x-requested-with', 'x-forwarded-for', 'x-real-ip'
-    ];
+  private static createFingerprint(entry: HAREntry, graphql?: boolean): EntryFingerprint {
+    const request = this.convertRequest(entry.request);
+    const content = entry.response.content;
+    const hasJson = content && content.mimeType && content.mimeType.includes('json');
+
+    const bucket = this.hash([
+      graphql ? this.createEndpointKey(entry, true) : request.method,
+      this.normalizeUrl(request.url),
+      JSON.stringify(Object.keys(request.queryParams).sort()),
+      JSON.stringify(Object.keys(request.headers).sort()),
+      String(entry.response.status),
+      String(hasJson)
+    ].join('\n'));
+
+    // Request bodies are compared by JSON structure, falling back to exact text
+    let requestShape: BodyShape = { kind: 'none' };
+    if (request.body) {
+      try {
+        requestShape = { kind: 'json', skeleton: this.toSkeleton(JSON.parse(request.body)) };
+      } catch {
+        requestShape = { kind: 'text', digest: this.hash(request.body) };
+      }
+    }
 
-    for (const [key, value] of Object.entries(headers)) {
-      if (!dynamicHeaders.includes(key.toLowerCase())) {
-        staticHeaders[key] = value;
+    // JSON responses are compared by normalized structure, others by exact text
+    const text = BodyDecoder.decode(content, entry.response.headers)?.text;
+    let responseShape: BodyShape = text === undefined ? { kind: 'none' } : { kind: 'text', digest: this.hash(text) };
+    if (hasJson) {
+      try {
+        const json = this.normalizeJsonStructure(JSON.parse(text || '{}'));
+        responseShape = { kind: 'json', skeleton: this.toSkeleton(json) };
+      } catch {
+        // Keep the exact text comparison
       }
     }
 
-    return staticHeaders;
+    return {
+      bucket,
+      hash: this.hash(`${bucket}\n${this.describeBodyShape(requestShape)}\n${this.describeBodyShape(responseShape)}`),
+      hasNull: this.bodyShapeHasNull(requestShape) || this.bodyShapeHasNull(responseShape),
+      request: requestShape,
+      response: responseShape
+    };
   }
 
   /**
-   * Remove semantically similar requests for LLM training (including JSON response deduplication)
-   * Only deduplicate if both request AND response are similar
+   * Reduce a JSON value to its structure: same keys and types, first array element only
    */
-  static deduplicateEntries(entries: HAREntry[]): HAREntry[] {
-    const deduplicated: HAREntry[] = [];
+  private static toSkeleton(value: any): any {
+    if (Array.isArray(value)) {
+      return value.length === 0 ? [] : [this.toSkeleton(value[0])];
+    }
 
-    for (const entry of entries) {
-      let shouldAdd = true;
-      
-      // Check if we already have an entry with similar request AND response structure
-      for (const existingEntry of deduplicated) {
-        const requestsSimilar = this.areRequestsSemanticallySimilar(
-          this.createSemanticSignature(entry), 
-          this.createSemanticSignature(existingEntry)
-        );
-        const responsesSimilar = this.areResponsesSemanticallySimilar(entry, existingEntry);
-        
-        // Only deduplicate if BOTH request AND response are similar
-        if (requestsSimilar && responsesSimilar) {
-          shouldAdd = false;
-          break;
-        }
-      }
-      
-      if (shouldAdd) {
-        deduplicated.push(entry);
+    if (typeof value === 'object' && value !== null) {
+      const skeleton: any = {};
+      for (const [key, child] of Object.entries(value)) {
+        skeleton[key] = this.toSkeleton(child);
       }
+      return skeleton;
     }
 
-    return deduplicated;
+    switch (typeof value) {
+      case 'string':
+        return '';
+      case 'number':
+        return 0;
+      case 'boolean':
+        return false;
+      default:
+        return value;
+    }
   }
 
   /**
-   * Remove exact duplicate requests
+   * Serialize a skeleton with sorted keys so equal structures produce equal strings
    */
-  static removeExactDuplicates(entries: HAREntry[]): HAREntry[] {
-    const seen: RequestSignature[] = [];
-    const deduplicated: HAREntry[] = [];
+  private static describeSkeleton(skeleton: any): string {
+    if (Array.isArray(skeleton)) {
+      return `[${skeleton.map(item => this.describeSkeleton(item)).join(',')}]`;
+    }
 
-    for (const entry of entries) {
-      const signature = this.createRequestSignature(entry);
-      const isDuplicate = seen.some(seenSig => this.areRequestsEqual(signature, seenSig));
+    if (typeof skeleton === 'object' && skeleton !== null) {
+      const keys = Object.keys(skeleton).sort();
+      return `{${keys.map(key => `${JSON.stringify(key)}:${this.describeSkeleton(skeleton[key])}`).join(',')}}`;
+    }
 
-      if (!isDuplicate) {
-        seen.push(signature);
-        deduplicated.push(entry);
+    return skeleton === null ? 'null' : typeof skeleton;
+  }
+
+  private static describeBodyShape(shape: BodyShape): string {
+    switch (shape.kind) {
+      case 'none':
+        return 'none';
+      case 'text':
+        return `text:${shape.digest}`;
+      case 'json':
+        return `json:${this.describeSkeleton(shape.skeleton)}`;
+    }
+  }
+
+  private static bodyShapeHasNull(shape: BodyShape): boolean {
+    const hasNull = (skeleton: any): boolean =>
+      skeleton === null || (typeof skeleton === 'object' && Object.values(skeleton).some(hasNull));
+    return shape.kind === 'json' && hasNull(shape.skeleton);
+  }
+
+  /**
+   * Check if a new body shape matches a kept one, with the same semantics as comparing the bodies
+   */
+  private static areBodyShapesSimilar(shape: BodyShape, kept: BodyShape): boolean {
+    if (shape.kind === 'json' && kept.kind === 'json') {
+      try {
+        return this.areJsonStructuresSimilar(shape.skeleton, kept.skeleton);
+      } catch {
+        // Structures that cannot be compared (e.g. an object against null) are different
+        return false;
       }
     }
 
-    return deduplicated;
+    if (shape.kind === 'text' && kept.kind === 'text') {
+      return shape.digest === kept.digest;
+    }
+
+    return shape.kind === 'none' && kept.kind === 'none';
+  }
+
+  private static hash(value: string): string {
+    return createHash('sha1').update(value).digest('hex');
+  }
+
+  /**
+   * Remove exact duplicate requests
+   */
+  static removeExactDuplicates(entries: HAREntry[]): HAREntry[] {
+    const isUnique = this.createDeduplicator('exact');
+    return entries.filter(entry => isUnique(entry));
   }
 
   /**
@@ -616,12 +690,19 @@ export class HARConverter {
     minDuration?: number;
     maxDuration?: number;
     deduplicate?: boolean;
+    dedupe?: DedupeStrategy;
+    keep?: DedupeKeep;
+    graphql?: boolean;
+    operations?: string[];
+    where?: string;
   } = {}): HAREntry[] {
     let filteredEntries = entries;
+    const query = options.where !== undefined ? EntryQuery.parse(options.where) : undefined;
 
-    // Apply deduplication first if requested
-    if (options.deduplicate !== false) { // Default to true
-      filteredEntries = this.deduplicateEntries(filteredEntries);
+    // Apply deduplication first if requested (default: semantic)
+    const strategy = options.dedupe || (options.deduplicate === false ? 'none' : 'semantic');
+    if (strategy !== 'none') {
+      filteredEntries = this.dedupe(filteredEntries, { strategy, keep: options.keep, graphql: options.graphql }).entries;
     }
 
     return filteredEntries.filter(entry => {
@@ -656,6 +737,19 @@ export class HARConverter {
         return false;
       }
 
+      // Filter by GraphQL operation name or key
+      if (options.operations) {
+        const operations = GraphQLCatalog.getOperations(entry) || [];
+        if (!operations.some(operation => options.operations!.includes(GraphQLCatalog.operationKey(operation)))) {
+          return false;
+        }
+      }
+
+      // Filter by --where expression
+      if (query && !query.test(entry)) {
+        return false;
+      }
+
       return true;
     });
   }
@@ -663,17 +757,21 @@ export class HARConverter {
   /**
    * Generate a summary of the HAR file
    */
-  static generateSummary(entries: HAREntry[]): {
+  static generateSummary(entries: HAREntry[], options: { graphql?: boolean } = {}): {
     totalRequests: number;
     methods: Record<string, number>;
     statusCodes: Record<string, number>;
     domains: Record<string, number>;
+    operations?: Record<string, number>;
+    sources?: Record<string, number>;
     averageDuration: number;
     totalDuration: number;
   } {
     const methods: Record<string, number> = {};
     const statusCodes: Record<string, number> = {};
     const domains: Record<string, number> = {};
+    const operations: Record<string, number> = {};
+    const sources: Record<string, number> = {};
     let totalDuration = 0;
 
     entries.forEach(entry => {
@@ -690,6 +788,19 @@ export class HARConverter {
       const domain = url.hostname;
       domains[domain] = (domains[domain] || 0) + 1;
 
+      // Count GraphQL operations
+      if (options.graphql) {
+        (GraphQLCatalog.getOperations(entry) || []).forEach(operation => {
+          const key = GraphQLCatalog.operationKey(operation);
+          operations[key] = (operations[key] || 0) + 1;
+        });
+      }
+
+      // Count source files, when several files were merged
+      if (entry._source !== undefined) {
+        sources[entry._source] = (sources[entry._source] || 0) + 1;
+      }
+
       // Sum duration
       totalDuration += entry.time;
     });
@@ -699,6 +810,8 @@ export class HARConverter {
       methods,
       statusCodes,
       domains,
+      ...(options.graphql && { operations }),
+      ...(Object.keys(sources).length > 0 && { sources }),
       averageDuration: entries.length > 0 ? totalDuration / entries.length : 0,
       totalDuration
     };
@@ -0,0 +1,87 @@
+import * as zlib from 'zlib';
+import { BodyDecoder } from './decoder';
+
+const JSON_TEXT = '{"message":"héllo","items":[1,2,3]}';
+const encoding = (value: string) => [{ name: 'Content-Encoding', value }];
+
+describe('BodyDecoder', () => {
+  it('returns undefined without a body', () => {
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json' })).toBeUndefined();
+  });
+
+  it('keeps plain text as it is', () => {
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json', text: JSON_TEXT }))
+      .toEqual({ text: JSON_TEXT, binary: false, decodings: [] });
+  });
+
+  it('keeps Latin-1 text that is not valid UTF-8', () => {
+    const text = 'café crème';
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'text/plain', text })).toEqual({ text, binary: false, decodings: [] });
+  });
+
+  it('decodes base64 text', () => {
+    const text = Buffer.from(JSON_TEXT).toString('base64');
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json', text, encoding: 'base64' }))
+      .toEqual({ text: JSON_TEXT, binary: false, decodings: ['base64'] });
+  });
+
+  it.each([
+    ['gzip', zlib.gzipSync],
+    ['deflate', zlib.deflateSync]
+  ] as const)('detects %s by its magic bytes', (name, compress) => {
+    const text = compress(Buffer.from(JSON_TEXT)).toString('base64');
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json', text, encoding: 'base64' }))
+      .toEqual({ text: JSON_TEXT, binary: false, decodings: ['base64', name] });
+  });
+
+  it.each([
+    ['br', zlib.brotliCompressSync],
+    ['deflate', zlib.deflateRawSync]
+  ] as const)('decompresses %s named by Content-Encoding', (name, compress) => {
+    const text = compress(Buffer.from(JSON_TEXT)).toString('base64');
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json', text, encoding: 'base64' }, encoding(name)))
+      .toEqual({ text: JSON_TEXT, binary: false, decodings: ['base64', name] });
+  });
+
+  it.each([
+    ['gzip', zlib.gzipSync],
+    ['br', zlib.brotliCompressSync],
+    ['deflate', zlib.deflateRawSync]
+  ] as const)('decompresses raw %s bytes stored as a binary string', (name, compress) => {
+    const text = compress(Buffer.from(JSON_TEXT)).toString('latin1');
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json', text }, encoding(name)))
+      .toEqual({ text: JSON_TEXT, binary: false, decodings: [name] });
+  });
+
+  it('leaves text alone that only claims to be compressed', () => {
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'application/json', text: JSON_TEXT }, encoding('br')))
+      .toEqual({ text: JSON_TEXT, binary: false, decodings: [] });
+  });
+
+  it('summarizes binary types', () => {
+    const text = Buffer.alloc(2048, 1).toString('base64');
+    expect(BodyDecoder.decode({ size: 0, mimeType: 'image/png', text, encoding: 'base64' }))
+      .toEqual({ text: '[binary image/png, 2.0 KB]', binary: true, decodings: ['base64'] });
+  });
+
+  it('sniffs binary content with an unhelpful mime type', () => {
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02, 0x03]);
+    expect(BodyDecoder.decode({ size: 0, mimeType: '', text: bytes.toString('base64'), encoding: 'base64' }))
+      .toEqual({ text: '[binary content, 8 bytes]', binary: true, decodings: ['base64'] });
+    expect(BodyDecoder.decode({ size: 0, mimeType: '', text: bytes.toString('latin1') }))
+      .toEqual({ text: '[binary content, 8 bytes]', binary: true, decodings: [] });
+  });
+
+  it('returns the decoded bytes for serving', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    expect(BodyDecoder.toBuffer({ size: 0, mimeType: 'image/png', text: png.toString('base64'), encoding: 'base64' })).toEqual(png);
+    expect(BodyDecoder.toBuffer({ size: 0, mimeType: 'image/png', text: png.toString('latin1') })).toEqual(png);
+    expect(BodyDecoder.toBuffer({ size: 0, mimeType: 'application/json', text: JSON_TEXT })).toEqual(Buffer.from(JSON_TEXT));
+  });
+
+  it('formats sizes for humans', () => {
+    expect(BodyDecoder.formatSize(512)).toBe('512 bytes');
+    expect(BodyDecoder.formatSize(1536)).toBe('1.5 KB');
+    expect(BodyDecoder.formatSize(3 * 1024 * 1024)).toBe('3.0 MB');
+  });
+});
@@ -0,0 +1,166 @@
+import * as zlib from 'zlib';
+import { HAREntry } from './types';
+
+export interface DecodedBody {
+  text: string;
+  binary: boolean;
+  decodings: string[];
+}
+
+// Media types that are always text, so their bodies are never sniffed
+const TEXT_TYPES = /^text\/|json|xml|javascript|ecmascript|x-www-form-urlencoded|graphql|csv|yaml|svg/;
+
+// Media types that are always binary
+const BINARY_TYPES = /^(image|audio|video|font)\/|octet-stream|protobuf|grpc|msgpack|pdf|zip|gzip|wasm|x-tar|vnd\.ms-|vnd\.openxmlformats/;
+
+export class BodyDecoder {
+  /**
+   * Decode a HAR response body: undo base64 and gzip/deflate/brotli compression,
+   * and replace binary content with a short placeholder
+   */
+  static decode(content: HAREntry['response']['content'], headers: Array<{ name: string; value: string }> = []): DecodedBody | undefined {
+    if (content.text === undefined) {
+      return undefined;
+    }
+
+    const mimeType = (content.mimeType || '').toLowerCase();
+    const body = this.toBytes(content, headers);
+    if (!body) {
+      return { text: content.text, binary: false, decodings: [] };
+    }
+
+    const { buffer, decodings } = body;
+    if (!TEXT_TYPES.test(mimeType) && (BINARY_TYPES.test(mimeType) || this.looksBinary(buffer))) {
+      return { text: this.describeBinary(mimeType, buffer.length), binary: true, decodings };
+    }
+
+    return { text: buffer.toString('utf8'), binary: false, decodings };
+  }
+
+  /**
+   * Get the bytes of a HAR body with base64 and compression undone, e.g. to serve it again
+   */
+  static toBuffer(content: HAREntry['response']['content'], headers: Array<{ name: string; value: string }> = []): Buffer | undefined {
+    if (content.text === undefined) {
+      return undefined;
+    }
+    return this.toBytes(content, headers)?.buffer || Buffer.from(content.text, 'utf8');
+  }
+
+  /**
+   * Summarize binary content as a placeholder with mime type and size
+   */
+  static describeBinary(mimeType: string, size: number): string {
+    return `[binary ${mimeType || 'content'}, ${this.formatSize(size)}]`;
+  }
+
+  /**
+   * Format a byte count for humans
+   */
+  static formatSize(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} bytes`;
+    }
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  /**
+   * Try to decompress a buffer, detecting gzip and zlib by magic bytes and
+   * brotli (which has none) by the Content-Encoding header
+   */
+  private static decompress(buffer: Buffer, contentEncoding: string): { buffer: Buffer; encoding: string } | undefined {
+    try {
+      if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        return { buffer: zlib.gunzipSync(buffer), encoding: 'gzip' };
+      }
+      if (buffer[0] === 0x78 && [0x01, 0x5e, 0x9c, 0xda].includes(buffer[1])) {
+        return { buffer: zlib.inflateSync(buffer), encoding: 'deflate' };
+      }
+      // Bodies are often stored already decoded despite the header, which fails to decompress;
+      // poorly compressible bodies hardly differ from text, so no sniffing can tell them apart
+      if (contentEncoding.includes('deflate')) {
+        return this.nonEmpty(zlib.inflateRawSync(buffer), 'deflate');
+      }
+      if (contentEncoding.includes('br')) {
+        return this.nonEmpty(zlib.brotliDecompressSync(buffer), 'br');
+      }
+    } catch {
+      // Not actually compressed; keep the bytes as they are
+    }
+    return undefined;
+  }
+
+  /**
+   * Treat decompressing to nothing as not compressed
+   */
+  private static nonEmpty(buffer: Buffer, encoding: string): { buffer: Buffer; encoding: string } | undefined {
+    return buffer.length > 0 ? { buffer, encoding } : undefined;
+  }
+
+  /**
+   * Undo base64 and compression. Text that is not base64 may still hold raw bytes
+   * as a binary string (compressed, or binary content such as images); undefined
+   * means the text is plain text to use as it is.
+   */
+  private static toBytes(content: HAREntry['response']['content'], headers: Array<{ name: string; value: string }>): { buffer: Buffer; decodings: string[] } | undefined {
+    const text = content.text || '';
+    const mimeType = (content.mimeType || '').toLowerCase();
+    const contentEncoding = headers
+      .filter(header => header.name.toLowerCase() === 'content-encoding')
+      .map(header => header.value.toLowerCase())
+      .join(',');
+    const decodings: string[] = [];
+
+    let buffer: Buffer;
+    if (content.encoding === 'base64') {
+      buffer = Buffer.from(text, 'base64');
+      decodings.push('base64');
+    } else if (/^[\x00-\xff]*$/.test(text)) {
+      // A binary string: every character is one byte
+      buffer = Buffer.from(text, 'latin1');
+    } else {
+      // Characters beyond one byte mean real text; binary types were mangled into text
+      return BINARY_TYPES.test(mimeType) && !TEXT_TYPES.test(mimeType)
+        ? { buffer: Buffer.from(text, 'utf8'), decodings }
+        : undefined;
+    }
+
+    const decompressed = this.decompress(buffer, contentEncoding);
+    if (decompressed) {
+      decodings.push(decompressed.encoding);
+      return { buffer: decompressed.buffer, decodings };
+    }
+    if (content.encoding === 'base64') {
+      return { buffer, decodings };
+    }
+
+    // Raw text is kept as text unless it is binary; control characters give binary away,
+    // while single bytes above 0x7f are just as likely Latin-1 text
+    const binary = !TEXT_TYPES.test(mimeType) && (BINARY_TYPES.test(mimeType) || this.looksBinary(Buffer.from(text, 'utf8')));
+    return binary ? { buffer, decodings } : undefined;
+  }
+
+  /**
+   * Sniff the first bytes for NUL bytes, control characters or invalid UTF-8
+   */
+  private static looksBinary(buffer: Buffer): boolean {
+    const sample = buffer.subarray(0, 8192);
+    let suspicious = 0;
+
+    for (const byte of sample) {
+      if (byte === 0) {
+        return true;
+      }
+      if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) {
+        suspicious++;
+      }
+    }
+
+    const text = sample.toString('utf8');
+    const replacements = (text.match(/\uFFFD/g) || []).length;
+    return (suspicious + replacements) / Math.max(sample.length, 1) > 0.1;
+  }
+}
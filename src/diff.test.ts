@@ -0,0 +1,115 @@
+import { HARDiff } from './diff';
+import { harEntry } from './test-helpers';
+
+describe('HARDiff', () => {
+  const base = [
+    harEntry({ url: 'https://api.example.com/users/1', response: { id: 1, name: 'a', email: 'a@example.com' } }),
+    harEntry({ url: 'https://api.example.com/users/2', response: { id: 2, name: 'b', email: 'b@example.com' } }),
+    harEntry({ url: 'https://api.example.com/orders', time: 200, response: [{ id: 1, total: 10 }] }),
+    harEntry({ url: 'https://api.example.com/legacy', status: 200 }),
+    harEntry({ url: 'https://api.example.com/health', headers: { Accept: 'application/json' } })
+  ];
+  const head = [
+    harEntry({ url: 'https://api.example.com/users/3', response: { id: '3', name: 'c', avatar: 'x.png' } }),
+    harEntry({ url: 'https://api.example.com/orders', time: 450, status: 500 }),
+    harEntry({ url: 'https://api.example.com/search', method: 'POST', time: 80 }),
+    harEntry({ url: 'https://api.example.com/health', headers: { Accept: 'application/json' } })
+  ];
+
+  it('matches endpoints by method and templated URL', () => {
+    const report = HARDiff.compare(base, head, { baseLabel: 'good.har', headLabel: 'bad.har' });
+
+    expect(report.base).toBe('good.har');
+    expect(report.head).toBe('bad.har');
+    expect(report.summary).toEqual({ baseEntries: 5, headEntries: 4, added: 1, removed: 1, changed: 2, unchanged: 1 });
+    expect(report.added).toEqual([{ endpoint: 'POST https://api.example.com/search', calls: 1, statusCodes: [200], medianDuration: 80 }]);
+    expect(report.removed).toEqual([{ endpoint: 'GET https://api.example.com/legacy', calls: 1, statusCodes: [200], medianDuration: 100 }]);
+    expect(HARDiff.hasChanges(report)).toBe(true);
+  });
+
+  it('reports response schema changes', () => {
+    const report = HARDiff.compare(base, head);
+    const users = report.changed.find(change => change.endpoint === 'GET https://api.example.com/users/{id}')!;
+
+    expect(users.statusChanged).toBe(false);
+    expect(users.base.calls).toBe(2);
+    expect(users.schemaChanges).toEqual([
+      { path: 'id', change: 'changed', base: 'integer', head: 'string' },
+      { path: 'email', change: 'removed', base: 'string' },
+      { path: 'avatar', change: 'added', head: 'string' }
+    ]);
+  });
+
+  it('reports status changes and latency regressions', () => {
+    const orders = HARDiff.compare(base, head).changed.find(change => change.endpoint === 'GET https://api.example.com/orders')!;
+
+    expect(orders.statusChanged).toBe(true);
+    expect(orders.latencyRegression).toEqual({ base: 200, head: 450, ratio: 2.25 });
+    expect(HARDiff.compare(base, head, { latencyThreshold: 200 }).changed.find(change => change.endpoint.endsWith('/orders'))!.latencyRegression)
+      .toBeUndefined();
+  });
+
+  it('ignores small latency changes whatever their ratio', () => {
+    const report = HARDiff.compare(
+      [harEntry({ url: 'https://api.example.com/ping', time: 10 })],
+      [harEntry({ url: 'https://api.example.com/ping', time: 40 })]
+    );
+    expect(HARDiff.hasChanges(report)).toBe(false);
+  });
+
+  it('reports growth from a zero median as an absolute delta, counting unknown times as zero', () => {
+    const report = HARDiff.compare(
+      [harEntry({ url: 'https://api.example.com/ping', time: 0 }), harEntry({ url: 'https://api.example.com/ping', time: -1 })],
+      [harEntry({ url: 'https://api.example.com/ping', time: 120 })]
+    );
+
+    expect(report.changed[0].base.medianDuration).toBe(0);
+    expect(report.changed[0].latencyRegression).toEqual({ base: 0, head: 120 });
+    expect(JSON.parse(HARDiff.toJSON(report)).changed[0].latencyRegression).toEqual({ base: 0, head: 120 });
+    expect(HARDiff.toMarkdown(report)).toContain('**Latency:** median 0ms → 120ms (+120ms)\n');
+  });
+
+  it('reports header changes, comparing dynamic and credential headers by presence only', () => {
+    const report = HARDiff.compare(
+      [harEntry({
+        url: 'https://api.example.com/me',
+        headers: { Authorization: 'Bearer one', Cookie: 'sid=1', 'X-Forwarded-For': '10.0.0.1', 'X-Api-Key': 'k1', 'X-Version': '1' },
+        responseHeaders: { 'X-RateLimit-Limit': '100' }
+      })],
+      [harEntry({
+        url: 'https://api.example.com/me',
+        headers: { Authorization: 'Bearer two', Cookie: 'sid=2', 'X-Forwarded-For': '10.0.0.2', 'X-Version': '2' },
+        responseHeaders: { 'X-Region': 'eu' }
+      })]
+    );
+
+    expect(report.changed).toHaveLength(1);
+    expect(report.changed[0].headerChanges).toEqual([
+      { direction: 'request', name: 'x-api-key', change: 'removed' },
+      { direction: 'request', name: 'x-version', change: 'changed', base: '1', head: '2' },
+      { direction: 'response', name: 'x-ratelimit-limit', change: 'removed', base: '100' },
+      { direction: 'response', name: 'x-region', change: 'added', head: 'eu' }
+    ]);
+  });
+
+  it('renders markdown', () => {
+    const markdown = HARDiff.toMarkdown(HARDiff.compare(base, head, { baseLabel: 'good.har', headLabel: 'bad.har' }));
+
+    expect(markdown).toContain('# HAR Diff: good.har → bad.har\n\n**Entries:** 5 → 4\n**Endpoints:** 1 added, 1 removed, 2 changed, 1 unchanged\n');
+    expect(markdown).toContain('## Added Endpoints\n\n- `POST https://api.example.com/search` (1 call, status 200, median 80ms)\n');
+    expect(markdown).toContain('## Removed Endpoints\n\n- `GET https://api.example.com/legacy` (1 call, status 200, median 100ms)\n');
+    expect(markdown).toContain('### GET https://api.example.com/orders\n\n**Status:** 200 → 500\n\n**Latency:** median 200ms → 450ms (+125%)\n');
+    expect(markdown).toContain('### GET https://api.example.com/users/{id}\n\n**Response schema:**\n- Changed `id`: integer → string\n- Removed `email` (was string)\n- Added `avatar`: string\n');
+  });
+
+  it('renders identical captures as having no differences', () => {
+    const report = HARDiff.compare(base, base);
+    expect(HARDiff.hasChanges(report)).toBe(false);
+    expect(HARDiff.toMarkdown(report)).toMatch(/4 unchanged\n\nNo differences found\.\n$/);
+  });
+
+  it('renders JSON', () => {
+    const report = HARDiff.compare(base, head);
+    expect(JSON.parse(HARDiff.toJSON(report))).toEqual(report);
+  });
+});
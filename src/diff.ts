@@ -0,0 +1,358 @@
+import {
+  HAREntry,
+  HeaderDirection,
+  JSONSchema,
+  HARDiffReport,
+  DiffEndpointStats,
+  DiffEndpointChange,
+  DiffSchemaChange,
+  DiffHeaderChange
+} from './types';
+import { HARConverter } from './converter';
+import { BodyDecoder } from './decoder';
+import { SchemaInferrer } from './schema';
+import { Redactor } from './redactor';
+
+export interface HARDiffOptions {
+  /** Match GraphQL requests per operation */
+  graphql?: boolean;
+  /** Minimum growth of the median duration reported as a regression, in percent (default 20) */
+  latencyThreshold?: number;
+  /** Labels for the two captures, e.g. their file names */
+  baseLabel?: string;
+  headLabel?: string;
+}
+
+interface EndpointSamples {
+  entries: HAREntry[];
+  stats: DiffEndpointStats;
+}
+
+// Headers that carry session state; their values differ between any two captures
+const COOKIE_HEADERS = ['cookie', 'set-cookie'];
+
+// Latency changes smaller than this are noise, whatever the ratio
+const MIN_LATENCY_DELTA = 50;
+
+/**
+ * Compares two captures endpoint by endpoint, e.g. a "good" and a "bad" HAR
+ * around a release. Entries are matched by the endpoint key used for
+ * deduplication (method and templated URL, plus the operation in GraphQL mode).
+ */
+export class HARDiff {
+  /**
+   * Compare the entries of two captures
+   */
+  static compare(base: HAREntry[], head: HAREntry[], options: HARDiffOptions = {}): HARDiffReport {
+    const threshold = options.latencyThreshold ?? 20;
+    const baseEndpoints = this.groupByEndpoint(base, options.graphql);
+    const headEndpoints = this.groupByEndpoint(head, options.graphql);
+
+    const report: HARDiffReport = {
+      base: options.baseLabel || 'base',
+      head: options.headLabel || 'head',
+      summary: { baseEntries: base.length, headEntries: head.length, added: 0, removed: 0, changed: 0, unchanged: 0 },
+      added: [],
+      removed: [],
+      changed: []
+    };
+
+    for (const [endpoint, samples] of headEndpoints) {
+      if (!baseEndpoints.has(endpoint)) {
+        report.added.push({ endpoint, ...samples.stats });
+      }
+    }
+
+    for (const [endpoint, baseSamples] of baseEndpoints) {
+      const headSamples = headEndpoints.get(endpoint);
+      if (!headSamples) {
+        report.removed.push({ endpoint, ...baseSamples.stats });
+        continue;
+      }
+
+      const change = this.compareEndpoint(endpoint, baseSamples, headSamples, threshold);
+      if (change) {
+        report.changed.push(change);
+      } else {
+        report.summary.unchanged++;
+      }
+    }
+
+    report.summary.added = report.added.length;
+    report.summary.removed = report.removed.length;
+    report.summary.changed = report.changed.length;
+    return report;
+  }
+
+  /**
+   * Check whether a report has any difference
+   */
+  static hasChanges(report: HARDiffReport): boolean {
+    return report.added.length > 0 || report.removed.length > 0 || report.changed.length > 0;
+  }
+
+  /**
+   * Render a report as markdown, for reading or for an LLM
+   */
+  static toMarkdown(report: HARDiffReport): string {
+    const { summary } = report;
+    let output = `# HAR Diff: ${report.base} → ${report.head}\n\n`;
+    output += `**Entries:** ${summary.baseEntries} → ${summary.headEntries}\n`;
+    output += `**Endpoints:** ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed, ${summary.unchanged} unchanged\n\n`;
+
+    if (!this.hasChanges(report)) {
+      return output + 'No differences found.\n';
+    }
+
+    const describe = (stats: DiffEndpointStats) =>
+      `${stats.calls} call${stats.calls === 1 ? '' : 's'}, status ${stats.statusCodes.join(', ')}, median ${stats.medianDuration}ms`;
+
+    if (report.added.length > 0) {
+      output += `## Added Endpoints\n\n`;
+      report.added.forEach(endpoint => {
+        output += `- \`${endpoint.endpoint}\` (${describe(endpoint)})\n`;
+      });
+      output += '\n';
+    }
+
+    if (report.removed.length > 0) {
+      output += `## Removed Endpoints\n\n`;
+      report.removed.forEach(endpoint => {
+        output += `- \`${endpoint.endpoint}\` (${describe(endpoint)})\n`;
+      });
+      output += '\n';
+    }
+
+    if (report.changed.length > 0) {
+      output += `## Changed Endpoints\n\n`;
+      report.changed.forEach(change => {
+        output += `### ${change.endpoint}\n\n`;
+
+        if (change.statusChanged) {
+          output += `**Status:** ${change.base.statusCodes.join(', ')} → ${change.head.statusCodes.join(', ')}\n\n`;
+        }
+
+        if (change.latencyRegression) {
+          const { base, head, ratio } = change.latencyRegression;
+          const growth = ratio !== undefined ? `${Math.round((ratio - 1) * 100)}%` : `${head - base}ms`;
+          output += `**Latency:** median ${base}ms → ${head}ms (+${growth})\n\n`;
+        }
+
+        if (change.schemaChanges.length > 0) {
+          output += `**Response schema:**\n`;
+          change.schemaChanges.forEach(schemaChange => {
+            output += `- ${this.describeChange(schemaChange.change, `\`${schemaChange.path}\``, schemaChange.base, schemaChange.head)}\n`;
+          });
+          output += '\n';
+        }
+
+        if (change.headerChanges.length > 0) {
+          output += `**Headers:**\n`;
+          change.headerChanges.forEach(headerChange => {
+            output += `- ${this.describeChange(headerChange.change, `${headerChange.direction} header \`${headerChange.name}\``, headerChange.base, headerChange.head)}\n`;
+          });
+          output += '\n';
+        }
+      });
+    }
+
+    return output;
+  }
+
+  /**
+   * Render a report as JSON, e.g. for CI checks
+   */
+  static toJSON(report: HARDiffReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  private static describeChange(change: 'added' | 'removed' | 'changed', subject: string, base?: string, head?: string): string {
+    switch (change) {
+      case 'added':
+        return `Added ${subject}${head !== undefined ? `: ${head}` : ''}`;
+      case 'removed':
+        return `Removed ${subject}${base !== undefined ? ` (was ${base})` : ''}`;
+      case 'changed':
+        return `Changed ${subject}: ${base} → ${head}`;
+    }
+  }
+
+  private static groupByEndpoint(entries: HAREntry[], graphql?: boolean): Map<string, EndpointSamples> {
+    const groups = new Map<string, HAREntry[]>();
+    entries.forEach(entry => {
+      const key = HARConverter.createEndpointKey(entry, graphql);
+      const group = groups.get(key) || [];
+      group.push(entry);
+      groups.set(key, group);
+    });
+
+    const endpoints = new Map<string, EndpointSamples>();
+    for (const [key, samples] of groups) {
+      // HAR uses -1 for unknown times
+      const durations = samples.map(entry => Math.max(0, entry.time)).sort((a, b) => a - b);
+      const middle = Math.floor(durations.length / 2);
+      const median = durations.length % 2 === 1 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+
+      endpoints.set(key, {
+        entries: samples,
+        stats: {
+          calls: samples.length,
+          statusCodes: Array.from(new Set(samples.map(entry => entry.response.status))).sort((a, b) => a - b),
+          medianDuration: Math.round(median)
+        }
+      });
+    }
+    return endpoints;
+  }
+
+  private static compareEndpoint(endpoint: string, base: EndpointSamples, head: EndpointSamples, threshold: number): DiffEndpointChange | undefined {
+    const statusChanged = base.stats.statusCodes.join(',') !== head.stats.statusCodes.join(',');
+    const schemaChanges = this.compareSchemas(this.responseSchema(base.entries), this.responseSchema(head.entries));
+    const headerChanges = [
+      ...this.compareHeaders(base.entries, head.entries, 'request'),
+      ...this.compareHeaders(base.entries, head.entries, 'response')
+    ];
+
+    const baseLatency = base.stats.medianDuration;
+    const headLatency = head.stats.medianDuration;
+    // Any growth from a zero median passes the threshold, but has no meaningful ratio
+    const ratio = baseLatency > 0 ? headLatency / baseLatency : undefined;
+    const latencyRegression = headLatency - baseLatency >= MIN_LATENCY_DELTA && (ratio === undefined || ratio >= 1 + threshold / 100)
+      ? { base: baseLatency, head: headLatency, ...(ratio !== undefined && { ratio: Math.round(ratio * 100) / 100 }) }
+      : undefined;
+
+    if (!statusChanged && schemaChanges.length === 0 && headerChanges.length === 0 && !latencyRegression) {
+      return undefined;
+    }
+
+    return {
+      endpoint,
+      base: base.stats,
+      head: head.stats,
+      statusChanged,
+      schemaChanges,
+      headerChanges,
+      ...(latencyRegression && { latencyRegression })
+    };
+  }
+
+  /**
+   * Infer one schema from every JSON response body of an endpoint
+   */
+  private static responseSchema(entries: HAREntry[]): JSONSchema | undefined {
+    const samples: any[] = [];
+    entries.forEach(entry => {
+      const text = BodyDecoder.decode(entry.response.content, entry.response.headers)?.text;
+      if (!text) {
+        return;
+      }
+      try {
+        samples.push(JSON.parse(text));
+      } catch {
+        // Not a JSON body
+      }
+    });
+    return SchemaInferrer.inferFromSamples(samples);
+  }
+
+  private static compareSchemas(base: JSONSchema | undefined, head: JSONSchema | undefined): DiffSchemaChange[] {
+    // Endpoints without JSON bodies on one side have nothing to compare
+    if (!base || !head) {
+      return [];
+    }
+
+    const baseFields = this.flattenSchema(base);
+    const headFields = this.flattenSchema(head);
+    const changes: DiffSchemaChange[] = [];
+
+    for (const [path, type] of baseFields) {
+      const headType = headFields.get(path);
+      if (headType === undefined) {
+        changes.push({ path, change: 'removed', base: type });
+      } else if (headType !== type) {
+        changes.push({ path, change: 'changed', base: type, head: headType });
+      }
+    }
+    for (const [path, type] of headFields) {
+      if (!baseFields.has(path)) {
+        changes.push({ path, change: 'added', head: type });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Map each field path of a schema to a description of its type, e.g. `data.items[].id` → `integer`
+   */
+  private static flattenSchema(schema: JSONSchema, path = '', optional = false, fields = new Map<string, string>()): Map<string, string> {
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : ['unknown'];
+    fields.set(path || '(root)', `${optional ? 'optional ' : ''}${[...types].sort().join(' | ')}`);
+
+    Object.entries(schema.properties || {}).forEach(([key, property]) => {
+      this.flattenSchema(property, path ? `${path}.${key}` : key, !(schema.required || []).includes(key), fields);
+    });
+    if (schema.items) {
+      this.flattenSchema(schema.items, `${path}[]`, false, fields);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Compare header names, and the values of headers that have a single value on both sides.
+   * Credentials, cookies and dynamic headers are compared by presence only, so that
+   * session tokens neither show up as changes nor leak into the report.
+   */
+  private static compareHeaders(base: HAREntry[], head: HAREntry[], direction: HeaderDirection): DiffHeaderChange[] {
+    const baseHeaders = this.collectHeaders(base, direction);
+    const headHeaders = this.collectHeaders(head, direction);
+    const changes: DiffHeaderChange[] = [];
+    const single = (name: string, values: Set<string>) =>
+      (values.size === 1 && this.hasComparableValue(name, direction) ? Array.from(values)[0] : undefined);
+
+    for (const [name, values] of baseHeaders) {
+      const headValues = headHeaders.get(name);
+      if (!headValues) {
+        changes.push({ direction, name, change: 'removed', base: single(name, values) });
+        continue;
+      }
+      const baseValue = single(name, values);
+      const headValue = single(name, headValues);
+      if (baseValue !== undefined && headValue !== undefined && baseValue !== headValue) {
+        changes.push({ direction, name, change: 'changed', base: baseValue, head: headValue });
+      }
+    }
+    for (const [name, values] of headHeaders) {
+      if (!baseHeaders.has(name)) {
+        changes.push({ direction, name, change: 'added', head: single(name, values) });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Check whether a header's value is stable and safe to print
+   */
+  private static hasComparableValue(name: string, direction: HeaderDirection): boolean {
+    return !Redactor.isCredentialHeader(name) &&
+      !COOKIE_HEADERS.includes(name.toLowerCase()) &&
+      HARConverter.getHeaderPolicy().isStatic(name, direction);
+  }
+
+  /**
+   * Collect the values of each header that passes the header policy
+   */
+  private static collectHeaders(entries: HAREntry[], direction: HeaderDirection): Map<string, Set<string>> {
+    const headers = new Map<string, Set<string>>();
+    entries.forEach(entry => {
+      const conversation = HARConverter.convertEntry(entry);
+      const converted = direction === 'request' ? conversation.request.headers : conversation.response.headers;
+      Object.entries(converted).forEach(([name, value]) => {
+        headers.set(name, (headers.get(name) || new Set<string>()).add(value));
+      });
+    });
+    return headers;
+  }
+}
@@ -0,0 +1,203 @@
+import { HAREntry, EndpointSchema, JSONSchema } from './types';
+import { OpenAPIGenerator } from './openapi';
+import { SchemaInferrer } from './schema';
+import { BodyDecoder } from './decoder';
+import { TypeScriptGenerator } from './typescript';
+
+export interface EndpointSchemaOptions {
+  /** Turn repeated low-cardinality strings into enums (default true) */
+  enums?: boolean;
+  /** Most distinct values for an enum (default 10) */
+  enumLimit?: number;
+}
+
+export interface EndpointSamples {
+  method: string;
+  path: string;
+  entries: HAREntry[];
+}
+
+/**
+ * Infers one schema per endpoint (method and templated path, as in the OpenAPI
+ * output) for the query string, the JSON request body and the JSON response
+ * body of each status code, merging every sample of the endpoint.
+ */
+export class EndpointSchemas {
+  /**
+   * Infer the schemas of every endpoint in a list of entries
+   */
+  static build(entries: HAREntry[], options: EndpointSchemaOptions = {}): EndpointSchema[] {
+    const inference = { enums: options.enums !== false, enumLimit: options.enumLimit };
+    const groups = this.group(entries);
+
+    const operationIds = new Set<string>();
+    return Array.from(groups.values()).map(({ method, path, entries: samples }) => {
+      const endpoint: EndpointSchema = {
+        method,
+        path,
+        name: TypeScriptGenerator.pascalCase(OpenAPIGenerator.createOperationId(method.toLowerCase(), path, operationIds)),
+        calls: samples.length,
+        responses: {}
+      };
+
+      const query = this.querySchema(samples);
+      if (query) {
+        endpoint.query = query;
+      }
+
+      const request = SchemaInferrer.inferFromSamples(
+        samples.map(entry => this.parseJson(entry.request.postData?.text)).filter(body => body !== undefined),
+        inference
+      );
+      if (request) {
+        endpoint.request = request;
+      }
+
+      const byStatus = new Map<number, any[]>();
+      for (const entry of samples) {
+        const body = this.parseJson(BodyDecoder.decode(entry.response.content, entry.response.headers)?.text);
+        if (body !== undefined) {
+          const bodies = byStatus.get(entry.response.status) || [];
+          bodies.push(body);
+          byStatus.set(entry.response.status, bodies);
+        }
+      }
+      for (const [status, bodies] of Array.from(byStatus.entries()).sort(([a], [b]) => a - b)) {
+        endpoint.responses[String(status)] = SchemaInferrer.inferFromSamples(bodies, inference)!;
+      }
+
+      return endpoint;
+    });
+  }
+
+  /**
+   * Group entries by method and templated path, in order of first appearance
+   */
+  static group(entries: HAREntry[]): Map<string, EndpointSamples> {
+    const groups = new Map<string, EndpointSamples>();
+
+    for (const entry of entries) {
+      let pathname: string;
+      try {
+        pathname = new URL(entry.request.url).pathname;
+      } catch {
+        continue;
+      }
+      const method = entry.request.method.toUpperCase();
+      const path = OpenAPIGenerator.templatePath(pathname);
+      const key = `${method} ${path}`;
+      const group = groups.get(key) || { method, path, entries: [] };
+      group.entries.push(entry);
+      groups.set(key, group);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Name of the type generated for a response: the first successful status gets
+   * `<Name>Response`, other statuses `<Name>Response<status>`
+   */
+  static responseName(endpoint: EndpointSchema, status: string): string {
+    return status === this.primaryStatus(endpoint) ? `${endpoint.name}Response` : `${endpoint.name}Response${status}`;
+  }
+
+  /**
+   * The status code whose body is the endpoint's main response: the first 2xx, or the first status seen
+   */
+  static primaryStatus(endpoint: EndpointSchema): string | undefined {
+    const statuses = Object.keys(endpoint.responses);
+    return statuses.find(status => /^2\d\d$/.test(status)) || statuses[0];
+  }
+
+  /**
+   * Render the schemas as one JSON Schema document with a definition per payload
+   */
+  static toJSONSchema(endpoints: EndpointSchema[]): string {
+    const defs: Record<string, JSONSchema> = {};
+
+    for (const endpoint of endpoints) {
+      const label = `${endpoint.method} ${endpoint.path}`;
+      if (endpoint.query) {
+        defs[`${endpoint.name}Query`] = { description: `Query parameters of ${label}`, ...endpoint.query };
+      }
+      if (endpoint.request) {
+        defs[`${endpoint.name}Request`] = { description: `Request body of ${label}`, ...endpoint.request };
+      }
+      for (const [status, schema] of Object.entries(endpoint.responses)) {
+        defs[this.responseName(endpoint, status)] = { description: `${status} response body of ${label}`, ...schema };
+      }
+    }
+
+    return JSON.stringify({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'Payloads inferred from HAR',
+      $defs: defs
+    }, null, 2);
+  }
+
+  /**
+   * Render the schemas as TypeScript interfaces, headed by where the traffic came from
+   */
+  static toTypeScript(endpoints: EndpointSchema[], origin = 'HAR traffic'): string {
+    let output = `// Types inferred from ${origin}\n`;
+
+    for (const endpoint of endpoints) {
+      // Endpoints without query parameters or JSON bodies have nothing to declare
+      if (!endpoint.query && !endpoint.request && Object.keys(endpoint.responses).length === 0) {
+        continue;
+      }
+      const label = `${endpoint.method} ${endpoint.path}`;
+      output += `\n// ${label} (${endpoint.calls} call${endpoint.calls === 1 ? '' : 's'})\n\n`;
+
+      if (endpoint.query) {
+        output += `${TypeScriptGenerator.declaration(`${endpoint.name}Query`, endpoint.query, `Query parameters of ${label}`)}\n`;
+      }
+      if (endpoint.request) {
+        output += `${TypeScriptGenerator.declaration(`${endpoint.name}Request`, endpoint.request, `Request body of ${label}`)}\n`;
+      }
+      for (const [status, schema] of Object.entries(endpoint.responses)) {
+        output += `${TypeScriptGenerator.declaration(this.responseName(endpoint, status), schema, `${status} response body of ${label}`)}\n`;
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Schema of the query parameters; a parameter is required only if every sample sends it
+   */
+  private static querySchema(entries: HAREntry[]): JSONSchema | undefined {
+    const properties: Record<string, JSONSchema> = {};
+    const counts: Record<string, number> = {};
+
+    for (const entry of entries) {
+      const seen = new Set<string>();
+      for (const { name, value } of entry.request.queryString) {
+        const schema = SchemaInferrer.inferFromString(value);
+        properties[name] = properties[name] ? SchemaInferrer.merge(properties[name], schema) : schema;
+        if (!seen.has(name)) {
+          counts[name] = (counts[name] || 0) + 1;
+          seen.add(name);
+        }
+      }
+    }
+
+    const names = Object.keys(properties);
+    if (names.length === 0) {
+      return undefined;
+    }
+    return { type: 'object', properties, required: names.filter(name => counts[name] === entries.length) };
+  }
+
+  private static parseJson(text: string | undefined): any {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -1,17 +1,178 @@
-import { LLMConversation, HAREntry } from './types';
+import * as path from 'path';
+import { LLMConversation, HAREntry, ParsedBody, HarToLlmOptions } from './types';
 import { HARConverter } from './converter';
+import { OpenAPIGenerator } from './openapi';
+import { PayloadParser } from './payload';
+import { GraphQLCatalog } from './graphql';
+import { EndpointSchemas } from './endpoints';
+import { SDKGenerator } from './sdk';
+import { TypeScriptGenerator } from './typescript';
+import { CollectionExporter } from './collections';
+import { SnippetGenerator } from './snippets';
+
+export interface StreamingFormatter {
+  begin(): string;
+  entry(conversation: LLMConversation, index: number): string;
+  end(count: number): string;
+}
+
+export interface FormatContext {
+  /** HAR entries behind the conversations, in the same order */
+  entries: HAREntry[];
+  options: HarToLlmOptions;
+}
+
+export interface SourceSection {
+  /** File the conversations were read from */
+  source: string;
+  conversations: LLMConversation[];
+  entries: HAREntry[];
+}
+
+export interface OutputFormatter {
+  name: string;
+  description?: string;
+  format(conversations: LLMConversation[], context: FormatContext): string;
+  /** Incremental renderer, for formats that can be written while entries are read */
+  streaming?: StreamingFormatter;
+  /** Renders one section per source file; without it, each section is formatted under a heading */
+  formatSections?(sections: SourceSection[], context: FormatContext): string;
+}
 
 export class Formatters {
   /**
-   * Format as markdown for easy reading
+   * Register an output format, replacing any format with the same name
    */
-  static toMarkdown(conversations: LLMConversation[]): string {
-    let output = '# HTTP Conversations\n\n';
-    
+  static register(formatter: OutputFormatter): void {
+    this.registry.set(formatter.name.toLowerCase(), formatter);
+  }
+
+  /**
+   * Get a registered output format by name
+   */
+  static get(name: string): OutputFormatter {
+    const formatter = this.registry.get(name.toLowerCase());
+    if (!formatter) {
+      throw new Error(`Unknown format: ${name}. Available formats: ${this.names().join(', ')}`);
+    }
+    return formatter;
+  }
+
+  /**
+   * Load and register the formatters exported by a module, given by path or package name.
+   * Package names are tried with the `har-to-llm-formatter-` prefix first. A module may export
+   * a formatter, an array of formatters, or `{ formatters: [...] }`, directly or as `default`.
+   */
+  static load(specifier: string, cwd: string = process.cwd()): OutputFormatter[] {
+    const isPath = /^\.{0,2}[\\/]|^[A-Za-z]:[\\/]/.test(specifier);
+    const candidates = isPath
+      ? [path.resolve(cwd, specifier)]
+      : [`har-to-llm-formatter-${specifier}`, specifier];
+
+    let resolved: string | undefined;
+    for (const candidate of candidates) {
+      try {
+        resolved = require.resolve(candidate, { paths: [cwd] });
+        break;
+      } catch {
+        // Try the next candidate
+      }
+    }
+    if (!resolved) {
+      throw new Error(`Cannot find formatter module '${specifier}'`);
+    }
+
+    const loaded = require(resolved);
+    const exported = loaded && loaded.default ? loaded.default : loaded;
+    const formatters: unknown[] = Array.isArray(exported)
+      ? exported
+      : exported && Array.isArray(exported.formatters) ? exported.formatters : [exported];
+
+    return formatters.map(formatter => {
+      if (!formatter || typeof (formatter as OutputFormatter).name !== 'string' || typeof (formatter as OutputFormatter).format !== 'function') {
+        throw new Error(`Invalid formatter module '${specifier}': expected formatters with a name and a format function`);
+      }
+      this.register(formatter as OutputFormatter);
+      return formatter as OutputFormatter;
+    });
+  }
+
+  /**
+   * Names of all registered output formats
+   */
+  static names(): string[] {
+    return Array.from(this.registry.keys());
+  }
+
+  /**
+   * Get a formatter that renders one conversation at a time, for formats that support it
+   */
+  static streaming(format: string): StreamingFormatter | undefined {
+    return this.registry.get(format.toLowerCase())?.streaming;
+  }
+
+  /**
+   * Format conversations with a section per source file, for input merged from several files
+   */
+  static formatBySource(formatter: OutputFormatter, conversations: LLMConversation[], context: FormatContext): string {
+    if (!conversations.some(conv => conv.source !== undefined)) {
+      return formatter.format(conversations, context);
+    }
+
+    const sections = new Map<string, SourceSection>();
+    conversations.forEach((conv, index) => {
+      const source = conv.source ?? 'unknown';
+      const section = sections.get(source) || { source, conversations: [], entries: [] };
+      section.conversations.push(conv);
+      section.entries.push(context.entries[index]);
+      sections.set(source, section);
+    });
+
+    if (formatter.formatSections) {
+      return formatter.formatSections(Array.from(sections.values()), context);
+    }
+    return Array.from(sections.values())
+      .map(section => `# Source: ${section.source}\n\n${formatter.format(section.conversations, { ...context, entries: section.entries })}`)
+      .join('\n');
+  }
+
+  /**
+   * Give a JSON format sections that stay valid JSON: one document keyed by source file
+   */
+  private static keyedBySource(formatter: OutputFormatter): OutputFormatter {
+    return {
+      ...formatter,
+      formatSections: (sections, context) => {
+        const keyed: Record<string, unknown> = {};
+        sections.forEach(section => {
+          keyed[section.source] = JSON.parse(formatter.format(section.conversations, { ...context, entries: section.entries }));
+        });
+        return JSON.stringify(keyed, null, 2);
+      }
+    };
+  }
+
+  /**
+   * Render a list of conversations with a streaming formatter
+   */
+  private static render(formatter: StreamingFormatter, conversations: LLMConversation[]): string {
+    let output = formatter.begin();
     conversations.forEach((conv, index) => {
-      output += `## Request ${index + 1}\n\n`;
+      output += formatter.entry(conv, index);
+    });
+    return output + formatter.end(conversations.length);
+  }
+
+  private static markdownFormatter: StreamingFormatter = {
+    begin: () => '# HTTP Conversations\n\n',
+    entry: (conv, index) => {
+      let output = `## Request ${index + 1}\n\n`;
       output += `**Timestamp:** ${conv.timestamp}\n`;
-      output += `**Duration:** ${conv.duration}ms\n\n`;
+      output += `**Duration:** ${conv.duration}ms\n`;
+      if (conv.source !== undefined) {
+        output += `**Source:** ${conv.source}\n`;
+      }
+      output += '\n';
       
       // Request details
       output += `### Request\n`;
@@ -34,7 +195,9 @@ export class Formatters {
         output += '\n';
       }
       
-      if (conv.request.body) {
+      if (conv.request.parsedBody) {
+        output += Formatters.parsedBodyToMarkdown(conv.request.parsedBody);
+      } else if (conv.request.body) {
         output += `**Body:**\n\`\`\`\n${conv.request.body}\n\`\`\`\n\n`;
       }
       
@@ -54,10 +217,98 @@ export class Formatters {
         output += `**Body:**\n\`\`\`\n${conv.response.body}\n\`\`\`\n\n`;
       }
       
-      output += '---\n\n';
-    });
-    
-    return output;
+      return output + '---\n\n';
+    },
+    end: () => ''
+  };
+
+  private static jsonFormatter: StreamingFormatter = {
+    begin: () => '',
+    // Matches JSON.stringify(conversations, null, 2) for the whole array
+    entry: (conv, index) => `${index === 0 ? '[\n' : ',\n'}  ${JSON.stringify(conv, null, 2).split('\n').join('\n  ')}`,
+    end: count => (count === 0 ? '[]' : '\n]')
+  };
+
+  private static curlFormatter: StreamingFormatter = {
+    begin: () => '# cURL Commands\n\n',
+    entry: (conv, index) => {
+      let output = `## Request ${index + 1}\n`;
+      output += `# ${conv.request.method} ${conv.request.url}\n`;
+      
+      return output + `${SnippetGenerator.generate(conv, 'curl')}\n\n`;
+    },
+    end: () => ''
+  };
+
+  private static conversationFormatter: StreamingFormatter = {
+    begin: () => '# API Conversation Log\n\n',
+    entry: (conv, index) => {
+      let output = `## Exchange ${index + 1}\n\n`;
+      
+      // Human (request)
+      output += `**Human:** I need to make a ${conv.request.method} request to ${conv.request.url}`;
+      if (conv.request.parsedBody) {
+        output += ` with ${PayloadParser.describe(conv.request.parsedBody)}`;
+      } else if (conv.request.body) {
+        output += ` with the following data: ${conv.request.body}`;
+      }
+      output += '\n\n';
+      
+      // Assistant (response)
+      output += `**Assistant:** The server responded with status ${conv.response.status} (${conv.response.statusText})`;
+      if (conv.response.body) {
+        output += ` and returned: ${conv.response.body}`;
+      }
+      return output + '\n\n';
+    },
+    end: () => ''
+  };
+
+  /**
+   * Render a parsed request body (form, multipart or GraphQL) as markdown
+   */
+  private static parsedBodyToMarkdown(parsed: ParsedBody): string {
+    let output = '';
+
+    switch (parsed.type) {
+      case 'form':
+        output += `**Form Fields:**\n`;
+        parsed.fields.forEach(field => {
+          output += `- ${field.name}: ${field.value}\n`;
+        });
+        break;
+      case 'multipart':
+        output += `**Multipart Parts:**\n`;
+        parsed.parts.forEach(part => {
+          output += part.filename !== undefined
+            ? `- ${part.name}: ${part.filename} (${part.contentType || 'application/octet-stream'}, ${part.size} bytes, contents elided)\n`
+            : `- ${part.name}: ${part.value}\n`;
+        });
+        break;
+      case 'graphql':
+        parsed.operations.forEach(operation => {
+          output += `**GraphQL ${operation.operationType || 'operation'}:** ${operation.operationName || '(anonymous)'}\n`;
+          if (operation.query) {
+            output += `\`\`\`graphql\n${operation.query}\n\`\`\`\n`;
+          }
+          if (operation.variables && Object.keys(operation.variables).length > 0) {
+            output += `**Variables:**\n\`\`\`json\n${JSON.stringify(operation.variables, null, 2)}\n\`\`\`\n`;
+          }
+          if (operation.extensions) {
+            output += `**Extensions:**\n\`\`\`json\n${JSON.stringify(operation.extensions, null, 2)}\n\`\`\`\n`;
+          }
+        });
+        break;
+    }
+
+    return output + '\n';
+  }
+
+  /**
+   * Format as markdown for easy reading
+   */
+  static toMarkdown(conversations: LLMConversation[]): string {
+    return this.render(this.markdownFormatter, conversations);
   }
 
   /**
@@ -75,7 +326,12 @@ export class Formatters {
     output += `Total requests: ${conversations.length}\n\n`;
     
     conversations.forEach((conv, index) => {
-      output += `${index + 1}. ${conv.request.method} ${conv.request.url} - ${conv.response.status} (${conv.duration}ms)\n`;
+      const parsed = conv.request.parsedBody;
+      const operations = parsed?.type === 'graphql'
+        ? ` [${parsed.operations.map(operation => operation.operationName || 'anonymous').join(', ')}]`
+        : '';
+      const source = conv.source !== undefined ? `, ${conv.source}` : '';
+      output += `${index + 1}. ${conv.request.method} ${conv.request.url}${operations} - ${conv.response.status} (${conv.duration}ms${source})\n`;
     });
     
     return output;
@@ -85,59 +341,21 @@ export class Formatters {
    * Format as curl commands
    */
   static toCurlCommands(conversations: LLMConversation[]): string {
-    let output = '# cURL Commands\n\n';
-    
-    conversations.forEach((conv, index) => {
-      output += `## Request ${index + 1}\n`;
-      output += `# ${conv.request.method} ${conv.request.url}\n`;
-      
-      let curl = `curl -X ${conv.request.method}`;
-      
-      // Add headers
-      Object.entries(conv.request.headers).forEach(([key, value]) => {
-        if (key !== 'host' && key !== 'content-length') { // Skip some headers
-          curl += ` -H "${key}: ${value}"`;
-        }
-      });
-      
-      // Add body if present
-      if (conv.request.body) {
-        curl += ` -d '${conv.request.body.replace(/'/g, "\\'")}'`;
-      }
-      
-      curl += ` "${conv.request.url}"`;
-      
-      output += `${curl}\n\n`;
-    });
-    
-    return output;
+    return this.render(this.curlFormatter, conversations);
+  }
+
+  /**
+   * Format as code snippets that send each request, in the given languages (default: all)
+   */
+  static toSnippets(conversations: LLMConversation[], languages?: string[]): string {
+    return SnippetGenerator.toMarkdown(conversations, languages);
   }
 
   /**
    * Format as a conversation log for LLM training
    */
   static toConversationLog(conversations: LLMConversation[]): string {
-    let output = '# API Conversation Log\n\n';
-    
-    conversations.forEach((conv, index) => {
-      output += `## Exchange ${index + 1}\n\n`;
-      
-      // Human (request)
-      output += `**Human:** I need to make a ${conv.request.method} request to ${conv.request.url}`;
-      if (conv.request.body) {
-        output += ` with the following data: ${conv.request.body}`;
-      }
-      output += '\n\n';
-      
-      // Assistant (response)
-      output += `**Assistant:** The server responded with status ${conv.response.status} (${conv.response.statusText})`;
-      if (conv.response.body) {
-        output += ` and returned: ${conv.response.body}`;
-      }
-      output += '\n\n';
-    });
-    
-    return output;
+    return this.render(this.conversationFormatter, conversations);
   }
 
   /**
@@ -156,12 +374,149 @@ export class Formatters {
         status: conv.response.status,
         duration: conv.duration,
         hasBody: !!conv.request.body,
+        bodyType: conv.request.parsedBody?.type,
         hasResponseBody: !!conv.response.body,
         contentType: conv.request.contentType,
-        responseContentType: conv.response.contentType
+        responseContentType: conv.response.contentType,
+        source: conv.source
       }))
     };
     
     return JSON.stringify(structuredData, null, 2);
   }
+
+  /**
+   * Format as an OpenAPI 3.1 specification inferred from the traffic
+   */
+  static toOpenAPI(conversations: LLMConversation[]): string {
+    return JSON.stringify(OpenAPIGenerator.generate(conversations), null, 2);
+  }
+
+  /**
+   * Format as a Postman Collection v2.1
+   */
+  static toPostman(conversations: LLMConversation[]): string {
+    return JSON.stringify(CollectionExporter.toPostman(conversations), null, 2);
+  }
+
+  /**
+   * Format as an Insomnia export
+   */
+  static toInsomnia(conversations: LLMConversation[]): string {
+    return JSON.stringify(CollectionExporter.toInsomnia(conversations), null, 2);
+  }
+
+  /**
+   * Format as a Bruno collection export
+   */
+  static toBruno(conversations: LLMConversation[]): string {
+    return JSON.stringify(CollectionExporter.toBruno(conversations), null, 2);
+  }
+
+  /**
+   * Format the inferred payload schemas of each endpoint as a JSON Schema document
+   */
+  static toJSONSchema(entries: HAREntry[]): string {
+    return EndpointSchemas.toJSONSchema(EndpointSchemas.build(entries));
+  }
+
+  /**
+   * Format the inferred payload schemas of each endpoint as TypeScript interfaces
+   */
+  static toTypeScript(entries: HAREntry[]): string {
+    return EndpointSchemas.toTypeScript(EndpointSchemas.build(entries));
+  }
+
+  /**
+   * Format TypeScript interfaces with a `//` section per source file, prefixing
+   * each file's type names so the declarations stay unique
+   */
+  static toTypeScriptBySource(sections: SourceSection[]): string {
+    const prefixes = new Set<string>();
+    return sections.map(section => {
+      const base = TypeScriptGenerator.pascalCase(path.basename(section.source, path.extname(section.source)));
+      let prefix = base;
+      for (let index = 2; prefixes.has(prefix); index++) {
+        prefix = `${base}${index}`;
+      }
+      prefixes.add(prefix);
+
+      const endpoints = EndpointSchemas.build(section.entries).map(endpoint => ({ ...endpoint, name: `${prefix}${endpoint.name}` }));
+      return EndpointSchemas.toTypeScript(endpoints, section.source);
+    }).join('\n');
+  }
+
+  /**
+   * Format a typed TypeScript API client with one function per endpoint
+   */
+  static toSDK(entries: HAREntry[]): string {
+    return SDKGenerator.generate(entries);
+  }
+
+  /**
+   * Format a catalog of GraphQL operations with their variables and response shapes
+   */
+  static toGraphQLCatalog(conversations: LLMConversation[]): string {
+    const catalog = GraphQLCatalog.build(conversations);
+    let output = `# GraphQL Operation Catalog\n\n`;
+    output += `Total operations: ${catalog.length}\n\n`;
+
+    catalog.forEach(operation => {
+      output += `## ${operation.operationType || 'operation'} ${operation.operationName || operation.key}\n\n`;
+      output += `**Endpoint:** ${operation.endpoints.join(', ')}\n`;
+      output += `**Calls:** ${operation.calls}\n`;
+      output += `**Status Codes:** ${operation.statusCodes.join(', ')}\n\n`;
+
+      if (operation.query) {
+        output += `\`\`\`graphql\n${operation.query}\n\`\`\`\n\n`;
+      }
+      if (operation.variables) {
+        output += `**Variables:**\n\`\`\`json\n${JSON.stringify(GraphQLCatalog.toShape(operation.variables), null, 2)}\n\`\`\`\n\n`;
+      }
+      if (operation.response) {
+        output += `**Response:**\n\`\`\`json\n${JSON.stringify(GraphQLCatalog.toShape(operation.response), null, 2)}\n\`\`\`\n\n`;
+      }
+      output += `---\n\n`;
+    });
+
+    return output;
+  }
+
+  private static builtIns: OutputFormatter[] = [
+    { name: 'markdown', description: 'Human-readable markdown format', format: convs => Formatters.toMarkdown(convs), streaming: Formatters.markdownFormatter },
+    Formatters.keyedBySource({ name: 'json', description: 'Structured JSON data', format: convs => Formatters.toJSON(convs), streaming: Formatters.jsonFormatter }),
+    { name: 'text', description: 'Simple text summary', format: convs => Formatters.toTextSummary(convs) },
+    { name: 'curl', description: 'cURL commands for replaying requests', format: convs => Formatters.toCurlCommands(convs), streaming: Formatters.curlFormatter },
+    { name: 'snippets', description: 'Code that sends each request, in the languages given by --lang', format: (convs, { options }) => Formatters.toSnippets(convs, options.languages) },
+    { name: 'conversation', description: 'Conversation format for LLM training', format: convs => Formatters.toConversationLog(convs), streaming: Formatters.conversationFormatter },
+    Formatters.keyedBySource({ name: 'structured', description: 'Detailed structured data with summary', format: (_, { entries }) => Formatters.toStructuredData(entries) }),
+    Formatters.keyedBySource({ name: 'openapi', description: 'OpenAPI 3.1 specification inferred from the traffic', format: convs => Formatters.toOpenAPI(convs) }),
+    Formatters.keyedBySource({ name: 'postman', description: 'Postman Collection v2.1 with folders, variables and example responses', format: convs => Formatters.toPostman(convs) }),
+    Formatters.keyedBySource({ name: 'insomnia', description: 'Insomnia export with folders and an environment of variables', format: convs => Formatters.toInsomnia(convs) }),
+    Formatters.keyedBySource({ name: 'bruno', description: 'Bruno collection with folders and an environment of variables', format: convs => Formatters.toBruno(convs) }),
+    Formatters.keyedBySource({ name: 'jsonschema', description: 'JSON Schema of each endpoint\'s query, request and response payloads', format: (_, { entries }) => Formatters.toJSONSchema(entries) }),
+    {
+      name: 'typescript',
+      description: 'TypeScript interfaces for each endpoint\'s payloads',
+      format: (_, { entries }) => Formatters.toTypeScript(entries),
+      formatSections: sections => Formatters.toTypeScriptBySource(sections)
+    },
+    {
+      name: 'sdk',
+      description: 'TypeScript API client with a typed function per endpoint',
+      format: (_, { entries }) => Formatters.toSDK(entries),
+      // One client covers every source file, with a base URL per host
+      formatSections: (_, { entries }) => Formatters.toSDK(entries)
+    },
+    { name: 'graphql', description: 'Catalog of GraphQL operations with variables and response shapes', format: convs => Formatters.toGraphQLCatalog(convs) },
+    Formatters.keyedBySource({
+      name: 'summary',
+      description: 'Request counts by method, status code and domain',
+      format: (_, { entries, options }) => JSON.stringify(HARConverter.generateSummary(entries, { graphql: options.graphql }), null, 2)
+    })
+  ];
+
+  private static registry = new Map<string, OutputFormatter>(
+    Formatters.builtIns.map(formatter => [formatter.name, formatter] as [string, OutputFormatter])
+  );
 }
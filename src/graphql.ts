@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import { HAREntry, LLMConversation, GraphQLOperation, GraphQLOperationSummary, JSONSchema } from './types';
+import { PayloadParser } from './payload';
+import { SchemaInferrer } from './schema';
+
+export class GraphQLCatalog {
+  /**
+   * Get the GraphQL operations of a HAR entry, or undefined if it is not a GraphQL request
+   */
+  static getOperations(entry: HAREntry): GraphQLOperation[] | undefined {
+    const queryParams: Record<string, string> = {};
+    entry.request.queryString.forEach(param => {
+      queryParams[param.name] = param.value;
+    });
+    return PayloadParser.parseGraphQL(entry.request.postData, queryParams);
+  }
+
+  /**
+   * Identify an operation by name, falling back to its persisted query hash or a hash of its query
+   */
+  static operationKey(operation: GraphQLOperation): string {
+    if (operation.operationName) {
+      return operation.operationName;
+    }
+
+    const persisted = operation.extensions?.persistedQuery?.sha256Hash;
+    if (typeof persisted === 'string') {
+      return `persisted:${persisted.slice(0, 12)}`;
+    }
+
+    const query = (operation.query || '').replace(/\s+/g, ' ').trim();
+    return `anonymous:${createHash('sha1').update(query).digest('hex').slice(0, 12)}`;
+  }
+
+  /**
+   * Identify a request by its operations; batched requests join the keys of every operation
+   */
+  static requestKey(operations: GraphQLOperation[]): string {
+    return operations.map(operation => this.operationKey(operation)).join('+');
+  }
+
+  /**
+   * Collect every GraphQL operation with its call count, variables and response shapes
+   */
+  static build(conversations: LLMConversation[]): GraphQLOperationSummary[] {
+    const catalog = new Map<string, GraphQLOperationSummary & { variableSamples: any[]; responseSamples: any[] }>();
+
+    for (const conversation of conversations) {
+      const parsed = conversation.request.parsedBody;
+      if (parsed?.type !== 'graphql') {
+        continue;
+      }
+
+      let responses: any[] = [];
+      try {
+        const json = JSON.parse(conversation.response.body || '');
+        responses = Array.isArray(json) ? json : [json];
+      } catch {
+        // Non-JSON responses contribute no shape
+      }
+
+      const endpoint = `${conversation.request.method} ${conversation.request.url.split(/[?#]/)[0]}`;
+      parsed.operations.forEach((operation, position) => {
+        const key = this.operationKey(operation);
+        let summary = catalog.get(key);
+        if (!summary) {
+          summary = {
+            key,
+            operationName: operation.operationName,
+            operationType: operation.operationType,
+            endpoints: [],
+            calls: 0,
+            statusCodes: [],
+            query: operation.query,
+            variableSamples: [],
+            responseSamples: []
+          };
+          catalog.set(key, summary);
+        }
+
+        summary.calls++;
+        summary.query = summary.query || operation.query;
+        summary.operationType = summary.operationType || operation.operationType;
+        if (!summary.endpoints.includes(endpoint)) {
+          summary.endpoints.push(endpoint);
+        }
+        if (!summary.statusCodes.includes(conversation.response.status)) {
+          summary.statusCodes.push(conversation.response.status);
+        }
+        if (operation.variables) {
+          summary.variableSamples.push(operation.variables);
+        }
+        if (responses[position] !== undefined) {
+          summary.responseSamples.push(responses[position]);
+        }
+      });
+    }
+
+    return Array.from(catalog.values()).map(({ variableSamples, responseSamples, ...summary }) => ({
+      ...summary,
+      variables: SchemaInferrer.inferFromSamples(variableSamples),
+      response: SchemaInferrer.inferFromSamples(responseSamples)
+    }));
+  }
+
+  /**
+   * Reduce a schema to a compact shape: type names at the leaves, optional keys marked with `?`
+   */
+  static toShape(schema: JSONSchema): any {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (types.includes('object') && schema.properties) {
+      const shape: Record<string, any> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        shape[(schema.required || []).includes(key) ? key : `${key}?`] = this.toShape(property);
+      }
+      return shape;
+    }
+
+    if (types.includes('array')) {
+      return schema.items ? [this.toShape(schema.items)] : [];
+    }
+
+    return types.filter(Boolean).join(' | ') || 'unknown';
+  }
+}
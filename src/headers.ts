@@ -0,0 +1,184 @@
+import { HeaderDirection, HeaderPattern, HeaderPolicyOptions, HeaderRules } from './types';
+
+// Headers that are useless for API implementation, dropped unless allowed
+const DEFAULT_DENY = [
+  // Browser-specific headers
+  'user-agent',
+  'accept',
+  'accept-language',
+  'accept-encoding',
+  'cache-control',
+  'pragma',
+  'upgrade-insecure-requests',
+  'sec-fetch-dest',
+  'sec-fetch-mode',
+  'sec-fetch-site',
+  'sec-fetch-user',
+  'sec-ch-ua',
+  'sec-ch-ua-mobile',
+  'sec-ch-ua-platform',
+  
+  // Network and timing headers
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-encoding',
+  'content-length',
+  'date',
+  'server',
+  'via',
+  'x-powered-by',
+  'x-aspnet-version',
+  'x-aspnetmvc-version',
+  
+  // Caching headers
+  'etag',
+  'last-modified',
+  'if-modified-since',
+  'if-none-match',
+  'if-match',
+  'if-unmodified-since',
+  
+  // Security headers (usually set by server)
+  'x-frame-options',
+  'x-content-type-options',
+  'x-xss-protection',
+  'strict-transport-security',
+  'content-security-policy',
+  'referrer-policy',
+  
+  // Analytics and tracking
+  'x-forwarded-for',
+  'x-real-ip',
+  'x-forwarded-proto',
+  'x-forwarded-host',
+  'x-forwarded-port',
+  'x-requested-with',
+  
+  // CDN and proxy headers
+  'cf-ray',
+  'cf-cache-status',
+  'cf-request-id',
+  'x-cache',
+  'x-cache-hit',
+  'x-amz-cf-id',
+  'x-amz-cf-pop',
+  
+  // Other browser-generated headers
+  'origin',
+  'referer',
+  'dnt',
+  'save-data',
+  'viewport-width',
+  'device-memory',
+  'downlink',
+  'ect',
+  'rtt'
+];
+
+// Headers whose values change between otherwise identical requests, ignored when comparing for deduplication
+const DYNAMIC_HEADERS = [
+  'user-agent', 'date', 'if-modified-since', 'if-none-match',
+  'cache-control', 'pragma', 'expires', 'last-modified', 'etag',
+  'x-requested-with', 'x-forwarded-for', 'x-real-ip'
+];
+
+/**
+ * Decides which headers are kept in converted entries.
+ *
+ * A header is kept when it matches an allow pattern, dropped when it matches a
+ * deny pattern, and otherwise kept only if it is not in the built-in list of
+ * useless headers (or always, with `keepAll`). Direction-specific rules apply
+ * on top of the shared ones. Patterns are exact names, globs with `*`, regular
+ * expressions, or `/regex/` strings.
+ */
+export class HeaderPolicy {
+  /**
+   * Headers dropped by default
+   */
+  static readonly DEFAULT_DENY: readonly string[] = DEFAULT_DENY;
+
+  readonly options: HeaderPolicyOptions;
+
+  private readonly allow: Record<HeaderDirection, RegExp[]>;
+  private readonly deny: Record<HeaderDirection, RegExp[]>;
+
+  constructor(options: HeaderPolicyOptions = {}) {
+    this.options = options;
+    this.allow = {
+      request: this.compile(options, options.request, 'allow'),
+      response: this.compile(options, options.response, 'allow')
+    };
+    this.deny = {
+      request: this.compile(options, options.request, 'deny'),
+      response: this.compile(options, options.response, 'deny')
+    };
+  }
+
+  /**
+   * Create a policy with additional rules layered over this one
+   */
+  extend(options: HeaderPolicyOptions): HeaderPolicy {
+    const merge = (a: HeaderRules = {}, b: HeaderRules = {}): HeaderRules => ({
+      allow: [...(a.allow || []), ...(b.allow || [])],
+      deny: [...(a.deny || []), ...(b.deny || [])]
+    });
+
+    return new HeaderPolicy({
+      ...merge(this.options, options),
+      keepAll: options.keepAll !== undefined ? options.keepAll : this.options.keepAll,
+      request: merge(this.options.request, options.request),
+      response: merge(this.options.response, options.response)
+    });
+  }
+
+  /**
+   * Check whether a header is kept in converted entries
+   */
+  isAllowed(name: string, direction: HeaderDirection = 'request'): boolean {
+    const header = name.toLowerCase();
+
+    if (this.allow[direction].some(pattern => pattern.test(header))) {
+      return true;
+    }
+    if (this.deny[direction].some(pattern => pattern.test(header))) {
+      return false;
+    }
+
+    return this.options.keepAll === true || !DEFAULT_DENY.includes(header);
+  }
+
+  /**
+   * Check whether a kept header identifies a request for deduplication.
+   * Dynamic headers are ignored unless explicitly allowed.
+   */
+  isStatic(name: string, direction: HeaderDirection = 'request'): boolean {
+    const header = name.toLowerCase();
+    if (!this.isAllowed(header, direction)) {
+      return false;
+    }
+    return !DYNAMIC_HEADERS.includes(header) || this.allow[direction].some(pattern => pattern.test(header));
+  }
+
+  /**
+   * Parse a pattern given as text: `/regex/`, a glob with `*`, or an exact name.
+   * Header names are case-insensitive, so every pattern is too.
+   */
+  static parsePattern(pattern: HeaderPattern): RegExp {
+    if (pattern instanceof RegExp) {
+      return new RegExp(pattern.source, 'i');
+    }
+
+    const regex = pattern.match(/^\/(.+)\/i?$/);
+    if (regex) {
+      return new RegExp(regex[1], 'i');
+    }
+
+    const glob = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${glob}$`, 'i');
+  }
+
+  private compile(shared: HeaderRules, specific: HeaderRules | undefined, kind: keyof HeaderRules): RegExp[] {
+    return [...(shared[kind] || []), ...(specific?.[kind] || [])].map(pattern => HeaderPolicy.parsePattern(pattern));
+  }
+}
@@ -1,9 +1,88 @@
 export { HARConverter } from './converter';
 export { Formatters } from './formatters';
+export type { StreamingFormatter, OutputFormatter, FormatContext, SourceSection } from './formatters';
+export { Redactor } from './redactor';
+export { OpenAPIGenerator } from './openapi';
+export { SchemaInferrer } from './schema';
+export { EndpointSchemas } from './endpoints';
+export type { EndpointSchemaOptions, EndpointSamples } from './endpoints';
+export { TypeScriptGenerator } from './typescript';
+export { SDKGenerator } from './sdk';
+export { CollectionExporter } from './collections';
+export { SnippetGenerator } from './snippets';
+export type { SnippetTarget, SnippetRequest } from './snippets';
+export type { CollectionOptions } from './collections';
+export type { SDKOptions } from './sdk';
+export { TokenEstimator } from './tokenizer';
+export { TokenBudget } from './budget';
+export type { BudgetRenderer } from './budget';
+export { HARStreamReader } from './stream';
+export { HARSources } from './sources';
+export { HARDiff } from './diff';
+export type { HARDiffOptions } from './diff';
+export { HARReplayer } from './replay';
+export type { HARReplayOptions, ReplayRequest, ReplayResponse, ReplaySender } from './replay';
+export { HARMockServer } from './mock';
+export { PerformanceAnalyzer } from './performance';
+export type { PerformanceOptions } from './performance';
+export { WaterfallRenderer } from './waterfall';
+export type { WaterfallOptions } from './waterfall';
+export type { HARMockServerOptions, MockLatency, MockMatch, MockRequestLog } from './mock';
+export { BodyDecoder } from './decoder';
+export { PayloadParser } from './payload';
+export { GraphQLCatalog } from './graphql';
+export { ConfigLoader } from './config';
+export { HeaderPolicy } from './headers';
+export { EntryQuery } from './query';
+export { EntrySelector } from './selection';
+export type { SelectionOptions, SelectionStage } from './selection';
+export { Pipeline } from './pipeline';
+export { TemplateFormatter } from './template';
+export type { TemplateHelper } from './template';
+export type { FilterStage, TransformStage, PipelineOptions, PipelineResult } from './pipeline';
+export type { DecodedBody } from './decoder';
 export type { 
   HARFile, 
   HAREntry, 
+  HARPage,
   LLMRequest, 
   LLMResponse, 
-  LLMConversation 
+  LLMConversation,
+  ParsedBody,
+  FormField,
+  MultipartPart,
+  GraphQLOperation,
+  GraphQLOperationSummary,
+  RedactionOptions,
+  RedactionPattern,
+  RedactionRuleName,
+  JSONSchema,
+  EndpointSchema,
+  OpenAPIDocument,
+  TokenEstimatorFn,
+  TokenBudgetReport,
+  BudgetDropReason,
+  DedupeStrategy,
+  DedupeKeep,
+  DedupeGroup,
+  HeaderPattern,
+  HeaderDirection,
+  HeaderRules,
+  HeaderPolicyOptions,
+  DiffEndpointStats,
+  DiffSchemaChange,
+  DiffHeaderChange,
+  DiffEndpointChange,
+  HARDiffReport,
+  PerformanceLatency,
+  PerformancePhases,
+  PerformanceEndpoint,
+  PerformanceRequest,
+  PerformanceHost,
+  PerformanceSizeBucket,
+  PerformanceReport,
+  ReplayResult,
+  ReplayReport,
+  HarToLlmOptions,
+  HarToLlmConfig
 } from './types';
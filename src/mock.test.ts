@@ -0,0 +1,82 @@
+import { HARMockServer, MockRequestLog } from './mock';
+import { HARReplayer } from './replay';
+import { harEntry } from './test-helpers';
+
+const API = 'https://api.example.com';
+
+const RECORDED = [
+  harEntry({ url: `${API}/users/1`, response: { id: 1, name: 'a' } }),
+  harEntry({ url: `${API}/users/2`, response: { id: 2, name: 'b' } }),
+  harEntry({ method: 'POST', url: `${API}/orders`, body: '{"item":1}', status: 201, response: { id: 9 } })
+];
+
+describe('HARMockServer with HARReplayer', () => {
+  const servers: HARMockServer[] = [];
+  const start = async (entries = RECORDED, options: ConstructorParameters<typeof HARMockServer>[1] = {}) => {
+    const logs: MockRequestLog[] = [];
+    const server = new HARMockServer(entries, { ...options, onRequest: log => logs.push(log) });
+    servers.push(server);
+    return { url: await server.listen(0), logs };
+  };
+
+  afterEach(async () => {
+    await Promise.all(servers.splice(0).map(server => server.close()));
+  });
+
+  it('passes requests answered with the recorded status and JSON shape', async () => {
+    const { url, logs } = await start();
+    const report = await HARReplayer.replay([
+      harEntry({ url: `${API}/users/1`, response: { id: 1, name: 'a' } }),
+      harEntry({ url: `${API}/users/7`, response: { id: 7, name: 'g' } }),
+      harEntry({ method: 'POST', url: `${API}/orders`, body: '{"item":1}', status: 201, response: { id: 10 } })
+    ], { baseUrl: url, timeout: 5000 });
+
+    expect(report.summary).toEqual({ total: 3, passed: 3, failed: 0 });
+    expect(report.results.map(result => result.target)).toEqual([`${url}/users/1`, `${url}/users/7`, `${url}/orders`]);
+    expect(logs.map(log => [log.method, log.url, log.status, log.source, log.entry])).toEqual([
+      ['GET', '/users/1', 200, 'recorded', 0],
+      ['GET', '/users/7', 200, 'recorded', 0],
+      ['POST', '/orders', 201, 'recorded', 2]
+    ]);
+  });
+
+  it('reports status and JSON shape mismatches', async () => {
+    const { url } = await start();
+    const report = await HARReplayer.replay([
+      harEntry({ method: 'POST', url: `${API}/orders`, body: '{"item":1}', status: 200, response: { id: 9 } }),
+      harEntry({ url: `${API}/users/2`, response: { id: 2, email: 'b@example.com' } }),
+      harEntry({ url: `${API}/missing`, response: { ok: true } })
+    ], { baseUrl: url, timeout: 5000 });
+
+    expect(report.summary).toEqual({ total: 3, passed: 0, failed: 3 });
+    expect(report.results.map(result => result.failures)).toEqual([
+      ['Status 201, expected 200'],
+      ['JSON response structure differs from the capture'],
+      ['Status 404, expected 200', 'JSON response structure differs from the capture']
+    ]);
+    expect(HARReplayer.toMarkdown(report)).toContain('| 0 | FAIL | POST https://api.example.com/orders | 200 → 201 |');
+  });
+
+  it('answers unmatched requests with the nearest recorded route', async () => {
+    const { url, logs } = await start(RECORDED, { fallback: 'nearest' });
+    const report = await HARReplayer.replay([
+      harEntry({ url: `${API}/users/2/profile?full=1`, response: { id: 2, name: 'b' } })
+    ], { baseUrl: url, timeout: 5000 });
+
+    expect(report.summary.passed).toBe(1);
+    expect(logs).toEqual([{ method: 'GET', url: '/users/2/profile?full=1', status: 200, source: 'nearest', entry: 0, delay: 0 }]);
+  });
+
+  it('proxies unmatched requests to the fallback URL', async () => {
+    const upstream = await start([harEntry({ url: `${API}/v1/health`, response: { ok: true } })]);
+    const { url, logs } = await start(RECORDED, { fallback: `${upstream.url}/v1` });
+    const report = await HARReplayer.replay([
+      harEntry({ url: `${API}/users/1`, response: { id: 1, name: 'a' } }),
+      harEntry({ url: `${API}/health`, response: { ok: false } })
+    ], { baseUrl: url, timeout: 5000 });
+
+    expect(report.summary).toEqual({ total: 2, passed: 2, failed: 0 });
+    expect(logs.map(log => [log.url, log.status, log.source])).toEqual([['/users/1', 200, 'recorded'], ['/health', 200, 'proxy']]);
+    expect(upstream.logs.map(log => [log.url, log.source])).toEqual([['/v1/health', 'recorded']]);
+  });
+});
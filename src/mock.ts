@@ -0,0 +1,362 @@
+import * as http from 'http';
+import * as https from 'https';
+import { HAREntry } from './types';
+import { OpenAPIGenerator } from './openapi';
+import { PayloadParser } from './payload';
+import { GraphQLCatalog } from './graphql';
+import { BodyDecoder } from './decoder';
+import { HARReplayer } from './replay';
+
+/** How long to wait before answering: not at all, the entry's total time, or its server time (wait + receive) */
+export type MockLatency = 'none' | 'total' | 'server';
+
+export interface HARMockServerOptions {
+  /** Latency simulation from the recorded timings (default none) */
+  latency?: MockLatency;
+  /** Factor applied to simulated latencies, e.g. 0.5 for half speed (default 1) */
+  latencyScale?: number;
+  /** What to do with unmatched requests: '404' (default), 'nearest' recorded route, or a URL to proxy them to */
+  fallback?: string;
+  /** Allow cross-origin requests from any origin and answer preflight requests */
+  cors?: boolean;
+  /** Called after each request, e.g. for logging */
+  onRequest?: (log: MockRequestLog) => void;
+}
+
+export interface MockRequestLog {
+  method: string;
+  url: string;
+  status: number;
+  /** How the request was answered */
+  source: 'recorded' | 'nearest' | 'proxy' | 'preflight' | 'not-found';
+  /** Index of the entry that answered, in the entries given to the server */
+  entry?: number;
+  delay: number;
+}
+
+export interface MockMatch {
+  entry: HAREntry;
+  index: number;
+}
+
+interface Route {
+  entry: HAREntry;
+  index: number;
+  pathname: string;
+  queryKeys: string;
+  query: string;
+  operation?: string;
+}
+
+// Headers that describe the recorded transfer rather than the served body
+const SKIPPED_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection', 'keep-alive'];
+
+/**
+ * Local HTTP server answering requests with recorded responses. A request
+ * matches entries with the same method, templated path (as in the OpenAPI
+ * output) and query parameter names, and, for GraphQL, the same operations;
+ * the entry with the same concrete path, query values and body wins. Repeated
+ * requests cycle through equally good entries in capture order.
+ */
+export class HARMockServer {
+  private routes = new Map<string, Route[]>();
+  private rotation = new Map<string, number>();
+  private count = 0;
+  private server?: http.Server;
+
+  constructor(entries: HAREntry[], private options: HARMockServerOptions = {}) {
+    this.setEntries(entries);
+  }
+
+  /**
+   * Replace the recorded entries, e.g. after the HAR file changed
+   */
+  setEntries(entries: HAREntry[]): void {
+    this.routes.clear();
+    this.rotation.clear();
+    this.count = 0;
+
+    entries.forEach((entry, index) => {
+      // Aborted or blocked requests have no response to serve
+      if (entry.response.status <= 0) {
+        return;
+      }
+      let url: URL;
+      try {
+        url = new URL(entry.request.url);
+      } catch {
+        return;
+      }
+
+      const key = this.routeKey(entry.request.method, url.pathname);
+      const routes = this.routes.get(key) || [];
+      routes.push({
+        entry,
+        index,
+        pathname: url.pathname,
+        queryKeys: this.queryKeys(url.searchParams),
+        query: this.normalizeQuery(url.searchParams),
+        operation: this.operationKey(entry.request.postData?.mimeType, entry.request.postData?.text, url.searchParams)
+      });
+      this.routes.set(key, routes);
+      this.count++;
+    });
+  }
+
+  /**
+   * Number of entries that can be served
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Find the recorded entry answering a request, if any
+   */
+  match(method: string, url: string, body?: string, contentType?: string): MockMatch | undefined {
+    const parsed = new URL(url, 'http://localhost');
+    const queryKeys = this.queryKeys(parsed.searchParams);
+    const query = this.normalizeQuery(parsed.searchParams);
+    const operation = this.operationKey(contentType, body, parsed.searchParams);
+
+    const candidates = (this.routes.get(this.routeKey(method, parsed.pathname)) || [])
+      .filter(route => route.queryKeys === queryKeys && route.operation === operation);
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const score = (route: Route) =>
+      (route.pathname === parsed.pathname ? 4 : 0) +
+      (route.query === query ? 2 : 0) +
+      (body !== undefined && route.entry.request.postData?.text === body ? 1 : 0);
+    const best = Math.max(...candidates.map(score));
+    const ties = candidates.filter(route => score(route) === best);
+
+    const rotationKey = `${method.toUpperCase()} ${parsed.pathname}?${query} ${best}`;
+    const turn = this.rotation.get(rotationKey) || 0;
+    this.rotation.set(rotationKey, turn + 1);
+    const { entry, index } = ties[turn % ties.length];
+    return { entry, index };
+  }
+
+  /**
+   * Find the closest recorded entry for an unmatched request: the same method and
+   * templated path with any query, else the same method with the longest common path prefix
+   */
+  nearest(method: string, url: string): MockMatch | undefined {
+    const parsed = new URL(url, 'http://localhost');
+    const exact = this.routes.get(this.routeKey(method, parsed.pathname));
+    if (exact && exact.length > 0) {
+      return { entry: exact[0].entry, index: exact[0].index };
+    }
+
+    const segments = parsed.pathname.split('/').filter(Boolean);
+    let best: Route | undefined;
+    let bestLength = 0;
+    for (const routes of this.routes.values()) {
+      const route = routes[0];
+      if (route.entry.request.method.toUpperCase() !== method.toUpperCase()) {
+        continue;
+      }
+      const routeSegments = route.pathname.split('/').filter(Boolean);
+      let length = 0;
+      while (length < segments.length && length < routeSegments.length && segments[length] === routeSegments[length]) {
+        length++;
+      }
+      if (length > bestLength) {
+        best = route;
+        bestLength = length;
+      }
+    }
+    return best ? { entry: best.entry, index: best.index } : undefined;
+  }
+
+  /**
+   * Start listening; resolves with the server's URL
+   */
+  listen(port = 3000, hostname = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          if (!res.headersSent) {
+            res.writeHead(502, { 'content-type': 'application/json' });
+          }
+          res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+        });
+      });
+      server.once('error', reject);
+      server.listen(port, hostname, () => {
+        server.off('error', reject);
+        this.server = server;
+        const address = server.address();
+        const actualPort = address && typeof address === 'object' ? address.port : port;
+        resolve(`http://${hostname.includes(':') ? `[${hostname}]` : hostname}:${actualPort}`);
+      });
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(error => (error ? reject(error) : resolve()));
+      this.server = undefined;
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || 'GET').toUpperCase();
+    const url = req.url || '/';
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks);
+    const body = raw.length > 0 ? raw.toString('utf8') : undefined;
+    const log = (entry: Omit<MockRequestLog, 'method' | 'url'>) => this.options.onRequest?.({ method, url, ...entry });
+
+    let match = this.match(method, url, body, req.headers['content-type']);
+    let source: MockRequestLog['source'] = 'recorded';
+
+    if (!match && this.options.cors && method === 'OPTIONS' && req.headers['access-control-request-method']) {
+      res.writeHead(204, {
+        ...this.corsHeaders(req),
+        'access-control-allow-methods': String(req.headers['access-control-request-method']),
+        ...(req.headers['access-control-request-headers'] && { 'access-control-allow-headers': String(req.headers['access-control-request-headers']) }),
+        'access-control-max-age': '600'
+      });
+      res.end();
+      log({ status: 204, source: 'preflight', delay: 0 });
+      return;
+    }
+
+    const fallback = this.options.fallback || '404';
+    if (!match && fallback === 'nearest') {
+      match = this.nearest(method, url);
+      source = 'nearest';
+    } else if (!match && /^https?:\/\//.test(fallback)) {
+      const status = await this.proxy(req, res, fallback, raw);
+      log({ status, source: 'proxy', delay: 0 });
+      return;
+    }
+
+    if (!match) {
+      res.writeHead(404, { 'content-type': 'application/json', ...(this.options.cors && this.corsHeaders(req)) });
+      res.end(JSON.stringify({ error: `No recorded response for ${method} ${url.split('?')[0]}` }));
+      log({ status: 404, source: 'not-found', delay: 0 });
+      return;
+    }
+
+    const { entry, index } = match;
+    const delay = this.delay(entry);
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    const headers: Record<string, string | string[]> = {};
+    for (const { name, value } of entry.response.headers) {
+      const key = name.toLowerCase();
+      // HTTP/2 pseudo-headers such as :status are not real headers
+      if (key.startsWith(':') || SKIPPED_HEADERS.includes(key) || (this.options.cors && key.startsWith('access-control-'))) {
+        continue;
+      }
+      const existing = headers[key];
+      headers[key] = existing === undefined ? value : ([] as string[]).concat(existing, value);
+    }
+    if (headers['content-type'] === undefined && entry.response.content.mimeType) {
+      headers['content-type'] = entry.response.content.mimeType;
+    }
+    if (this.options.cors) {
+      Object.assign(headers, this.corsHeaders(req));
+    }
+
+    const content = BodyDecoder.toBuffer(entry.response.content, entry.response.headers);
+    res.statusCode = entry.response.status;
+    if (entry.response.statusText) {
+      res.statusMessage = entry.response.statusText;
+    }
+    Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+    res.end(method === 'HEAD' ? undefined : content);
+    log({ status: entry.response.status, source, entry: index, delay });
+  }
+
+  /**
+   * Forward a request to a real server and stream its response back
+   */
+  private proxy(req: http.IncomingMessage, res: http.ServerResponse, target: string, body: Buffer): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(HARReplayer.rewriteUrl(`http://mock${req.url || '/'}`, { baseUrl: target }));
+      const transport = url.protocol === 'https:' ? https : http;
+      const headers = { ...req.headers };
+      delete headers.host;
+      delete headers.connection;
+
+      const upstream = transport.request(url, { method: req.method, headers }, response => {
+        const responseHeaders = { ...response.headers };
+        if (this.options.cors) {
+          Object.assign(responseHeaders, this.corsHeaders(req));
+        }
+        res.writeHead(response.statusCode || 502, responseHeaders);
+        response.pipe(res);
+        response.on('end', () => resolve(response.statusCode || 502));
+        response.on('error', reject);
+      });
+      upstream.on('error', reject);
+      upstream.end(body);
+    });
+  }
+
+  private corsHeaders(req: http.IncomingMessage): Record<string, string> {
+    const origin = req.headers.origin;
+    return origin
+      ? { 'access-control-allow-origin': origin, 'access-control-allow-credentials': 'true', 'vary': 'Origin' }
+      : { 'access-control-allow-origin': '*' };
+  }
+
+  /**
+   * Simulated latency of an entry in ms; HAR uses -1 for timings that do not apply
+   */
+  private delay(entry: HAREntry): number {
+    const scale = this.options.latencyScale ?? 1;
+    switch (this.options.latency) {
+      case 'total':
+        return Math.max(0, Math.round(entry.time * scale));
+      case 'server':
+        return Math.round((Math.max(0, entry.timings.wait) + Math.max(0, entry.timings.receive)) * scale);
+      default:
+        return 0;
+    }
+  }
+
+  private routeKey(method: string, pathname: string): string {
+    return `${method.toUpperCase()} ${OpenAPIGenerator.templatePath(pathname)}`;
+  }
+
+  private queryKeys(params: URLSearchParams): string {
+    return Array.from(new Set(params.keys())).sort().join('&');
+  }
+
+  private normalizeQuery(params: URLSearchParams): string {
+    return Array.from(params.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+  }
+
+  /**
+   * Identify the GraphQL operations of a request, so that operations posted to the same URL are told apart
+   */
+  private operationKey(mimeType: string | undefined, text: string | undefined, params: URLSearchParams): string | undefined {
+    const queryParams: Record<string, string> = {};
+    params.forEach((value, name) => {
+      queryParams[name] = value;
+    });
+    const operations = PayloadParser.parseGraphQL(text !== undefined ? { mimeType: mimeType || '', text } : undefined, queryParams);
+    return operations ? GraphQLCatalog.requestKey(operations) : undefined;
+  }
+}
@@ -0,0 +1,236 @@
+import { LLMConversation, OpenAPIDocument, JSONSchema, ParsedBody } from './types';
+import { HARConverter } from './converter';
+import { SchemaInferrer } from './schema';
+
+interface OperationSamples {
+  method: string;
+  path: string;
+  conversations: LLMConversation[];
+}
+
+// Schemas for the placeholders produced by HARConverter.normalizeUrl
+const PATH_PARAM_SCHEMAS: Record<string, JSONSchema> = {
+  id: { type: 'integer' },
+  uuid: { type: 'string', format: 'uuid' },
+  objectId: { type: 'string' },
+  hash: { type: 'string' }
+};
+
+export class OpenAPIGenerator {
+  /**
+   * Generate an OpenAPI 3.1 document from captured conversations
+   */
+  static generate(conversations: LLMConversation[], info: { title?: string; version?: string } = {}): OpenAPIDocument {
+    const servers = new Set<string>();
+    const operations = new Map<string, OperationSamples>();
+
+    for (const conv of conversations) {
+      const url = new URL(conv.request.url);
+      servers.add(url.origin);
+
+      const method = conv.request.method.toLowerCase();
+      const path = this.templatePath(url.pathname);
+      const key = `${method} ${path}`;
+
+      if (!operations.has(key)) {
+        operations.set(key, { method, path, conversations: [] });
+      }
+      operations.get(key)!.conversations.push(conv);
+    }
+
+    const paths: Record<string, Record<string, any>> = {};
+    const operationIds = new Set<string>();
+
+    for (const { method, path, conversations: samples } of operations.values()) {
+      paths[path] = paths[path] || {};
+      paths[path][method] = this.buildOperation(method, path, samples, operationIds);
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: info.title || 'API inferred from HAR',
+        version: info.version || '1.0.0'
+      },
+      servers: Array.from(servers).map(url => ({ url })),
+      paths
+    };
+  }
+
+  /**
+   * Convert a request path to an OpenAPI path template with unique parameter names
+   */
+  static templatePath(pathname: string): string {
+    const seen: Record<string, number> = {};
+
+    return HARConverter.normalizeUrl(pathname).replace(/\{(\w+)\}/g, (_, name: string) => {
+      seen[name] = (seen[name] || 0) + 1;
+      return seen[name] === 1 ? `{${name}}` : `{${name}${seen[name]}}`;
+    });
+  }
+
+  /**
+   * Build an operation object from every sample of one method + path
+   */
+  private static buildOperation(method: string, path: string, samples: LLMConversation[], operationIds: Set<string>): any {
+    const operation: any = {
+      operationId: this.createOperationId(method, path, operationIds),
+      summary: `${method.toUpperCase()} ${path}`
+    };
+
+    const parameters = [...this.buildPathParameters(path), ...this.buildQueryParameters(samples)];
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    const requestBody = this.buildContent(samples
+      .filter(conv => conv.request.body || conv.request.parsedBody)
+      .map(conv => ({ body: conv.request.body || '', contentType: conv.request.contentType, parsed: conv.request.parsedBody })));
+    if (requestBody) {
+      operation.requestBody = {
+        required: samples.every(conv => conv.request.body || conv.request.parsedBody),
+        content: requestBody
+      };
+    }
+
+    const responses: Record<string, any> = {};
+    const byStatus = new Map<number, LLMConversation[]>();
+    for (const conv of samples) {
+      byStatus.set(conv.response.status, [...(byStatus.get(conv.response.status) || []), conv]);
+    }
+    for (const [status, statusSamples] of Array.from(byStatus.entries()).sort(([a], [b]) => a - b)) {
+      const response: any = { description: statusSamples[0].response.statusText || String(status) };
+      const content = this.buildContent(statusSamples
+        .filter(conv => conv.response.body)
+        .map(conv => ({ body: conv.response.body!, contentType: conv.response.contentType })));
+      if (content) {
+        response.content = content;
+      }
+      // A zero status means the request never completed, which OpenAPI cannot express
+      responses[status > 0 ? String(status) : 'default'] = response;
+    }
+    operation.responses = responses;
+
+    return operation;
+  }
+
+  /**
+   * Build path parameters from the placeholders in a templated path
+   */
+  private static buildPathParameters(path: string): any[] {
+    const parameters: any[] = [];
+    for (const match of path.matchAll(/\{((\w+?)\d*)\}/g)) {
+      parameters.push({
+        name: match[1],
+        in: 'path',
+        required: true,
+        schema: PATH_PARAM_SCHEMAS[match[2]] || { type: 'string' }
+      });
+    }
+    return parameters;
+  }
+
+  /**
+   * Build query parameters; a parameter is required only if every sample sends it
+   */
+  private static buildQueryParameters(samples: LLMConversation[]): any[] {
+    const schemas = new Map<string, JSONSchema>();
+    const counts = new Map<string, number>();
+
+    for (const conv of samples) {
+      for (const [name, value] of Object.entries(conv.request.queryParams)) {
+        const schema = SchemaInferrer.inferFromString(value);
+        schemas.set(name, schemas.has(name) ? SchemaInferrer.merge(schemas.get(name)!, schema) : schema);
+        counts.set(name, (counts.get(name) || 0) + 1);
+      }
+    }
+
+    return Array.from(schemas.entries()).map(([name, schema]) => ({
+      name,
+      in: 'query',
+      required: counts.get(name) === samples.length,
+      schema
+    }));
+  }
+
+  /**
+   * Build a content map keyed by media type with schemas merged across samples
+   */
+  private static buildContent(bodies: Array<{ body: string; contentType?: string; parsed?: ParsedBody }>): Record<string, any> | undefined {
+    if (bodies.length === 0) {
+      return undefined;
+    }
+
+    const schemas = new Map<string, JSONSchema>();
+    for (const { body, contentType, parsed } of bodies) {
+      const mediaType = (contentType || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+      const schema = this.inferBodySchema(body, mediaType, parsed);
+      schemas.set(mediaType, schemas.has(mediaType) ? SchemaInferrer.merge(schemas.get(mediaType)!, schema) : schema);
+    }
+
+    const content: Record<string, any> = {};
+    for (const [mediaType, schema] of schemas) {
+      content[mediaType] = { schema };
+    }
+    return content;
+  }
+
+  /**
+   * Infer a schema for a body based on its media type
+   */
+  private static inferBodySchema(body: string, mediaType: string, parsed?: ParsedBody): JSONSchema {
+    if (parsed?.type === 'multipart') {
+      const properties: Record<string, JSONSchema> = {};
+      for (const part of parsed.parts) {
+        if (part.name) {
+          properties[part.name] = part.filename !== undefined
+            ? { type: 'string', format: 'binary' }
+            : SchemaInferrer.inferFromString(part.value || '');
+        }
+      }
+      return { type: 'object', properties, required: Object.keys(properties) };
+    }
+
+    if (parsed?.type === 'form') {
+      const properties: Record<string, JSONSchema> = {};
+      for (const field of parsed.fields) {
+        properties[field.name] = SchemaInferrer.inferFromString(field.value);
+      }
+      return { type: 'object', properties, required: Object.keys(properties) };
+    }
+
+    if (mediaType.includes('json')) {
+      try {
+        return SchemaInferrer.infer(JSON.parse(body));
+      } catch {
+        return { type: 'string' };
+      }
+    }
+
+    return { type: 'string' };
+  }
+
+  /**
+   * Create a unique camelCase operation id such as getUsersById
+   */
+  static createOperationId(method: string, path: string, operationIds: Set<string>): string {
+    const words = path
+      .split('/')
+      .filter(Boolean)
+      .map(segment => {
+        const param = segment.match(/^\{(\w+)\}$/);
+        return param ? `By ${param[1]}` : segment;
+      })
+      .join(' ')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean);
+
+    const base = method + words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+    let operationId = base;
+    for (let i = 2; operationIds.has(operationId); i++) {
+      operationId = `${base}${i}`;
+    }
+    operationIds.add(operationId);
+    return operationId;
+  }
+}
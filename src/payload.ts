@@ -0,0 +1,218 @@
+import { HAREntry, ParsedBody, FormField, MultipartPart, GraphQLOperation } from './types';
+
+type PostData = NonNullable<HAREntry['request']['postData']>;
+
+export class PayloadParser {
+  /**
+   * Parse a request body into form fields, multipart parts or GraphQL operations.
+   * Returns undefined for bodies without a more useful structure than their text.
+   */
+  static parse(postData: PostData | undefined, queryParams: Record<string, string> = {}): ParsedBody | undefined {
+    const mimeType = (postData?.mimeType || '').toLowerCase();
+
+    if (postData && mimeType.includes('multipart/form-data')) {
+      const parts = this.parseMultipart(postData);
+      return parts.length > 0 ? { type: 'multipart', parts } : undefined;
+    }
+
+    if (postData && mimeType.includes('x-www-form-urlencoded')) {
+      const fields = this.parseForm(postData);
+      return fields.length > 0 ? { type: 'form', fields } : undefined;
+    }
+
+    const operations = this.parseGraphQL(postData, queryParams);
+    return operations ? { type: 'graphql', operations } : undefined;
+  }
+
+  /**
+   * Parse a GraphQL request from a JSON body, an application/graphql body or GET query parameters
+   */
+  static parseGraphQL(postData: PostData | undefined, queryParams: Record<string, string> = {}): GraphQLOperation[] | undefined {
+    const mimeType = (postData?.mimeType || '').toLowerCase();
+    const text = postData?.text;
+
+    if (text && mimeType.includes('application/graphql')) {
+      return [this.createOperation({ query: text })];
+    }
+
+    if (text) {
+      try {
+        const json = JSON.parse(text);
+        const payloads = Array.isArray(json) ? json : [json];
+        if (payloads.length > 0 && payloads.every(payload => this.isGraphQLPayload(payload))) {
+          return payloads.map(payload => this.createOperation(payload));
+        }
+      } catch {
+        // Not a JSON body
+      }
+      return undefined;
+    }
+
+    // GET requests carry the operation in the query string
+    if (queryParams.query && /^\s*(query|mutation|subscription|\{)/.test(queryParams.query)) {
+      return [this.createOperation({
+        query: queryParams.query,
+        operationName: queryParams.operationName,
+        variables: this.parseJsonParam(queryParams.variables),
+        extensions: this.parseJsonParam(queryParams.extensions)
+      })];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Describe a parsed body in one line, e.g. for conversation logs
+   */
+  static describe(parsed: ParsedBody): string {
+    switch (parsed.type) {
+      case 'form':
+        return `form fields ${parsed.fields.map(field => `${field.name}=${field.value}`).join(', ')}`;
+      case 'multipart':
+        return `multipart parts ${parsed.parts.map(part => this.describePart(part)).join(', ')}`;
+      case 'graphql':
+        return parsed.operations.map(operation => {
+          let description = `GraphQL ${operation.operationType || 'operation'} ${operation.operationName || '(anonymous)'}`;
+          if (operation.variables && Object.keys(operation.variables).length > 0) {
+            description += ` with variables ${JSON.stringify(operation.variables)}`;
+          }
+          return description;
+        }).join('; ');
+    }
+  }
+
+  /**
+   * Describe a multipart part, eliding file contents
+   */
+  static describePart(part: MultipartPart): string {
+    if (part.filename !== undefined) {
+      return `${part.name || '(unnamed)'}: ${part.filename} (${part.contentType || 'application/octet-stream'}, ${part.size} bytes)`;
+    }
+    return `${part.name || '(unnamed)'}=${part.value || ''}`;
+  }
+
+  /**
+   * Rebuild a multipart body as text with file contents replaced by a placeholder
+   */
+  static elideMultipartFiles(text: string, mimeType: string): string {
+    const boundary = this.getBoundary(mimeType);
+    if (!boundary) {
+      return text;
+    }
+
+    return text
+      .split(`--${boundary}`)
+      .map(segment => {
+        const separator = segment.indexOf('\r\n\r\n') >= 0 ? '\r\n\r\n' : '\n\n';
+        const headerEnd = segment.indexOf(separator);
+        if (headerEnd === -1 || !/filename=/i.test(segment.slice(0, headerEnd))) {
+          return segment;
+        }
+        const content = segment.slice(headerEnd + separator.length).replace(/\r?\n$/, '');
+        const trailer = segment.slice(headerEnd + separator.length + content.length);
+        return `${segment.slice(0, headerEnd + separator.length)}[file contents elided: ${content.length} bytes]${trailer}`;
+      })
+      .join(`--${boundary}`);
+  }
+
+  private static parseForm(postData: PostData): FormField[] {
+    if (postData.params && postData.params.length > 0) {
+      return postData.params.map(param => ({ name: param.name, value: param.value || '' }));
+    }
+
+    return Array.from(new URLSearchParams(postData.text || '')).map(([name, value]) => ({ name, value }));
+  }
+
+  private static parseMultipart(postData: PostData): MultipartPart[] {
+    const boundary = this.getBoundary(postData.mimeType);
+
+    // Some tools only record the parts as params
+    if (!postData.text || !boundary) {
+      return (postData.params || []).map(param => ({
+        name: param.name,
+        ...(param.fileName !== undefined
+          ? { filename: param.fileName, contentType: param.contentType }
+          : { value: param.value || '' }),
+        size: (param.value || '').length
+      }));
+    }
+
+    const parts: MultipartPart[] = [];
+    for (const segment of postData.text.split(`--${boundary}`).slice(1)) {
+      if (segment.startsWith('--')) {
+        break;
+      }
+
+      const body = segment.replace(/^\r?\n/, '');
+      const separator = body.indexOf('\r\n\r\n') >= 0 ? '\r\n\r\n' : '\n\n';
+      const headerEnd = body.indexOf(separator);
+      const headerText = headerEnd >= 0 ? body.slice(0, headerEnd) : body;
+      const content = headerEnd >= 0 ? body.slice(headerEnd + separator.length).replace(/\r?\n$/, '') : '';
+
+      const disposition = headerText.match(/content-disposition:([^\r\n]*)/i)?.[1] || '';
+      const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+      const filename = disposition.match(/\bfilename="([^"]*)"/i)?.[1];
+      const contentType = headerText.match(/content-type:\s*([^\r\n]*)/i)?.[1]?.trim();
+
+      parts.push({
+        name,
+        ...(filename !== undefined ? { filename } : { value: content }),
+        ...(contentType && { contentType }),
+        size: content.length
+      });
+    }
+    return parts;
+  }
+
+  private static getBoundary(mimeType: string): string | undefined {
+    const match = mimeType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+    return match ? (match[1] || match[2]).trim() : undefined;
+  }
+
+  private static isGraphQLPayload(payload: any): boolean {
+    return typeof payload === 'object' && payload !== null && !Array.isArray(payload) &&
+      (typeof payload.query === 'string' || (typeof payload.operationName === 'string' && typeof payload.extensions === 'object'));
+  }
+
+  private static createOperation(payload: {
+    query?: string;
+    operationName?: string;
+    variables?: any;
+    extensions?: any;
+  }): GraphQLOperation {
+    const query = typeof payload.query === 'string' ? payload.query : undefined;
+    const definition = query ? this.parseDefinition(query) : undefined;
+
+    return {
+      operationName: payload.operationName || definition?.name,
+      operationType: definition?.type,
+      ...(query !== undefined && { query }),
+      ...(payload.variables && typeof payload.variables === 'object' && { variables: payload.variables }),
+      ...(payload.extensions && typeof payload.extensions === 'object' && { extensions: payload.extensions })
+    };
+  }
+
+  /**
+   * Find the type and name of the first operation in a GraphQL document
+   */
+  private static parseDefinition(query: string): { type: GraphQLOperation['operationType']; name?: string } | undefined {
+    const source = query.replace(/#[^\n]*/g, '');
+    const match = source.match(/(?:^|[\s}])(query|mutation|subscription)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/);
+    if (match) {
+      return { type: match[1] as GraphQLOperation['operationType'], name: match[2] };
+    }
+    // Shorthand `{ ... }` documents are queries
+    return /^\s*\{/.test(source) ? { type: 'query' } : undefined;
+  }
+
+  private static parseJsonParam(value: string | undefined): any {
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+}
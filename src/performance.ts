@@ -0,0 +1,417 @@
+import {
+  HAREntry,
+  PerformanceReport,
+  PerformanceLatency,
+  PerformancePhases,
+  PerformanceEndpoint,
+  PerformanceRequest,
+  PerformanceHost,
+  PerformanceSizeBucket
+} from './types';
+import { HARConverter } from './converter';
+import { BodyDecoder } from './decoder';
+
+export interface PerformanceOptions {
+  /** Group GraphQL requests per operation */
+  graphql?: boolean;
+  /** Number of slowest requests to list (default 10) */
+  slowest?: number;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+const PHASES: Array<keyof PerformancePhases> = ['blocked', 'dns', 'connect', 'ssl', 'send', 'wait', 'receive'];
+
+const SIZE_BUCKETS: Array<{ label: string; min: number; max?: number }> = [
+  { label: '< 1 KB', min: 0, max: 1024 },
+  { label: '1-10 KB', min: 1024, max: 10 * 1024 },
+  { label: '10-100 KB', min: 10 * 1024, max: 100 * 1024 },
+  { label: '100 KB-1 MB', min: 100 * 1024, max: 1024 * 1024 },
+  { label: '> 1 MB', min: 1024 * 1024 }
+];
+
+/**
+ * Analyzes the timings of a capture: latency percentiles per endpoint, where
+ * the time goes (queueing, DNS, connection setup, waiting for the server,
+ * downloading), connection reuse, how response size relates to time, and how
+ * many requests were in flight at once.
+ */
+export class PerformanceAnalyzer {
+  /** Timing phases in the order they happen */
+  static readonly PHASES: readonly (keyof PerformancePhases)[] = PHASES;
+
+  /**
+   * Build a performance report for a list of entries
+   */
+  static analyze(entries: HAREntry[], options: PerformanceOptions = {}): PerformanceReport {
+    const phases = entries.map(entry => this.phases(entry));
+    const intervals = entries.map(entry => this.interval(entry));
+    // Reduce rather than spread, which overflows the stack on large captures
+    const origin = intervals.length > 0 ? intervals.reduce((min, interval) => Math.min(min, interval.start), Infinity) : 0;
+    const span = intervals.length > 0 ? intervals.reduce((max, interval) => Math.max(max, interval.end), -Infinity) - origin : 0;
+    const durations = entries.map(entry => Math.max(0, entry.time));
+
+    const total = this.emptyPhases();
+    phases.forEach(entryPhases => PHASES.forEach(phase => {
+      total[phase] += entryPhases[phase];
+    }));
+    const average = this.emptyPhases();
+    PHASES.forEach(phase => {
+      total[phase] = Math.round(total[phase]);
+      average[phase] = entries.length > 0 ? Math.round(total[phase] / entries.length) : 0;
+    });
+
+    const slowest: PerformanceRequest[] = entries
+      .map((entry, index) => ({
+        index,
+        method: entry.request.method,
+        url: entry.request.url,
+        status: entry.response.status,
+        time: Math.round(durations[index]),
+        start: Math.round(intervals[index].start - origin),
+        phases: this.roundPhases(phases[index]),
+        size: this.responseSize(entry)
+      }))
+      .sort((a, b) => b.time - a.time || a.index - b.index)
+      .slice(0, options.slowest ?? 10);
+
+    const concurrency = this.concurrency(intervals);
+
+    return {
+      summary: {
+        requests: entries.length,
+        span: Math.round(span),
+        latency: this.latency(durations),
+        averageDuration: entries.length > 0 ? Math.round(durations.reduce((sum, time) => sum + time, 0) / entries.length) : 0,
+        transferred: entries.reduce((sum, entry) => sum + this.responseSize(entry), 0)
+      },
+      phases: {
+        total,
+        average,
+        ttfbShare: total.wait + total.receive > 0 ? Math.round((total.wait / (total.wait + total.receive)) * 100) : 0
+      },
+      endpoints: this.endpoints(entries, phases, options.graphql),
+      slowest,
+      connections: this.connections(entries, phases, intervals),
+      payload: this.payload(entries, phases),
+      concurrency: { max: concurrency.max, at: Math.round(concurrency.at - origin), average: concurrency.average }
+    };
+  }
+
+  /**
+   * Render a report as markdown, for reading or for an LLM
+   */
+  static toMarkdown(report: PerformanceReport): string {
+    const { summary, phases, connections, concurrency } = report;
+    const ms = (value: number) => `${value}ms`;
+    const escape = (value: string) => value.replace(/\|/g, '\\|');
+
+    let output = `# Performance Report\n\n`;
+    if (summary.requests === 0) {
+      return output + 'No entries to analyze.\n';
+    }
+
+    output += `**Requests:** ${summary.requests} over ${this.formatDuration(summary.span)}, ${BodyDecoder.formatSize(summary.transferred)} received\n`;
+    output += `**Latency:** p50 ${ms(summary.latency.p50)}, p95 ${ms(summary.latency.p95)}, p99 ${ms(summary.latency.p99)}, max ${ms(summary.latency.max)} (average ${ms(summary.averageDuration)})\n`;
+    output += `**Concurrency:** up to ${concurrency.max} request${concurrency.max === 1 ? '' : 's'} in flight (at +${this.formatDuration(concurrency.at)}), ${concurrency.average} on average while busy\n\n`;
+
+    const phaseTotal = PHASES.reduce((sum, phase) => sum + phases.total[phase], 0);
+    output += `## Timing Breakdown\n\n`;
+    output += `| Phase | Total | Average | Share |\n`;
+    output += `|-------|-------|---------|-------|\n`;
+    PHASES.forEach(phase => {
+      const share = phaseTotal > 0 ? Math.round((phases.total[phase] / phaseTotal) * 100) : 0;
+      output += `| ${phase} | ${ms(phases.total[phase])} | ${ms(phases.average[phase])} | ${share}% |\n`;
+    });
+    output += `\nTime to first byte (wait) is ${phases.ttfbShare}% of the response time and download (receive) ${100 - phases.ttfbShare}%.\n\n`;
+
+    output += `## Endpoints\n\n`;
+    output += `Slowest p95 first.\n\n`;
+    output += `| Endpoint | Calls | p50 | p95 | p99 | TTFB | Download | Avg size |\n`;
+    output += `|----------|-------|-----|-----|-----|------|----------|----------|\n`;
+    report.endpoints.forEach(endpoint => {
+      const { latency } = endpoint;
+      output += `| ${escape(endpoint.endpoint)} | ${endpoint.calls} | ${ms(latency.p50)} | ${ms(latency.p95)} | ${ms(latency.p99)} | ${ms(endpoint.ttfb)} | ${ms(endpoint.download)} | ${BodyDecoder.formatSize(endpoint.averageSize)} |\n`;
+    });
+    output += '\n';
+
+    output += `## Slowest Requests\n\n`;
+    output += `| # | Request | Status | Start | Time | Blocked | DNS | Connect | SSL | Wait | Receive | Size |\n`;
+    output += `|---|---------|--------|-------|------|---------|-----|---------|-----|------|---------|------|\n`;
+    report.slowest.forEach(request => {
+      const { phases: p } = request;
+      output += `| ${request.index} | ${request.method} ${escape(request.url)} | ${request.status} | +${ms(request.start)} | ${ms(request.time)} | ${ms(p.blocked)} | ${ms(p.dns)} | ${ms(p.connect)} | ${ms(p.ssl)} | ${ms(p.wait)} | ${ms(p.receive)} | ${BodyDecoder.formatSize(request.size)} |\n`;
+    });
+    output += '\n';
+
+    output += `## Connections\n\n`;
+    output += `- **New connections:** ${connections.newConnections}, **reused:** ${connections.reused} (${connections.reuseRate}% reuse)\n`;
+    output += `- **DNS lookups:** ${connections.dnsLookups}, ${ms(connections.dnsTime)} in total\n`;
+    output += `- **TLS handshakes:** ${connections.sslHandshakes}, ${ms(connections.sslTime)} in total\n\n`;
+    output += `| Host | Requests | New connections | DNS | Connect | SSL | Max concurrent |\n`;
+    output += `|------|----------|-----------------|-----|---------|-----|----------------|\n`;
+    connections.hosts.forEach(host => {
+      output += `| ${escape(host.host)} | ${host.requests} | ${host.newConnections} | ${host.dnsLookups} lookups, ${ms(host.dnsTime)} | ${ms(host.connectTime)} | ${ms(host.sslTime)} | ${host.maxConcurrency} |\n`;
+    });
+    output += '\n';
+
+    output += `## Payload Size vs Time\n\n`;
+    output += `| Size | Requests | Median time | Median download | Throughput |\n`;
+    output += `|------|----------|-------------|-----------------|------------|\n`;
+    report.payload.buckets.forEach(bucket => {
+      output += `| ${bucket.label} | ${bucket.requests} | ${ms(bucket.medianTime)} | ${ms(bucket.medianDownload)} | ${bucket.throughput > 0 ? `${BodyDecoder.formatSize(bucket.throughput)}/s` : '-'} |\n`;
+    });
+    if (report.payload.correlation !== undefined) {
+      output += `\nCorrelation between response size and time: ${report.payload.correlation}`;
+      output += Math.abs(report.payload.correlation) >= 0.5 ? ' (time is largely driven by size)\n' : ' (time is mostly independent of size)\n';
+    }
+
+    return output;
+  }
+
+  /**
+   * Render a report as JSON, e.g. for dashboards
+   */
+  static toJSON(report: PerformanceReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Nearest-rank percentile of sorted values
+   */
+  static percentile(sorted: number[], percent: number): number {
+    if (sorted.length === 0) {
+      return 0;
+    }
+    return sorted[Math.max(0, Math.ceil((percent / 100) * sorted.length) - 1)];
+  }
+
+  private static latency(durations: number[]): PerformanceLatency {
+    const sorted = [...durations].sort((a, b) => a - b);
+    return {
+      p50: Math.round(this.percentile(sorted, 50)),
+      p95: Math.round(this.percentile(sorted, 95)),
+      p99: Math.round(this.percentile(sorted, 99)),
+      max: Math.round(sorted[sorted.length - 1] || 0)
+    };
+  }
+
+  private static endpoints(entries: HAREntry[], phases: PerformancePhases[], graphql?: boolean): PerformanceEndpoint[] {
+    const groups = new Map<string, number[]>();
+    entries.forEach((entry, index) => {
+      const key = HARConverter.createEndpointKey(entry, graphql);
+      const group = groups.get(key) || [];
+      group.push(index);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.entries())
+      .map(([endpoint, indices]) => ({
+        endpoint,
+        calls: indices.length,
+        latency: this.latency(indices.map(index => Math.max(0, entries[index].time))),
+        ttfb: Math.round(this.median(indices.map(index => phases[index].wait))),
+        download: Math.round(this.median(indices.map(index => phases[index].receive))),
+        averageSize: Math.round(indices.reduce((sum, index) => sum + this.responseSize(entries[index]), 0) / indices.length)
+      }))
+      .sort((a, b) => b.latency.p95 - a.latency.p95 || b.calls - a.calls);
+  }
+
+  /**
+   * Connection setup per host. A request opened a connection when it spent time
+   * connecting; browsers report -1 for requests sent on an existing connection.
+   */
+  private static connections(entries: HAREntry[], phases: PerformancePhases[], intervals: Interval[]): PerformanceReport['connections'] {
+    const hosts = new Map<string, { stats: PerformanceHost; intervals: Interval[] }>();
+
+    entries.forEach((entry, index) => {
+      let host: string;
+      try {
+        host = new URL(entry.request.url).host;
+      } catch {
+        host = 'unknown';
+      }
+      const group = hosts.get(host) || {
+        stats: { host, requests: 0, newConnections: 0, dnsLookups: 0, dnsTime: 0, connectTime: 0, sslTime: 0, maxConcurrency: 0 },
+        intervals: []
+      };
+      const { stats } = group;
+      const entryPhases = phases[index];
+      stats.requests++;
+      if (entryPhases.connect > 0 || entryPhases.ssl > 0) {
+        stats.newConnections++;
+      }
+      if (entryPhases.dns > 0) {
+        stats.dnsLookups++;
+      }
+      stats.dnsTime += entryPhases.dns;
+      stats.connectTime += entryPhases.connect;
+      stats.sslTime += entryPhases.ssl;
+      group.intervals.push(intervals[index]);
+      hosts.set(host, group);
+    });
+
+    const hostStats = Array.from(hosts.values())
+      .map(({ stats, intervals: hostIntervals }) => ({
+        ...stats,
+        dnsTime: Math.round(stats.dnsTime),
+        connectTime: Math.round(stats.connectTime),
+        sslTime: Math.round(stats.sslTime),
+        maxConcurrency: this.concurrency(hostIntervals).max
+      }))
+      .sort((a, b) => b.requests - a.requests || a.host.localeCompare(b.host));
+
+    const newConnections = hostStats.reduce((sum, host) => sum + host.newConnections, 0);
+    return {
+      newConnections,
+      reused: entries.length - newConnections,
+      reuseRate: entries.length > 0 ? Math.round(((entries.length - newConnections) / entries.length) * 100) : 0,
+      dnsLookups: hostStats.reduce((sum, host) => sum + host.dnsLookups, 0),
+      dnsTime: hostStats.reduce((sum, host) => sum + host.dnsTime, 0),
+      sslHandshakes: phases.filter(entryPhases => entryPhases.ssl > 0).length,
+      sslTime: hostStats.reduce((sum, host) => sum + host.sslTime, 0),
+      hosts: hostStats
+    };
+  }
+
+  private static payload(entries: HAREntry[], phases: PerformancePhases[]): PerformanceReport['payload'] {
+    const sizes = entries.map(entry => this.responseSize(entry));
+    const times = entries.map(entry => Math.max(0, entry.time));
+
+    const buckets: PerformanceSizeBucket[] = [];
+    for (const { label, min, max } of SIZE_BUCKETS) {
+      const indices = sizes
+        .map((size, index) => ({ size, index }))
+        .filter(({ size }) => size >= min && (max === undefined || size < max))
+        .map(({ index }) => index);
+      if (indices.length === 0) {
+        continue;
+      }
+
+      const bytes = indices.reduce((sum, index) => sum + sizes[index], 0);
+      const receiving = indices.reduce((sum, index) => sum + phases[index].receive, 0);
+      buckets.push({
+        label,
+        min,
+        ...(max !== undefined && { max }),
+        requests: indices.length,
+        medianTime: Math.round(this.median(indices.map(index => times[index]))),
+        medianDownload: Math.round(this.median(indices.map(index => phases[index].receive))),
+        throughput: receiving > 0 ? Math.round(bytes / (receiving / 1000)) : 0
+      });
+    }
+
+    const correlation = this.correlation(sizes, times);
+    return { buckets, ...(correlation !== undefined && { correlation }) };
+  }
+
+  /**
+   * Sweep over request start and end times to find how many requests were in flight
+   */
+  private static concurrency(intervals: Interval[]): { max: number; at: number; average: number } {
+    // Ends sort before starts at the same time, so back-to-back requests do not overlap
+    const events = intervals
+      .flatMap(({ start, end }) => [{ time: start, delta: 1 }, { time: end, delta: -1 }])
+      .sort((a, b) => a.time - b.time || a.delta - b.delta);
+
+    let current = 0;
+    let max = 0;
+    let at = 0;
+    let busy = 0;
+    let previous = 0;
+    for (const event of events) {
+      if (current > 0) {
+        busy += event.time - previous;
+      }
+      previous = event.time;
+      current += event.delta;
+      if (current > max) {
+        max = current;
+        at = event.time;
+      }
+    }
+
+    const inFlight = intervals.reduce((sum, { start, end }) => sum + (end - start), 0);
+    return { max, at, average: busy > 0 ? Math.round((inFlight / busy) * 10) / 10 : max };
+  }
+
+  /**
+   * Timing phases with HAR's -1 (not applicable) as 0, and the TLS handshake taken out of connect
+   */
+  static phases(entry: HAREntry): PerformancePhases {
+    const value = (time: number | undefined) => (time !== undefined && time > 0 ? time : 0);
+    const { timings } = entry;
+    const ssl = value(timings.ssl);
+    return {
+      blocked: value(timings.blocked),
+      dns: value(timings.dns),
+      connect: Math.max(0, value(timings.connect) - ssl),
+      ssl,
+      send: value(timings.send),
+      wait: value(timings.wait),
+      receive: value(timings.receive)
+    };
+  }
+
+  private static roundPhases(phases: PerformancePhases): PerformancePhases {
+    const rounded = this.emptyPhases();
+    PHASES.forEach(phase => {
+      rounded[phase] = Math.round(phases[phase]);
+    });
+    return rounded;
+  }
+
+  private static emptyPhases(): PerformancePhases {
+    return { blocked: 0, dns: 0, connect: 0, ssl: 0, send: 0, wait: 0, receive: 0 };
+  }
+
+  private static interval(entry: HAREntry): Interval {
+    const start = new Date(entry.startedDateTime).getTime() || 0;
+    return { start, end: start + Math.max(0, entry.time) };
+  }
+
+  /**
+   * Bytes received for the body: the transferred size when known, else the decoded size
+   */
+  private static responseSize(entry: HAREntry): number {
+    const { bodySize, content } = entry.response;
+    return bodySize > 0 ? bodySize : Math.max(0, content.size || 0);
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) {
+      return 0;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private static correlation(xs: number[], ys: number[]): number | undefined {
+    if (xs.length < 3) {
+      return undefined;
+    }
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    const meanX = mean(xs);
+    const meanY = mean(ys);
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    xs.forEach((x, index) => {
+      covariance += (x - meanX) * (ys[index] - meanY);
+      varianceX += (x - meanX) ** 2;
+      varianceY += (ys[index] - meanY) ** 2;
+    });
+    if (varianceX === 0 || varianceY === 0) {
+      return undefined;
+    }
+    return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100;
+  }
+
+  private static formatDuration(ms: number): string {
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+  }
+}
@@ -0,0 +1,364 @@
+import {
+  HARFile,
+  HAREntry,
+  HARPage,
+  LLMConversation,
+  DedupeStrategy,
+  DedupeGroup,
+  TokenBudgetReport,
+  HarToLlmOptions
+} from './types';
+import { HARConverter } from './converter';
+import { Formatters, OutputFormatter } from './formatters';
+import { Redactor } from './redactor';
+import { TokenBudget } from './budget';
+import { HARStreamReader } from './stream';
+import { HeaderPolicy } from './headers';
+import { TemplateFormatter } from './template';
+import { EntryQuery } from './query';
+import { EntrySelector } from './selection';
+import { HARSources } from './sources';
+
+export interface FilterStage {
+  name: string;
+  /** Shown in progress messages, e.g. "with methods: GET, POST" */
+  description?: string;
+  test(entry: HAREntry): boolean;
+}
+
+export interface TransformStage {
+  name: string;
+  apply(entry: HAREntry): HAREntry;
+}
+
+export interface PipelineOptions extends HarToLlmOptions {
+  /** Receives progress messages, e.g. for verbose output */
+  log?: (message: string) => void;
+}
+
+export interface PipelineResult {
+  output: string;
+  /** Number of entries loaded */
+  total: number;
+  /** Kept entries, after transforms, deduplication and redaction */
+  entries: HAREntry[];
+  conversations: LLMConversation[];
+  /** Duplicate groups, empty when deduplication is disabled */
+  groups: DedupeGroup[];
+  budget?: TokenBudgetReport;
+  /** Position of an entry (kept or absorbed) in the loaded file */
+  indexOf(entry: HAREntry): number;
+}
+
+/**
+ * Composable conversion pipeline: load → select → filter → transform → dedupe → redact → format.
+ *
+ * Built-in filters, deduplication, redaction, header policy and output format
+ * are configured from options; custom filters and transforms are added with
+ * `addFilter` and `addTransform`, and custom formats are registered with
+ * `Formatters.register`, loaded from modules with the `formatters` option, or
+ * rendered from a `template` file. The CLI is a thin wrapper around this class.
+ */
+export class Pipeline {
+  private readonly options: PipelineOptions;
+  private readonly filters: FilterStage[];
+  private readonly transforms: TransformStage[] = [];
+  private readonly strategy: DedupeStrategy;
+  private readonly redactor?: Redactor;
+  private readonly headerPolicy?: HeaderPolicy;
+  private formatter: OutputFormatter;
+
+  constructor(options: PipelineOptions = {}) {
+    this.options = options;
+    this.strategy = options.deduplicate === false ? 'none' : options.dedupe || 'semantic';
+    if (!HARConverter.DEDUPE_STRATEGIES.includes(this.strategy)) {
+      throw new Error(`Unknown deduplication strategy: ${this.strategy}. Available strategies: ${HARConverter.DEDUPE_STRATEGIES.join(', ')}`);
+    }
+    if (options.keep && !HARConverter.DEDUPE_KEEP.includes(options.keep)) {
+      throw new Error(`Unknown representative: ${options.keep}. Available choices: ${HARConverter.DEDUPE_KEEP.join(', ')}`);
+    }
+
+    this.filters = Pipeline.createFilters(options);
+    this.redactor = Pipeline.createRedactor(options);
+    (options.formatters || []).forEach(specifier => Formatters.load(specifier));
+    this.formatter = options.template && !options.summary
+      ? TemplateFormatter.fromFile(options.template)
+      : Formatters.get(options.summary ? 'summary' : options.format || 'markdown');
+    if (options.headers || options.uselessHeaders) {
+      this.headerPolicy = new HeaderPolicy(options.headers).extend({ deny: options.uselessHeaders });
+    }
+  }
+
+  /**
+   * Create the built-in filter stages for the filter options, in the order they run
+   */
+  static createFilters(options: HarToLlmOptions): FilterStage[] {
+    const stages: FilterStage[] = [];
+    const add = (name: string, description: string, filter: Parameters<typeof HARConverter.filterEntries>[1]) => {
+      stages.push({
+        name,
+        description,
+        test: entry => HARConverter.filterEntries([entry], { ...filter, deduplicate: false }).length > 0
+      });
+    };
+
+    const { methods, statusCodes, domains, excludeDomains, minDuration, maxDuration, operations, where } = options;
+    if (methods) add('methods', `with methods: ${methods.join(', ')}`, { methods });
+    if (statusCodes) add('status', `with status codes: ${statusCodes.join(', ')}`, { statusCodes });
+    if (domains) add('domains', `with domains: ${domains.join(', ')}`, { domains });
+    if (excludeDomains) add('exclude-domains', `excluding domains: ${excludeDomains.join(', ')}`, { excludeDomains });
+    if (minDuration) add('min-duration', `with min duration: ${minDuration}ms`, { minDuration });
+    if (maxDuration) add('max-duration', `with max duration: ${maxDuration}ms`, { maxDuration });
+    if (operations) add('operations', `with GraphQL operations: ${operations.join(', ')}`, { operations });
+    if (where !== undefined) {
+      // Parse once, up front, so syntax errors surface before any entry is read
+      const query = EntryQuery.parse(where);
+      stages.push({ name: 'where', description: `where ${where}`, test: entry => query.test(entry) });
+    }
+
+    return stages;
+  }
+
+  /**
+   * Create a redactor for the redaction options, or undefined if nothing is redacted
+   */
+  static createRedactor(options: HarToLlmOptions): Redactor | undefined {
+    const patterns = options.redactPatterns || [];
+    if (!options.redact && !options.redactHeaders && !options.redactKeys && patterns.length === 0) {
+      return undefined;
+    }
+
+    return new Redactor({
+      rules: Array.isArray(options.redact) ? options.redact : undefined,
+      headers: options.redactHeaders,
+      keys: options.redactKeys,
+      patterns: patterns.map(pattern => ({ name: 'custom', pattern: new RegExp(pattern, 'g') })),
+      deterministic: options.deterministic
+    });
+  }
+
+  /**
+   * Load a HAR file from disk, merge several files, or pass an already parsed one through
+   */
+  static async load(source: string | string[] | HARFile): Promise<HARFile> {
+    if (typeof source === 'string') {
+      return HARStreamReader.readFile(source);
+    }
+    return Array.isArray(source) ? HARSources.load(source) : source;
+  }
+
+  /**
+   * Add a filter stage; entries it rejects are dropped before transforms and deduplication
+   */
+  addFilter(stage: FilterStage): this {
+    this.filters.push(stage);
+    return this;
+  }
+
+  /**
+   * Add a transform stage, applied to every entry that passes the filters
+   */
+  addTransform(stage: TransformStage): this {
+    this.transforms.push(stage);
+    return this;
+  }
+
+  /**
+   * Use a registered format by name, or a formatter object directly
+   */
+  setFormatter(formatter: OutputFormatter | string): this {
+    this.formatter = typeof formatter === 'string' ? Formatters.get(formatter) : formatter;
+    return this;
+  }
+
+  /**
+   * Check whether output can be written while the file is read: the format must render
+   * one entry at a time, and deduplication and selection must be able to decide on each entry as it arrives
+   */
+  canStream(): boolean {
+    return !!this.formatter.streaming && !this.options.summary && !this.options.maxTokens && !this.options.bySource &&
+      (this.options.keep || 'first') === 'first' && !EntrySelector.isActive(this.options);
+  }
+
+  /**
+   * Load a HAR file, or several merged in order of start time, and run every stage over it
+   */
+  async run(source: string | string[] | HARFile): Promise<PipelineResult> {
+    if (typeof source === 'string' || Array.isArray(source)) {
+      [source].flat().forEach(file => this.log(`Reading HAR file: ${file}`));
+    }
+    const har = await Pipeline.load(source);
+    if (Array.isArray(source) && source.length > 1) {
+      this.log(`Merged ${har.log.entries.length} entries from ${source.length} files`);
+    }
+    return this.process(har.log.entries, har.log.pages);
+  }
+
+  /**
+   * Run every stage over a list of entries; pages are needed to select entries by page
+   */
+  process(entries: HAREntry[], pages: HARPage[] = []): PipelineResult {
+    return this.withHeaderPolicy(() => {
+      this.log(`Found ${entries.length} entries`);
+
+      const positions = new Map<HAREntry, number>();
+      entries.forEach((entry, index) => positions.set(entry, index));
+
+      // Select by page, time and position, which depend on the whole session
+      let current = entries;
+      for (const stage of EntrySelector.createStages(entries, pages, this.options)) {
+        current = current.filter(entry => stage.test(entry, positions.get(entry)!));
+        this.log(`Selected ${current.length} entries ${stage.description}`);
+      }
+
+      // Filter
+      for (const stage of this.filters) {
+        current = current.filter(entry => stage.test(entry));
+        this.log(`Filtered to ${current.length} entries ${stage.description || `with ${stage.name}`}`);
+      }
+
+      // Transform
+      for (const stage of this.transforms) {
+        current = current.map(entry => {
+          const transformed = stage.apply(entry);
+          positions.set(transformed, positions.get(entry)!);
+          return transformed;
+        });
+        this.log(`Applied ${stage.name} to ${current.length} entries`);
+      }
+
+      // Deduplicate
+      let groups: DedupeGroup[] = [];
+      if (this.strategy !== 'none') {
+        const originalCount = current.length;
+        const result = HARConverter.dedupe(current, { strategy: this.strategy, keep: this.options.keep, graphql: this.options.graphql });
+        current = result.entries;
+        groups = result.groups;
+
+        const removedCount = originalCount - current.length;
+        this.log(removedCount > 0
+          ? `Removed ${removedCount} duplicate requests (${current.length} unique requests remaining)`
+          : 'No duplicate requests found');
+      } else {
+        this.log('Deduplication disabled');
+      }
+
+      // Redact kept entries first, so deterministic placeholders are numbered in output order
+      if (this.redactor) {
+        const redactor = this.redactor;
+        const redact = (entry: HAREntry) => {
+          const redacted = redactor.redactEntry(entry);
+          positions.set(redacted, positions.get(entry)!);
+          return redacted;
+        };
+        const kept = new Map(current.map(entry => [entry, redact(entry)] as [HAREntry, HAREntry]));
+        current = current.map(entry => kept.get(entry)!);
+        groups = groups.map(group => ({ kept: kept.get(group.kept)!, absorbed: group.absorbed.map(redact) }));
+        this.log(`Redacted secrets and PII from ${current.length} entries`);
+      }
+
+      const result: PipelineResult = {
+        output: '',
+        total: entries.length,
+        entries: current,
+        conversations: current.map(entry => HARConverter.convertEntry(entry)),
+        groups,
+        indexOf: entry => positions.get(entry)!
+      };
+      if (current.length === 0) {
+        return result;
+      }
+
+      // Format
+      const kept = current;
+      const render = (conversations: LLMConversation[], indices: number[]) => {
+        const context = { entries: indices.map(index => kept[index]), options: this.options };
+        return this.options.bySource
+          ? Formatters.formatBySource(this.formatter, conversations, context)
+          : this.formatter.format(conversations, context);
+      };
+      result.output = render(result.conversations, result.conversations.map((_, index) => index));
+
+      // Degrade output until it fits the token budget
+      if (this.options.maxTokens && !this.options.summary) {
+        const fitted = TokenBudget.fit(result.conversations, render, {
+          maxTokens: this.options.maxTokens,
+          model: this.options.tokenizer
+        });
+        result.output = fitted.output;
+        result.conversations = fitted.conversations;
+        result.budget = fitted.report;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Filter, deduplicate, redact and format entries while the HAR file is being read,
+   * so memory use does not grow with the size of the capture. Nothing is written
+   * when no entries match.
+   */
+  async stream(file: string, write: (chunk: string) => void | Promise<void>): Promise<{ total: number; written: number }> {
+    const streaming = this.formatter.streaming;
+    if (!streaming || !this.canStream()) {
+      throw new Error(`Format ${this.formatter.name} with these options cannot be streamed`);
+    }
+
+    this.log(`Reading HAR file: ${file}`);
+    const previous = HARConverter.getHeaderPolicy();
+    if (this.headerPolicy) {
+      HARConverter.setHeaderPolicy(this.headerPolicy);
+    }
+
+    try {
+      const reader = new HARStreamReader(file);
+      const isUnique = HARConverter.createDeduplicator(this.strategy, { graphql: this.options.graphql });
+      let total = 0;
+      let written = 0;
+
+      for await (const entry of reader.entries()) {
+        total++;
+
+        if (!this.filters.every(stage => stage.test(entry))) {
+          continue;
+        }
+        const transformed = this.transforms.reduce((current, stage) => stage.apply(current), entry);
+        if (this.strategy !== 'none' && !isUnique(transformed)) {
+          continue;
+        }
+
+        if (written === 0) {
+          await write(streaming.begin());
+        }
+        const conversation = HARConverter.convertEntry(this.redactor ? this.redactor.redactEntry(transformed) : transformed);
+        await write(streaming.entry(conversation, written++));
+      }
+
+      if (written > 0) {
+        await write(streaming.end(written));
+      }
+      return { total, written };
+    } finally {
+      HARConverter.setHeaderPolicy(previous);
+    }
+  }
+
+  private withHeaderPolicy<T>(run: () => T): T {
+    const previous = HARConverter.getHeaderPolicy();
+    if (this.headerPolicy) {
+      HARConverter.setHeaderPolicy(this.headerPolicy);
+    }
+    try {
+      return run();
+    } finally {
+      HARConverter.setHeaderPolicy(previous);
+    }
+  }
+
+  private log(message: string): void {
+    if (this.options.log) {
+      this.options.log(message);
+    }
+  }
+}
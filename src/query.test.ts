@@ -0,0 +1,102 @@
+import { EntryQuery } from './query';
+import { harEntry, TestEntryOptions } from './test-helpers';
+
+const entry = (options: TestEntryOptions) => harEntry({ timings: { wait: 80, receive: 20 }, ...options });
+
+const ENTRIES = {
+  list: entry({
+    url: 'https://api.example.com/v1/users?page=2&sort=name',
+    headers: [{ name: 'X-Tenant', value: 'acme' }],
+    responseText: JSON.stringify({ data: { items: [{ id: 1, role: 'admin' }, { id: 2, role: 'user' }] }, next: null })
+  }),
+  create: entry({
+    method: 'POST',
+    url: 'https://api.example.com/v1/users',
+    status: 422,
+    time: 1500,
+    body: '{"name":"Ada","email":"ada@example.com"}',
+    responseText: '{"error":"invalid email"}'
+  }),
+  asset: entry({ url: 'https://cdn.example.com/static/js/app.min.js', status: 304, time: 5 })
+};
+
+const matching = (expression: string) => {
+  const query = EntryQuery.parse(expression);
+  return Object.entries(ENTRIES).filter(([, item]) => query.test(item)).map(([name]) => name);
+};
+
+describe('EntryQuery', () => {
+  it.each([
+    ['method == "POST"', ['create']],
+    ["method != 'POST'", ['list', 'asset']],
+    ['status >= 400', ['create']],
+    ['status == 4xx', ['create']],
+    ['status in [200, 3xx]', ['list', 'asset']],
+    ['duration > 1000', ['create']],
+    ['timings.wait == 80', ['list', 'create', 'asset']],
+    ['host == "cdn.example.com"', ['asset']],
+    ['path startswith "/v1/"', ['list', 'create']],
+    ['url endswith ".js"', ['asset']],
+    ['url ~ /users\\?page=\\d/', ['list']],
+    ['url !~ /users/', ['asset']],
+    ['path ~ "^/v1/users$"', ['list', 'create']],
+    ["host !~ 'api'", ['asset']],
+    ['path like "/static/*/*.js"', ['asset']],
+    ['path like "/static/*.js"', []],
+    ['path like "/static/**"', ['asset']],
+    ['query.page == 2', ['list']],
+    ['query.sort', ['list']],
+    ['request.headers.x-tenant == "acme"', ['list']],
+    ['request.headers.X-TENANT', ['list']],
+    ['request.body contains "ada@"', ['create']],
+    ['request.json.name == "Ada"', ['create']],
+    ['response.json.data.items[*].role == "admin"', ['list']],
+    ['response.json.data.items[1].id == 2', ['list']],
+    ['response.json..id == 1', ['list']],
+    ['response.json.$.data.items[0].id == 1', ['list']],
+    ['response.json.next == null', ['list']],
+    ['response.json.error', ['create']]
+  ])('matches %s', (expression, expected) => {
+    expect(matching(expression)).toEqual(expected);
+  });
+
+  it.each([
+    ['method == "GET" and status < 300', ['list']],
+    ['method == "POST" or status == 304', ['create', 'asset']],
+    ['method == "GET" && !(status == 304)', ['list']],
+    ['not request.body', ['list', 'asset']],
+    ['(status == 200 || status == 422) and duration < 1000', ['list']],
+    ['status == 200 or status == 304 and method == "POST"', ['list']]
+  ])('combines terms: %s', (expression, expected) => {
+    expect(matching(expression)).toEqual(expected);
+  });
+
+  it('resolves paths to every matching value', () => {
+    expect(EntryQuery.resolve(ENTRIES.list, 'response.json.data.items[*].id')).toEqual([1, 2]);
+    expect(EntryQuery.resolve(ENTRIES.list, 'host')).toEqual(['api.example.com']);
+  });
+
+  it.each([
+    ['', 'Invalid expression at position 1: expression is empty'],
+    ['status = 200', "unknown operator '=', use '=='"],
+    ['(status == 200', "expected ')' to close the '(' at position 1"],
+    ['status == 200 status', "unexpected 'status', expected 'and', 'or' or the end of the expression"],
+    ['status ==', "expected a value after '=='"],
+    ['status in 200', "'in' expects a list, e.g. [200, 201]"],
+    ['method == "GET', 'unterminated string'],
+    ['url ~ /(/', 'Invalid expression at position 7: invalid regular expression: Unterminated group'],
+    ["url ~ '('", 'Invalid expression at position 7: invalid regular expression: Unterminated group'],
+    ['url ~ ["a", "["]', 'Invalid expression at position 13: invalid regular expression: Unterminated character class'],
+    ['== 200', "expected a field, found '=='"]
+  ])('rejects %j', (expression, message) => {
+    expect(() => EntryQuery.parse(expression)).toThrow(message);
+  });
+
+  it('points at the offending position', () => {
+    expect(() => EntryQuery.parse('status == 200 status')).toThrow(
+      "Invalid expression at position 15: unexpected 'status', expected 'and', 'or' or the end of the expression\n" +
+      '  status == 200 status\n' +
+      '                ^'
+    );
+  });
+});
@@ -0,0 +1,593 @@
+import { HAREntry } from './types';
+import { BodyDecoder } from './decoder';
+
+type TokenType = 'word' | 'string' | 'number' | 'regex' | 'status' | 'op' | 'punct' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+  value?: any;
+}
+
+type Operator = '==' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~' | 'contains' | 'startswith' | 'endswith' | 'like' | 'in';
+
+type Literal =
+  | { kind: 'value'; value: string | number | boolean | null }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'status'; min: number; max: number }
+  | { kind: 'list'; items: Literal[] };
+
+type QueryNode =
+  | { kind: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { kind: 'not'; operand: QueryNode }
+  | { kind: 'exists'; path: string }
+  | { kind: 'compare'; path: string; operator: Operator; literal: Literal };
+
+type Segment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; key: string };
+
+const WORD_OPERATORS: Operator[] = ['contains', 'startswith', 'endswith', 'like', 'in'];
+const SYMBOL_OPERATORS = ['==', '!=', '>=', '<=', '!~', '>', '<', '~'];
+
+// Short names for common fields
+const ALIASES: Record<string, string> = {
+  method: 'request.method',
+  url: 'request.url',
+  status: 'response.status',
+  duration: 'time'
+};
+
+/**
+ * Boolean expression over HAR entries, as used by `--where`.
+ *
+ * Field paths address the HAR entry (`response.status`, `timings.wait`,
+ * `request.headers.x-tenant`), with shortcuts (`method`, `url`, `host`, `path`,
+ * `status`, `duration`, `query.<name>`), decoded bodies (`request.body`,
+ * `response.body`) and JSON lookups (`response.json.data.items[*].id`).
+ * Comparisons are `== != > >= < <=`, `~`/`!~` (regex), `contains`,
+ * `startswith`, `endswith`, `like` (glob, `*` within a path segment and `**`
+ * across segments) and `in [..]`; a bare path tests that a value is present.
+ * Terms combine with `and`/`&&`, `or`/`||`, `not`/`!` and parentheses. Status
+ * classes such as `4xx` match a range of codes.
+ */
+export class EntryQuery {
+  readonly source: string;
+  private readonly root: QueryNode;
+
+  private constructor(source: string, root: QueryNode) {
+    this.source = source;
+    this.root = root;
+  }
+
+  /**
+   * Parse an expression, throwing an error that points at the offending position
+   */
+  static parse(source: string): EntryQuery {
+    const parser = new QueryParser(source);
+    return new EntryQuery(source, parser.parse());
+  }
+
+  /**
+   * Check whether an entry matches the expression
+   */
+  test(entry: HAREntry): boolean {
+    return this.evaluate(this.root, entry, new Map());
+  }
+
+  /**
+   * Resolve a field path against an entry; wildcards and arrays can produce several values
+   */
+  static resolve(entry: HAREntry, path: string): any[] {
+    return EntryQuery.resolvePath(entry, path, new Map());
+  }
+
+  private evaluate(node: QueryNode, entry: HAREntry, cache: Map<string, any>): boolean {
+    switch (node.kind) {
+      case 'and':
+        return this.evaluate(node.left, entry, cache) && this.evaluate(node.right, entry, cache);
+      case 'or':
+        return this.evaluate(node.left, entry, cache) || this.evaluate(node.right, entry, cache);
+      case 'not':
+        return !this.evaluate(node.operand, entry, cache);
+      case 'exists':
+        return EntryQuery.resolvePath(entry, node.path, cache)
+          .some(value => value !== undefined && value !== null && value !== false && value !== '');
+      case 'compare': {
+        const values = EntryQuery.resolvePath(entry, node.path, cache).filter(value => value !== undefined);
+        // Negated operators hold when no value matches, including when the field is missing
+        if (node.operator === '!=' || node.operator === '!~') {
+          const positive = node.operator === '!=' ? '==' : '~';
+          return !values.some(value => EntryQuery.compare(value, positive, node.literal));
+        }
+        return values.some(value => EntryQuery.compare(value, node.operator, node.literal));
+      }
+    }
+  }
+
+  private static compare(value: any, operator: Operator, literal: Literal): boolean {
+    if (literal.kind === 'list') {
+      return operator === 'in'
+        ? literal.items.some(item => this.compare(value, '==', item))
+        : literal.items.some(item => this.compare(value, operator, item));
+    }
+
+    if (literal.kind === 'status') {
+      const number = Number(value);
+      const inRange = !isNaN(number) && number >= literal.min && number <= literal.max;
+      return operator === '==' || operator === 'in' ? inRange : false;
+    }
+
+    const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+    if (literal.kind === 'regex') {
+      return literal.regex.test(text);
+    }
+
+    const expected = literal.value;
+    switch (operator) {
+      case '==':
+      case 'in':
+        if (typeof expected === 'number' || typeof value === 'number') {
+          return Number(value) === Number(expected) && text !== '';
+        }
+        if (typeof expected === 'boolean' || expected === null) {
+          return value === expected || text === String(expected);
+        }
+        return text === expected;
+      case '>':
+      case '>=':
+      case '<':
+      case '<=': {
+        const numeric = typeof expected === 'number' && text !== '' && !isNaN(Number(value));
+        const a: number | string = numeric ? Number(value) : text;
+        const b: number | string = numeric ? (expected as number) : String(expected);
+        return operator === '>' ? a > b : operator === '>=' ? a >= b : operator === '<' ? a < b : a <= b;
+      }
+      case 'contains':
+        return text.includes(String(expected));
+      case 'startswith':
+        return text.startsWith(String(expected));
+      case 'endswith':
+        return text.endsWith(String(expected));
+      case 'like':
+        return this.globToRegex(String(expected)).test(text);
+      default:
+        return false;
+    }
+  }
+
+  private static globToRegex(glob: string): RegExp {
+    const pattern = glob
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(piece => piece.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\?/g, '[^/]'))
+        .join('[^/]*'))
+      .join('.*');
+    return new RegExp(`^${pattern}$`);
+  }
+
+  private static resolvePath(entry: HAREntry, path: string, cache: Map<string, any>): any[] {
+    const [head, ...rest] = path.split('.');
+    const field = ALIASES[head] ? [ALIASES[head], ...rest].join('.') : path;
+    const url = () => {
+      if (!cache.has('url')) {
+        try {
+          cache.set('url', new URL(entry.request.url));
+        } catch {
+          cache.set('url', undefined);
+        }
+      }
+      return cache.get('url') as URL | undefined;
+    };
+
+    if (field === 'host') {
+      return [url()?.hostname];
+    }
+    if (field === 'path') {
+      return [url()?.pathname];
+    }
+    if (head === 'query') {
+      return this.walk([entry.request.queryString], this.segments(rest.join('.')));
+    }
+
+    const body = (side: 'request' | 'response'): string | undefined => {
+      const key = `${side}.body`;
+      if (!cache.has(key)) {
+        cache.set(key, side === 'request'
+          ? entry.request.postData?.text
+          : BodyDecoder.decode(entry.response.content, entry.response.headers)?.text);
+      }
+      return cache.get(key);
+    };
+
+    const json = field.match(/^(request|response)\.json(.*)$/);
+    if (json) {
+      const side = json[1] as 'request' | 'response';
+      const key = `${side}.json`;
+      if (!cache.has(key)) {
+        try {
+          cache.set(key, JSON.parse(body(side) || ''));
+        } catch {
+          cache.set(key, undefined);
+        }
+      }
+      const parsed = cache.get(key);
+      return parsed === undefined ? [] : this.walk([parsed], this.segments(json[2].replace(/^\.?\$/, '')));
+    }
+
+    if (field === 'request.body' || field === 'response.body') {
+      return [body(field.split('.')[0] as 'request' | 'response')];
+    }
+
+    return this.walk([entry], this.segments(field));
+  }
+
+  /**
+   * Split a path like `data.items[*].id` or `..id` into segments
+   */
+  private static segments(path: string): Segment[] {
+    const segments: Segment[] = [];
+    const pattern = /\.\.([^.[\]]+)|\.?\[(\d+|\*|'[^']*'|"[^"]*")\]|\.?([^.[\]]+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(path)) !== null) {
+      if (match[1] !== undefined) {
+        segments.push({ type: 'descendant', key: match[1] });
+      } else if (match[2] !== undefined) {
+        const inner = match[2];
+        if (inner === '*') {
+          segments.push({ type: 'wildcard' });
+        } else if (/^\d+$/.test(inner)) {
+          segments.push({ type: 'index', index: Number(inner) });
+        } else {
+          segments.push({ type: 'key', key: inner.slice(1, -1) });
+        }
+      } else if (match[3] === '*') {
+        segments.push({ type: 'wildcard' });
+      } else {
+        segments.push({ type: 'key', key: match[3] });
+      }
+    }
+
+    return segments;
+  }
+
+  private static walk(values: any[], segments: Segment[]): any[] {
+    let current = values;
+
+    for (const segment of segments) {
+      const next: any[] = [];
+      for (const value of current) {
+        if (value === undefined || value === null) {
+          continue;
+        }
+        switch (segment.type) {
+          case 'wildcard':
+            next.push(...(Array.isArray(value) ? value : typeof value === 'object' ? Object.values(value) : []));
+            break;
+          case 'index':
+            if (Array.isArray(value)) {
+              next.push(value[segment.index]);
+            }
+            break;
+          case 'descendant':
+            next.push(...this.descendants(value, segment.key));
+            break;
+          case 'key':
+            next.push(...this.child(value, segment.key));
+            break;
+        }
+      }
+      current = next;
+    }
+
+    return current;
+  }
+
+  /**
+   * Look up a key: name/value lists (headers, query, cookies) match names case-insensitively,
+   * and other arrays are searched element by element
+   */
+  private static child(value: any, key: string): any[] {
+    if (Array.isArray(value)) {
+      if (value.length > 0 && value.every(item => item && typeof item === 'object' && 'name' in item && 'value' in item)) {
+        return value.filter(item => String(item.name).toLowerCase() === key.toLowerCase()).map(item => item.value);
+      }
+      return value.flatMap(item => (item && typeof item === 'object' ? this.child(item, key) : []));
+    }
+    return typeof value === 'object' ? [value[key]] : [];
+  }
+
+  private static descendants(value: any, key: string): any[] {
+    if (!value || typeof value !== 'object') {
+      return [];
+    }
+    const found: any[] = [];
+    for (const [childKey, child] of Object.entries(value)) {
+      if (!Array.isArray(value) && childKey === key) {
+        found.push(child);
+      }
+      found.push(...this.descendants(child, key));
+    }
+    return found;
+  }
+}
+
+/**
+ * Recursive-descent parser for query expressions
+ */
+class QueryParser {
+  private readonly tokens: Token[];
+  private current = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = this.tokenize();
+  }
+
+  parse(): QueryNode {
+    if (this.peek().type === 'end') {
+      this.fail('expression is empty', 0);
+    }
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.fail(`unexpected '${token.text}', expected 'and', 'or' or the end of the expression`, token.position);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    let node = this.parseAnd();
+    while (this.matchWord('or') || this.matchOp('||')) {
+      node = { kind: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): QueryNode {
+    let node = this.parseUnary();
+    while (this.matchWord('and') || this.matchOp('&&')) {
+      node = { kind: 'and', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): QueryNode {
+    if (this.matchWord('not') || this.matchOp('!')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'punct' && token.text === '(') {
+      this.current++;
+      const node = this.parseOr();
+      const closing = this.peek();
+      if (closing.type !== 'punct' || closing.text !== ')') {
+        this.fail(`expected ')' to close the '(' at position ${token.position + 1}`, closing.position);
+      }
+      this.current++;
+      return node;
+    }
+
+    if (token.type !== 'word' || ['and', 'or', 'not'].includes(token.text.toLowerCase())) {
+      this.fail(token.type === 'end' ? 'expected a field, e.g. response.status' : `expected a field, found '${token.text}'`, token.position);
+    }
+    this.current++;
+
+    const operator = this.peek();
+    const isOperator = (operator.type === 'op' && SYMBOL_OPERATORS.includes(operator.text)) ||
+      (operator.type === 'word' && WORD_OPERATORS.includes(operator.text.toLowerCase() as Operator));
+    if (!isOperator) {
+      return { kind: 'exists', path: token.text };
+    }
+    this.current++;
+
+    const name = operator.text.toLowerCase() as Operator;
+    const literal = this.parseLiteral(name);
+    if (name === 'in' && literal.kind !== 'list') {
+      this.fail(`'in' expects a list, e.g. [200, 201]`, this.tokens[this.current - 1].position);
+    }
+    return { kind: 'compare', path: token.text, operator: name, literal };
+  }
+
+  private parseLiteral(operator: Operator): Literal {
+    const token = this.peek();
+    this.current++;
+
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return this.valueLiteral(token.value, operator, token.position);
+      case 'regex':
+        return { kind: 'regex', regex: token.value };
+      case 'status':
+        return { kind: 'status', min: token.value, max: token.value + 99 };
+      case 'word':
+        if (token.text === 'true' || token.text === 'false') {
+          return this.valueLiteral(token.text === 'true', operator, token.position);
+        }
+        if (token.text === 'null') {
+          return this.valueLiteral(null, operator, token.position);
+        }
+        if (['and', 'or', 'not'].includes(token.text.toLowerCase())) {
+          break;
+        }
+        // Unquoted words are read as strings, e.g. method == POST
+        return this.valueLiteral(token.text, operator, token.position);
+      case 'punct':
+        if (token.text === '[') {
+          const items: Literal[] = [];
+          if (this.peek().text !== ']') {
+            do {
+              items.push(this.parseLiteral(operator));
+            } while (this.matchPunct(','));
+          }
+          const closing = this.peek();
+          if (closing.text !== ']') {
+            this.fail(`expected ',' or ']' in list`, closing.position);
+          }
+          this.current++;
+          return { kind: 'list', items };
+        }
+        break;
+    }
+
+    return this.fail(token.type === 'end' ? `expected a value after '${operator}'` : `expected a value after '${operator}', found '${token.text}'`, token.position);
+  }
+
+  /**
+   * A plain value, or for '~' and '!~' its text compiled as a pattern, e.g. url ~ "/v[12]/"
+   */
+  private valueLiteral(value: string | number | boolean | null, operator: Operator, position: number): Literal {
+    return operator === '~' || operator === '!~'
+      ? { kind: 'regex', regex: this.compilePattern(String(value), '', position) }
+      : { kind: 'value', value };
+  }
+
+  private compilePattern(pattern: string, flags: string, position: number): RegExp {
+    try {
+      return new RegExp(pattern, flags);
+    } catch (error) {
+      // Keep only the reason, e.g. 'Unterminated group' from 'Invalid regular expression: /(/: Unterminated group'
+      const reason = error instanceof Error ? error.message.replace(/^Invalid regular expression: \/.*\/[a-z]*: /s, '') : String(error);
+      return this.fail(`invalid regular expression: ${reason}`, position);
+    }
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.source;
+    let i = 0;
+
+    const valueExpected = () => {
+      const last = tokens[tokens.length - 1];
+      return last && ((last.type === 'op' && last.text !== '!') || (last.type === 'punct' && (last.text === '[' || last.text === ',')) ||
+        (last.type === 'word' && WORD_OPERATORS.includes(last.text.toLowerCase() as Operator)));
+    };
+
+    while (i < source.length) {
+      const ch = source[i];
+
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+
+      // Quoted string
+      if (ch === '"' || ch === "'") {
+        let value = '';
+        let j = i + 1;
+        while (j < source.length && source[j] !== ch) {
+          if (source[j] === '\\' && j + 1 < source.length) {
+            j++;
+          }
+          value += source[j++];
+        }
+        if (j >= source.length) {
+          this.fail('unterminated string', i);
+        }
+        tokens.push({ type: 'string', text: source.slice(i, j + 1), position: i, value });
+        i = j + 1;
+        continue;
+      }
+
+      // Regular expression literal, where a value is expected
+      if (ch === '/' && valueExpected()) {
+        let j = i + 1;
+        let inClass = false;
+        while (j < source.length && (source[j] !== '/' || inClass)) {
+          if (source[j] === '\\') j++;
+          else if (source[j] === '[') inClass = true;
+          else if (source[j] === ']') inClass = false;
+          j++;
+        }
+        if (j >= source.length) {
+          this.fail('unterminated regular expression', i);
+        }
+        const flags = source.slice(j + 1).match(/^[a-z]*/)![0];
+        const regex = this.compilePattern(source.slice(i + 1, j), flags, i);
+        tokens.push({ type: 'regex', text: source.slice(i, j + 1 + flags.length), position: i, value: regex });
+        i = j + 1 + flags.length;
+        continue;
+      }
+
+      // Operators and punctuation
+      const op = ['&&', '||', ...SYMBOL_OPERATORS, '!'].find(candidate => source.startsWith(candidate, i));
+      if (op) {
+        tokens.push({ type: 'op', text: op, position: i });
+        i += op.length;
+        continue;
+      }
+      if ('()[],'.includes(ch)) {
+        tokens.push({ type: 'punct', text: ch, position: i });
+        i++;
+        continue;
+      }
+      if (ch === '=') {
+        this.fail(`unknown operator '=', use '=='`, i);
+      }
+
+      // Words: field paths, keywords, numbers and status classes
+      const word = source.slice(i).match(/^(?:[\w$@*.-]|\[[^\]\s]*\])+/);
+      if (!word) {
+        this.fail(`unexpected character '${ch}'`, i);
+      }
+      const text = word![0];
+      if (/^[1-5]xx$/i.test(text)) {
+        tokens.push({ type: 'status', text, position: i, value: Number(text[0]) * 100 });
+      } else if (/^-?\d+(\.\d+)?$/.test(text)) {
+        tokens.push({ type: 'number', text, position: i, value: Number(text) });
+      } else {
+        tokens.push({ type: 'word', text, position: i });
+      }
+      i += text.length;
+    }
+
+    tokens.push({ type: 'end', text: '', position: source.length });
+    return tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.current];
+  }
+
+  private matchWord(word: string): boolean {
+    const token = this.peek();
+    if (token.type === 'word' && token.text.toLowerCase() === word) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOp(op: string): boolean {
+    const token = this.peek();
+    if (token.type === 'op' && token.text === op) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunct(punct: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punct' && token.text === punct) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
+  private fail(message: string, position: number): never {
+    throw new Error(`Invalid expression at position ${position + 1}: ${message}\n  ${this.source}\n  ${' '.repeat(position)}^`);
+  }
+}
@@ -0,0 +1,429 @@
+import { HAREntry, RedactionOptions, RedactionPattern, RedactionRuleName } from './types';
+import { BodyDecoder } from './decoder';
+
+const ALL_RULES: RedactionRuleName[] = ['headers', 'cookies', 'jwt', 'api-keys', 'emails', 'phones', 'cards', 'keys'];
+
+// Headers whose values are credentials in their entirety
+const SECRET_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'apikey',
+  'x-auth-token',
+  'x-access-token',
+  'x-refresh-token',
+  'x-csrf-token',
+  'x-xsrf-token',
+  'x-amz-security-token',
+  'x-goog-api-key'
+];
+
+// Field names (lowercased, separators stripped) whose values are always secret
+const SECRET_KEYS = [
+  'password', 'passwd', 'pwd', 'pass', 'secret', 'token', 'auth', 'authorization',
+  'accesstoken', 'refreshtoken', 'idtoken', 'apikey', 'clientsecret', 'privatekey',
+  'session', 'sessionid', 'sid', 'csrf', 'xsrf', 'ssn', 'otp', 'pin', 'cvv', 'cvc'
+];
+const SECRET_KEY_FRAGMENTS = /password|passwd|secret|token|apikey|credential|privatekey/;
+
+const VALUE_PATTERNS: Array<{ rule: RedactionRuleName; kind: string; pattern: RegExp }> = [
+  { rule: 'jwt', kind: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g },
+  {
+    rule: 'api-keys',
+    kind: 'api-key',
+    pattern: /\b(?:(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|AIza[0-9A-Za-z_-]{35}|xox[abpors]-[A-Za-z0-9-]{10,}|sk-[A-Za-z0-9_-]{20,})\b/g
+  },
+  { rule: 'emails', kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { rule: 'cards', kind: 'card', pattern: /(?<!\d)[2-6](?:[ -]?\d){12,18}(?!\d)/g },
+  {
+    rule: 'phones',
+    kind: 'phone',
+    pattern: /(?<![\w+])\+\d{1,3}[\s.-]?\(?\d{1,4}\)?(?:[\s.-]?\d{2,4}){2,3}(?!\w)|(?<!\w)\(\d{3}\)\s?\d{3}[\s.-]\d{4}(?!\w)|(?<![\w-])\d{3}[.-]\d{3}[.-]\d{4}(?![\w-])/g
+  }
+];
+
+const PLACEHOLDER = /^\[REDACTED(?::[^\]]*)?\]$/;
+const AUTH_SCHEME = /^(Bearer|Basic|Digest|Token|Bot|ApiKey|Negotiate|NTLM|AWS4-HMAC-SHA256)\s+(.+)$/i;
+
+export class Redactor {
+  /**
+   * Names of all built-in redaction rules
+   */
+  static readonly RULES: readonly RedactionRuleName[] = ALL_RULES;
+
+  /**
+   * Check whether a header carries credentials, e.g. `Authorization` or `X-Api-Key`
+   */
+  static isCredentialHeader(name: string): boolean {
+    return SECRET_HEADERS.includes(name.toLowerCase());
+  }
+
+  private readonly rules: Set<RedactionRuleName>;
+  private readonly headers: Set<string>;
+  private readonly keys: Set<string>;
+  private readonly patterns: RedactionPattern[];
+  private readonly deterministic: boolean;
+  private readonly tokens = new Map<string, string>();
+  private readonly counters: Record<string, number> = {};
+
+  constructor(options: RedactionOptions = {}) {
+    const rules = options.rules || ALL_RULES;
+    const unknown = rules.filter(rule => !ALL_RULES.includes(rule));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown redaction rule(s): ${unknown.join(', ')}. Available rules: ${ALL_RULES.join(', ')}`);
+    }
+
+    this.rules = new Set(rules);
+    this.headers = new Set([
+      ...(this.rules.has('headers') ? SECRET_HEADERS : []),
+      ...(options.headers || []).map(header => header.toLowerCase())
+    ]);
+    this.keys = new Set((options.keys || []).map(key => this.normalizeKey(key)));
+    this.patterns = (options.patterns || []).map(({ name, pattern }) => ({
+      name,
+      pattern: pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g')
+    }));
+    this.deterministic = options.deterministic === true;
+  }
+
+  /**
+   * Redact secrets and PII from a list of HAR entries
+   */
+  redactEntries(entries: HAREntry[]): HAREntry[] {
+    return entries.map(entry => this.redactEntry(entry));
+  }
+
+  /**
+   * Redact secrets and PII from a single HAR entry, returning a copy
+   */
+  redactEntry(entry: HAREntry): HAREntry {
+    const { request, response } = entry;
+
+    return {
+      ...entry,
+      request: {
+        ...request,
+        url: this.redactUrl(request.url),
+        headers: request.headers.map(header => ({ ...header, value: this.redactHeader(header.name, header.value) })),
+        queryString: request.queryString.map(param => ({ ...param, value: this.redactField(param.name, param.value) })),
+        cookies: request.cookies.map(cookie => ({ ...cookie, value: this.redactCookie(cookie.value) })),
+        ...(request.postData && {
+          postData: {
+            ...request.postData,
+            text: this.redactBody(request.postData.text, request.postData.mimeType),
+            ...(request.postData.params && {
+              params: request.postData.params.map(param => (
+                param.value === undefined ? param : { ...param, value: this.redactField(param.name, param.value) }
+              ))
+            })
+          }
+        })
+      },
+      response: {
+        ...response,
+        headers: response.headers.map(header => ({ ...header, value: this.redactHeader(header.name, header.value) })),
+        cookies: response.cookies.map(cookie => ({ ...cookie, value: this.redactCookie(cookie.value) })),
+        content: this.redactContent(response.content, response.headers),
+        redirectURL: this.redactUrl(response.redirectURL)
+      }
+    };
+  }
+
+  /**
+   * Redact a response body, decoding base64 or compressed text first so it can be inspected
+   */
+  private redactContent(content: HAREntry['response']['content'], headers: HAREntry['response']['headers']): HAREntry['response']['content'] {
+    if (!content.text) {
+      return content;
+    }
+
+    const decoded = BodyDecoder.decode(content, headers)!;
+    if (decoded.binary) {
+      return content;
+    }
+
+    const { encoding, ...plain } = content;
+    const text = this.redactBody(decoded.text, content.mimeType);
+    return text === decoded.text ? content : { ...plain, text };
+  }
+
+  /**
+   * Redact every secret-shaped substring of a free-form text value
+   */
+  redactText(text: string): string {
+    let redacted = text;
+
+    for (const { rule, kind, pattern } of VALUE_PATTERNS) {
+      if (!this.rules.has(rule)) {
+        continue;
+      }
+      redacted = redacted.replace(pattern, match => {
+        if (rule === 'cards' && !this.passesLuhn(match)) {
+          return match;
+        }
+        return this.mask(kind, match);
+      });
+    }
+
+    for (const { name, pattern } of this.patterns) {
+      redacted = redacted.replace(pattern, match => this.mask(name, match));
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact a header value, masking known credential headers entirely
+   */
+  private redactHeader(name: string, value: string): string {
+    const key = name.toLowerCase();
+
+    if (this.rules.has('cookies') && key === 'cookie') {
+      return value
+        .split(/;\s*/)
+        .map(pair => this.redactCookiePair(pair))
+        .join('; ');
+    }
+
+    if (this.rules.has('cookies') && key === 'set-cookie') {
+      // Only the leading name=value pair is secret; attributes like Path and HttpOnly are kept
+      return value
+        .split('\n')
+        .map(cookie => {
+          const [pair, ...attributes] = cookie.split(';');
+          return [this.redactCookiePair(pair), ...attributes].join(';');
+        })
+        .join('\n');
+    }
+
+    if (this.headers.has(key)) {
+      const match = value.match(AUTH_SCHEME);
+      return match ? `${match[1]} ${this.mask('credential', match[2])}` : this.mask('credential', value);
+    }
+
+    return this.redactText(value);
+  }
+
+  /**
+   * Redact a single cookie name=value pair, keeping the name
+   */
+  private redactCookiePair(pair: string): string {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      return pair;
+    }
+    return `${pair.slice(0, separator)}=${this.redactCookie(pair.slice(separator + 1))}`;
+  }
+
+  /**
+   * Redact a cookie value
+   */
+  private redactCookie(value: string): string {
+    if (!this.rules.has('cookies') || value === '') {
+      return this.redactText(value);
+    }
+    return this.mask('cookie', value);
+  }
+
+  /**
+   * Redact a named field (query param, form field, JSON key)
+   */
+  private redactField(name: string, value: string): string {
+    if (value !== '' && this.isSecretKey(name)) {
+      return this.mask('secret', value);
+    }
+    return this.redactText(value);
+  }
+
+  /**
+   * Redact a request or response body according to its content type
+   */
+  private redactBody(text: string, mimeType?: string): string {
+    const type = (mimeType || '').toLowerCase();
+
+    if (type.includes('json') || /^\s*[[{]/.test(text)) {
+      try {
+        const json = JSON.parse(text);
+        const redacted = this.redactJson(json);
+        return JSON.stringify(redacted) === JSON.stringify(json) ? text : JSON.stringify(redacted);
+      } catch {
+        // Fall through to plain text redaction
+      }
+    }
+
+    if (type.includes('x-www-form-urlencoded')) {
+      return this.redactQuery(text);
+    }
+
+    return this.redactText(text);
+  }
+
+  /**
+   * Recursively redact JSON values, masking values under secret keys
+   */
+  private redactJson(value: any, key?: string): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactJson(item, key));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const redacted: any = {};
+      for (const [childKey, childValue] of Object.entries(value)) {
+        redacted[childKey] = this.redactJson(childValue, childKey);
+      }
+      return redacted;
+    }
+
+    if (key !== undefined && value !== null && value !== '' && this.isSecretKey(key)) {
+      return this.mask('secret', String(value));
+    }
+
+    return typeof value === 'string' ? this.redactText(value) : value;
+  }
+
+  /**
+   * Redact a URL: userinfo, path segments, query string and fragment
+   */
+  redactUrl(url: string): string {
+    if (!url) {
+      return url;
+    }
+
+    const hashIndex = url.indexOf('#');
+    const fragment = hashIndex >= 0 ? url.slice(hashIndex + 1) : undefined;
+    const withoutFragment = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+    const queryIndex = withoutFragment.indexOf('?');
+    const query = queryIndex >= 0 ? withoutFragment.slice(queryIndex + 1) : undefined;
+    const base = queryIndex >= 0 ? withoutFragment.slice(0, queryIndex) : withoutFragment;
+
+    const match = base.match(/^([a-z][a-z0-9+.-]*:\/\/)(?:([^/@]*)@)?([^/]*)(.*)$/i);
+    let redacted: string;
+
+    if (match) {
+      const [, scheme, userinfo, host, path] = match;
+      let authority = host;
+      if (userinfo !== undefined) {
+        const separator = userinfo.indexOf(':');
+        authority = separator >= 0
+          ? `${userinfo.slice(0, separator)}:${this.mask('credential', userinfo.slice(separator + 1))}@${host}`
+          : `${userinfo}@${host}`;
+      }
+      redacted = scheme + authority + this.redactPath(path);
+    } else {
+      redacted = this.redactPath(base);
+    }
+
+    if (query !== undefined) {
+      redacted += `?${this.redactQuery(query)}`;
+    }
+    if (fragment !== undefined) {
+      // OAuth implicit flows return tokens in the fragment
+      redacted += `#${fragment.includes('=') ? this.redactQuery(fragment) : fragment}`;
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact secret-shaped path segments
+   */
+  private redactPath(path: string): string {
+    return path
+      .split('/')
+      .map(segment => {
+        const decoded = this.decode(segment);
+        const redacted = this.redactText(decoded);
+        return redacted === decoded ? segment : this.encode(redacted);
+      })
+      .join('/');
+  }
+
+  /**
+   * Redact a URL-encoded query string or form body, preserving parameter order
+   */
+  private redactQuery(query: string): string {
+    return query
+      .split('&')
+      .map(pair => {
+        const separator = pair.indexOf('=');
+        if (separator === -1) {
+          return pair;
+        }
+        const name = pair.slice(0, separator);
+        const value = this.decode(pair.slice(separator + 1));
+        const redacted = this.redactField(this.decode(name), value);
+        return redacted === value ? pair : `${name}=${this.encode(redacted)}`;
+      })
+      .join('&');
+  }
+
+  /**
+   * Replace a secret with a placeholder, reusing the same token for repeated values in deterministic mode
+   */
+  private mask(kind: string, value: string): string {
+    if (PLACEHOLDER.test(value)) {
+      return value;
+    }
+
+    if (!this.deterministic) {
+      return `[REDACTED:${kind}]`;
+    }
+
+    let token = this.tokens.get(value);
+    if (!token) {
+      this.counters[kind] = (this.counters[kind] || 0) + 1;
+      token = `[REDACTED:${kind}:${this.counters[kind]}]`;
+      this.tokens.set(value, token);
+    }
+    return token;
+  }
+
+  /**
+   * Check if a field name denotes a secret value
+   */
+  private isSecretKey(name: string): boolean {
+    const key = this.normalizeKey(name);
+    if (this.keys.has(key)) {
+      return true;
+    }
+    return this.rules.has('keys') && (SECRET_KEYS.includes(key) || SECRET_KEY_FRAGMENTS.test(key));
+  }
+
+  /**
+   * Normalize a field name for comparison (lowercase, no separators)
+   */
+  private normalizeKey(name: string): string {
+    return name.toLowerCase().replace(/[-_.\s]/g, '');
+  }
+
+  /**
+   * Validate a candidate card number with the Luhn checksum
+   */
+  private passesLuhn(candidate: string): boolean {
+    const digits = candidate.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+      return value;
+    }
+  }
+
+  private encode(value: string): string {
+    // Keep placeholders readable inside URLs
+    return encodeURIComponent(value).replace(/%5B/g, '[').replace(/%5D/g, ']').replace(/%3A/g, ':');
+  }
+}
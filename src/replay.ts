@@ -0,0 +1,261 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as zlib from 'zlib';
+import { HAREntry, ReplayResult, ReplayReport } from './types';
+import { HARConverter } from './converter';
+import { BodyDecoder } from './decoder';
+
+export interface ReplayRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface ReplayResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** Sends one request; the default uses Node's http and https modules */
+export type ReplaySender = (request: ReplayRequest, timeout: number) => Promise<ReplayResponse>;
+
+export interface HARReplayOptions {
+  /** Origin (and optional path prefix) every request is sent to, e.g. http://localhost:3000 */
+  baseUrl?: string;
+  /** Targets for individual hosts, e.g. { 'api.example.com': 'http://localhost:3001' }; they take precedence over baseUrl */
+  hosts?: Record<string, string>;
+  /** Keep the captured Host header instead of the target's, for virtual-hosted servers */
+  preserveHost?: boolean;
+  /** Request timeout in ms (default 10000) */
+  timeout?: number;
+  /** Custom transport, e.g. for tests */
+  send?: ReplaySender;
+  /** Called after each request, e.g. for progress output */
+  onResult?: (result: ReplayResult) => void;
+}
+
+// Headers computed by the transport, or that would make the replayed response differ in encoding
+const SKIPPED_HEADERS = ['host', 'content-length', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'accept-encoding', 'te', 'trailer'];
+
+/**
+ * Re-sends captured requests, to the original hosts or to a local or staging
+ * server, and checks that each response has the recorded status and, for JSON
+ * bodies, the recorded structure (same keys, any values). Requests are sent one
+ * at a time in capture order, so flows that depend on earlier calls still work.
+ */
+export class HARReplayer {
+  /**
+   * Replay entries and report which ones behaved like the capture
+   */
+  static async replay(entries: HAREntry[], options: HARReplayOptions = {}): Promise<ReplayReport> {
+    const send = options.send || this.send;
+    const timeout = options.timeout ?? 10000;
+    const results: ReplayResult[] = [];
+
+    for (const [index, entry] of entries.entries()) {
+      const request = this.createRequest(entry, options);
+      const result: ReplayResult = {
+        index,
+        method: entry.request.method,
+        url: entry.request.url,
+        target: request.url,
+        passed: false,
+        failures: [],
+        expectedStatus: entry.response.status,
+        duration: 0,
+        comparedShape: false
+      };
+
+      const started = Date.now();
+      try {
+        const response = await send(request, timeout);
+        result.duration = Date.now() - started;
+        result.actualStatus = response.status;
+        this.compare(entry, response, result);
+      } catch (error) {
+        result.duration = Date.now() - started;
+        result.failures.push(`Request failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      result.passed = result.failures.length === 0;
+      results.push(result);
+      options.onResult?.(result);
+    }
+
+    const passed = results.filter(result => result.passed).length;
+    return {
+      target: options.baseUrl || (options.hosts && Object.keys(options.hosts).length > 0 ? 'mapped hosts' : 'original hosts'),
+      summary: { total: results.length, passed, failed: results.length - passed },
+      results
+    };
+  }
+
+  /**
+   * Build the request sent for an entry, with its URL rewritten to the target
+   */
+  static createRequest(entry: HAREntry, options: Pick<HARReplayOptions, 'baseUrl' | 'hosts' | 'preserveHost'> = {}): ReplayRequest {
+    const url = this.rewriteUrl(entry.request.url, options);
+    const headers: Record<string, string> = {};
+
+    entry.request.headers.forEach(({ name, value }) => {
+      const key = name.toLowerCase();
+      // HTTP/2 pseudo-headers such as :authority are not real headers
+      if (key.startsWith(':') || SKIPPED_HEADERS.includes(key)) {
+        return;
+      }
+      headers[key] = headers[key] !== undefined ? `${headers[key]}${key === 'cookie' ? '; ' : ', '}${value}` : value;
+    });
+
+    if (options.preserveHost) {
+      headers.host = new URL(entry.request.url).host;
+    }
+
+    const postData = entry.request.postData;
+    let body = postData?.text;
+    if (body === undefined && postData?.params && postData.params.length > 0) {
+      body = new URLSearchParams(postData.params.map(param => [param.name, param.value || ''] as [string, string])).toString();
+    }
+    if (body !== undefined && postData?.mimeType && headers['content-type'] === undefined) {
+      headers['content-type'] = postData.mimeType;
+    }
+
+    return { method: entry.request.method, url, headers, ...(body !== undefined && { body }) };
+  }
+
+  /**
+   * Replace the origin of a captured URL with the target for its host, keeping path and query
+   */
+  static rewriteUrl(url: string, options: Pick<HARReplayOptions, 'baseUrl' | 'hosts'>): string {
+    const original = new URL(url);
+    const target = options.hosts?.[original.host] ?? options.hosts?.[original.hostname] ?? options.baseUrl;
+    if (!target) {
+      return url;
+    }
+
+    const base = new URL(target);
+    const prefix = base.pathname.replace(/\/$/, '');
+    return `${base.origin}${prefix}${original.pathname}${original.search}`;
+  }
+
+  /**
+   * Render a report as markdown
+   */
+  static toMarkdown(report: ReplayReport): string {
+    const { summary } = report;
+    let output = `# Replay Report\n\n`;
+    output += `**Target:** ${report.target}\n`;
+    output += `**Result:** ${summary.failed === 0 ? 'PASS' : 'FAIL'} (${summary.passed} passed, ${summary.failed} failed, ${summary.total} total)\n\n`;
+
+    const failed = report.results.filter(result => !result.passed);
+    if (failed.length > 0) {
+      output += `## Failures\n\n`;
+      failed.forEach(result => {
+        output += `### ${result.index}. ${result.method} ${result.url}\n\n`;
+        output += `Sent to ${result.target}\n\n`;
+        result.failures.forEach(failure => {
+          output += `- ${failure}\n`;
+        });
+        output += '\n';
+      });
+    }
+
+    output += `## Results\n\n`;
+    output += `| # | Result | Request | Status | Duration |\n`;
+    output += `|---|--------|---------|--------|----------|\n`;
+    report.results.forEach(result => {
+      const status = result.actualStatus !== undefined
+        ? (result.actualStatus === result.expectedStatus ? `${result.actualStatus}` : `${result.expectedStatus} → ${result.actualStatus}`)
+        : `${result.expectedStatus} → error`;
+      output += `| ${result.index} | ${result.passed ? 'pass' : 'FAIL'} | ${result.method} ${result.url.replace(/\|/g, '\\|')} | ${status} | ${result.duration}ms |\n`;
+    });
+
+    return output;
+  }
+
+  /**
+   * Render a report as JSON, e.g. for CI checks
+   */
+  static toJSON(report: ReplayReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Compare a replayed response with the recorded one, adding a failure for each difference
+   */
+  private static compare(entry: HAREntry, response: ReplayResponse, result: ReplayResult): void {
+    if (response.status !== entry.response.status) {
+      result.failures.push(`Status ${response.status}, expected ${entry.response.status}`);
+    }
+
+    const recorded = this.parseJson(BodyDecoder.decode(entry.response.content, entry.response.headers)?.text);
+    if (recorded === undefined) {
+      return;
+    }
+
+    result.comparedShape = true;
+    const replayed = this.parseJson(response.body);
+    if (replayed === undefined) {
+      result.failures.push(`Expected a JSON body, got ${response.body ? `${response.headers['content-type'] || 'an unknown content type'}` : 'an empty body'}`);
+    } else if (!HARConverter.areJsonStructuresSimilar(recorded, replayed)) {
+      result.failures.push('JSON response structure differs from the capture');
+    }
+  }
+
+  private static parseJson(text: string | undefined): any {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Default transport, without any dependency beyond Node itself
+   */
+  private static send(request: ReplayRequest, timeout: number): Promise<ReplayResponse> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(request.url);
+      const transport = url.protocol === 'https:' ? https : http;
+      const req = transport.request(url, { method: request.method, headers: request.headers, timeout }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('error', reject);
+        res.on('end', () => {
+          const headers: Record<string, string> = {};
+          Object.entries(res.headers).forEach(([name, value]) => {
+            if (value !== undefined) {
+              headers[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+          });
+          try {
+            resolve({ status: res.statusCode || 0, headers, body: HARReplayer.decompress(Buffer.concat(chunks), headers['content-encoding']).toString('utf8') });
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+      req.on('timeout', () => req.destroy(new Error(`Timed out after ${timeout}ms`)));
+      req.on('error', reject);
+      req.end(request.body);
+    });
+  }
+
+  private static decompress(buffer: Buffer, encoding = ''): Buffer {
+    switch (encoding.trim().toLowerCase()) {
+      case 'gzip':
+      case 'x-gzip':
+        return zlib.gunzipSync(buffer);
+      case 'deflate':
+        return zlib.inflateSync(buffer);
+      case 'br':
+        return zlib.brotliDecompressSync(buffer);
+      default:
+        return buffer;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { JSONSchema } from './types';
+
+// String formats recognised in samples, checked in order
+const STRING_FORMATS: Array<[string, RegExp]> = [
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^[a-z][a-z0-9+.-]*:\/\/\S+$/i]
+];
+
+// Most distinct values a string field may have to be inferred as an enum
+const DEFAULT_ENUM_LIMIT = 10;
+
+export class SchemaInferrer {
+  /**
+   * Infer a JSON schema from a single JSON value
+   */
+  static infer(value: any): JSONSchema {
+    if (value === null) {
+      return { type: 'null' };
+    }
+
+    if (Array.isArray(value)) {
+      const items = this.inferFromSamples(value);
+      return items ? { type: 'array', items } : { type: 'array' };
+    }
+
+    if (typeof value === 'object') {
+      const properties: Record<string, JSONSchema> = {};
+      for (const [key, child] of Object.entries(value)) {
+        properties[key] = this.infer(child);
+      }
+      return { type: 'object', properties, required: Object.keys(properties) };
+    }
+
+    if (typeof value === 'number') {
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    }
+
+    if (typeof value === 'string') {
+      const format = this.detectFormat(value);
+      return format ? { type: 'string', format } : { type: 'string' };
+    }
+
+    return { type: typeof value };
+  }
+
+  /**
+   * Infer a single schema covering every sample, or undefined if there are none.
+   * With `enums`, string fields with few distinct, repeated values become enums.
+   */
+  static inferFromSamples(samples: any[], options: { enums?: boolean; enumLimit?: number } = {}): JSONSchema | undefined {
+    const schema = samples.reduce<JSONSchema | undefined>((merged, sample) => {
+      const inferred = this.infer(sample);
+      return merged ? this.merge(merged, inferred) : inferred;
+    }, undefined);
+
+    if (schema && options.enums) {
+      this.inferEnums(schema, samples, options.enumLimit ?? DEFAULT_ENUM_LIMIT);
+    }
+    return schema;
+  }
+
+  /**
+   * Detect the format of a string value, e.g. date-time, uuid, email or uri
+   */
+  static detectFormat(value: string): string | undefined {
+    return STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0];
+  }
+
+  /**
+   * Merge two schemas; properties missing from either side become optional
+   */
+  static merge(a: JSONSchema, b: JSONSchema): JSONSchema {
+    const typesA = this.typesOf(a);
+    const typesB = this.typesOf(b);
+    let types = Array.from(new Set([...typesA, ...typesB]));
+
+    // integer widens to number when both are observed
+    if (types.includes('integer') && types.includes('number')) {
+      types = types.filter(type => type !== 'integer');
+    }
+
+    const merged: JSONSchema = { type: types.length === 1 ? types[0] : types };
+
+    if (types.includes('object')) {
+      const objectA = typesA.includes('object');
+      const objectB = typesB.includes('object');
+      const properties: Record<string, JSONSchema> = {};
+      const keys = new Set([...Object.keys(a.properties || {}), ...Object.keys(b.properties || {})]);
+
+      for (const key of keys) {
+        const propertyA = a.properties?.[key];
+        const propertyB = b.properties?.[key];
+        properties[key] = propertyA && propertyB ? this.merge(propertyA, propertyB) : (propertyA || propertyB)!;
+      }
+
+      merged.properties = properties;
+      merged.required = objectA && objectB
+        ? (a.required || []).filter(key => (b.required || []).includes(key))
+        : (objectA ? a.required : b.required) || [];
+    }
+
+    if (types.includes('array')) {
+      if (a.items && b.items) {
+        merged.items = this.merge(a.items, b.items);
+      } else if (a.items || b.items) {
+        merged.items = a.items || b.items;
+      }
+    }
+
+    // Formats describe the string values only, so null and other types do not clear them
+    const formats = [a, b].filter(schema => this.typesOf(schema).includes('string')).map(schema => schema.format);
+    const format = formats.every(candidate => candidate === formats[0]) ? formats[0] : undefined;
+    if (format) {
+      merged.format = format;
+    }
+
+    if (a.enum && b.enum) {
+      merged.enum = this.sortEnum(Array.from(new Set([...a.enum, ...b.enum])));
+    }
+
+    return merged;
+  }
+
+  /**
+   * Infer a schema for a URL query or path value, which is always a string on the wire
+   */
+  static inferFromString(value: string): JSONSchema {
+    if (/^-?\d+$/.test(value)) {
+      return { type: 'integer' };
+    }
+    if (/^-?\d*\.\d+$/.test(value)) {
+      return { type: 'number' };
+    }
+    if (value === 'true' || value === 'false') {
+      return { type: 'boolean' };
+    }
+    return { type: 'string' };
+  }
+
+  /**
+   * Turn string fields into enums when their values repeat and there are at most `limit` of them
+   */
+  private static inferEnums(schema: JSONSchema, values: any[], limit: number): void {
+    const types = this.typesOf(schema);
+    if (types.includes('string') && types.every(type => type === 'string' || type === 'null') && !schema.format) {
+      const strings = values.filter(value => typeof value === 'string');
+      const distinct = Array.from(new Set<string>(strings));
+      if (distinct.length > 0 && distinct.length <= limit && strings.length >= 2 * distinct.length) {
+        schema.enum = this.sortEnum(types.includes('null') ? [...distinct, null] : distinct);
+      }
+    }
+
+    const objects = values.filter(value => value && typeof value === 'object' && !Array.isArray(value));
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      this.inferEnums(property, objects.filter(object => key in object).map(object => object[key]), limit);
+    }
+    if (schema.items) {
+      this.inferEnums(schema.items, values.filter(Array.isArray).flat(), limit);
+    }
+  }
+
+  private static sortEnum(values: Array<string | null>): Array<string | null> {
+    return values.sort((a, b) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)));
+  }
+
+  private static typesOf(schema: JSONSchema): string[] {
+    if (!schema.type) {
+      return [];
+    }
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+}
@@ -0,0 +1,284 @@
+import { HAREntry, EndpointSchema } from './types';
+import { EndpointSchemas, EndpointSamples } from './endpoints';
+import { TypeScriptGenerator } from './typescript';
+import { Redactor } from './redactor';
+
+export interface SDKOptions {
+  /** Default base URL of the client (default: the most frequent origin in the capture) */
+  baseUrl?: string;
+}
+
+interface AuthHeader {
+  name: string;
+  scheme?: string;
+}
+
+// Types of the placeholders produced by HARConverter.normalizeUrl
+const PATH_PARAM_TYPES: Record<string, string> = { id: 'number', uuid: 'string', objectId: 'string', hash: 'string' };
+
+// Runtime part of every generated client
+const CLIENT_RUNTIME = `export interface FetchResponse {
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  text(): Promise<string>;
+}
+
+/** A fetch-compatible function */
+export type FetchLike = (url: string, init: { method: string; headers: Record<string, string>; body?: string }) => Promise<FetchResponse>;
+
+/** Thrown for responses with a status outside 200-299 */
+export class ApiError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super(\`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestOptions {
+  query?: object;
+  body?: unknown;
+  contentType?: string;
+  auth?: Array<keyof AuthHeaders>;
+  host?: string;
+}
+`;
+
+/**
+ * Generates a TypeScript API client from captured traffic: one typed function
+ * per endpoint, with path parameters from the templated path, query and body
+ * types from EndpointSchemas, and the credential headers each endpoint was
+ * called with. Requests go through a pluggable fetch implementation.
+ */
+export class SDKGenerator {
+  /**
+   * Generate the source of a client module for the entries of a capture
+   */
+  static generate(entries: HAREntry[], options: SDKOptions = {}): string {
+    const endpoints = EndpointSchemas.build(entries);
+    const groups = EndpointSchemas.group(entries);
+    const authHeaders = this.findAuthHeaders(entries);
+    const origins = this.endpointOrigins(groups);
+    const primary = this.mostFrequentOrigin(entries);
+    const baseUrl = options.baseUrl || primary || 'http://localhost';
+    // Endpoints captured on other hosts keep their own base URL
+    const hosts = new Map<string, string>();
+    origins.forEach(origin => {
+      if (origin !== primary && !hosts.has(new URL(origin).host)) {
+        hosts.set(new URL(origin).host, origin);
+      }
+    });
+
+    let output = '// API client generated by har-to-llm from captured traffic\n';
+    output += EndpointSchemas.toTypeScript(endpoints).replace(/^\/\/ Types inferred from HAR traffic\n/, '');
+    output += '\n// Client\n\n';
+
+    if (authHeaders.length > 0) {
+      const lines = authHeaders.map(({ name, scheme }) => {
+        const doc = scheme ? `  /** Sent as "${scheme} <credentials>" in the capture */\n` : '';
+        return `${doc}  ${TypeScriptGenerator.propertyName(name)}?: string;`;
+      });
+      output += `/** Values of the credential headers observed in the capture */\nexport interface AuthHeaders {\n${lines.join('\n')}\n}\n\n`;
+    } else {
+      output += '/** Values of credential headers; none were observed in the capture */\nexport type AuthHeaders = Record<string, string>;\n\n';
+    }
+
+    if (hosts.size > 0) {
+      const lines = Array.from(hosts.entries()).map(([host, origin]) => `  ${this.quote(host)}: ${this.quote(origin)}`);
+      output += `/** Default base URLs of the endpoints captured on other hosts, by host */\nconst HOST_BASE_URLS = {\n${lines.join(',\n')}\n};\n\nexport type Host = keyof typeof HOST_BASE_URLS;\n\n`;
+    }
+
+    output += `export interface ClientOptions {
+  /** Base URL of the API (default: ${JSON.stringify(baseUrl)}) */
+  baseUrl?: string;
+${hosts.size > 0 ? `  /** Base URLs of the endpoints captured on other hosts, by host */
+  baseUrls?: Partial<Record<Host, string>>;
+` : ''}  /** Function used to send requests (default: the global fetch) */
+  fetch?: FetchLike;
+  /** Credential headers, sent to the endpoints that used them in the capture */
+  auth?: AuthHeaders;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+}
+
+`;
+    output += CLIENT_RUNTIME;
+    output += `
+/**
+ * Create a client for the API
+ */
+export function createClient(options: ClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? ${this.quote(baseUrl)}).replace(/\\/$/, '');
+  const send: FetchLike = options.fetch ?? ((url, init) => (globalThis as any).fetch(url, init));
+
+  async function request(method: string, path: string, init: RequestOptions = {}): Promise<any> {
+    const headers: Record<string, string> = { ...options.headers };
+    for (const name of init.auth || []) {
+      const value = options.auth?.[name];
+      if (value !== undefined) {
+        headers[name as string] = value;
+      }
+    }
+
+    let body: string | undefined;
+    if (init.body !== undefined) {
+      headers['content-type'] = init.contentType ?? 'application/json';
+      body = typeof init.body === 'string' ? init.body : JSON.stringify(init.body);
+    }
+
+    const query = Object.entries(init.query || {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => \`\${encodeURIComponent(key)}=\${encodeURIComponent(String(value))}\`)
+      .join('&');
+${hosts.size > 0 ? `    const host = init.host as Host | undefined;
+    const base = host ? (options.baseUrls?.[host] ?? HOST_BASE_URLS[host]).replace(/\\/$/, '') : baseUrl;
+` : `    const base = baseUrl;
+`}
+    const response = await send(\`\${base}\${path}\${query ? \`?\${query}\` : ''}\`, { method, headers, body });
+    const text = await response.text();
+    const data = text && /json/i.test(response.headers.get('content-type') || '') ? JSON.parse(text) : text;
+    if (!response.ok) {
+      throw new ApiError(response.status, data);
+    }
+    return data;
+  }
+
+  return {
+${endpoints.map(endpoint => {
+      const key = `${endpoint.method} ${endpoint.path}`;
+      const origin = origins.get(key);
+      return this.method(endpoint, groups.get(key)!, origin && origin !== primary ? new URL(origin).host : undefined);
+    }).join('\n')}
+  };
+}
+
+export type Client = ReturnType<typeof createClient>;
+`;
+
+    return output;
+  }
+
+  /**
+   * Generate the client method of one endpoint
+   */
+  private static method(endpoint: EndpointSchema, samples: EndpointSamples, host?: string): string {
+    const parameters: string[] = [];
+    const init: string[] = [];
+
+    const pathParams = Array.from(endpoint.path.matchAll(/\{((\w+?)\d*)\}/g));
+    pathParams.forEach(match => parameters.push(`${match[1]}: ${PATH_PARAM_TYPES[match[2]] || 'string'}`));
+    const path = endpoint.path
+      .split(/(\{\w+\})/)
+      .map(part => {
+        const param = part.match(/^\{(\w+)\}$/);
+        return param ? `\${encodeURIComponent(String(${param[1]}))}` : part.replace(/[`\\]|\$\{/g, match => `\\${match}`);
+      })
+      .join('');
+
+    const contentType = this.requestContentType(samples.entries);
+    if (endpoint.request) {
+      parameters.push(`body: ${endpoint.name}Request`);
+      init.push('body');
+      if (contentType && !/json/i.test(contentType)) {
+        init.push(`contentType: ${this.quote(contentType)}`);
+      }
+    } else if (contentType && /^multipart\//i.test(contentType)) {
+      // Multipart bodies are passed encoded, with the boundary they were encoded with
+      parameters.push('body: string', `contentType = ${this.quote(contentType)}`);
+      init.push('body', 'contentType');
+    } else if (contentType) {
+      // Other bodies that are not JSON, e.g. forms, are passed as encoded text
+      parameters.push('body: string');
+      init.push('body', `contentType: ${this.quote(contentType.split(';')[0].trim())}`);
+    }
+
+    if (endpoint.query) {
+      parameters.push(`query${(endpoint.query.required || []).length > 0 ? '' : '?'}: ${endpoint.name}Query`);
+      init.push('query');
+    }
+
+    const auth = this.findAuthHeaders(samples.entries).map(({ name }) => this.quote(name));
+    if (auth.length > 0) {
+      init.push(`auth: [${auth.join(', ')}]`);
+    }
+    if (host) {
+      init.push(`host: ${this.quote(host)}`);
+    }
+
+    const primary = EndpointSchemas.primaryStatus(endpoint);
+    const returns = primary && /^2/.test(primary) ? EndpointSchemas.responseName(endpoint, primary) : 'unknown';
+    const name = endpoint.name[0].toLowerCase() + endpoint.name.slice(1);
+    const args = init.length > 0 ? `, { ${init.join(', ')} }` : '';
+
+    return `    /** ${endpoint.method} ${endpoint.path.replace(/\*\//g, '*\\/')} */
+    ${name}(${parameters.join(', ')}): Promise<${returns}> {
+      return request(${this.quote(endpoint.method)}, \`${path}\`${args});
+    },`;
+  }
+
+  /**
+   * Credential headers sent in the entries, with the authorization scheme when there is one
+   */
+  private static findAuthHeaders(entries: HAREntry[]): AuthHeader[] {
+    const headers = new Map<string, AuthHeader>();
+
+    for (const entry of entries) {
+      for (const { name, value } of entry.request.headers) {
+        const key = name.toLowerCase();
+        if (!Redactor.isCredentialHeader(key) || headers.has(key)) {
+          continue;
+        }
+        const scheme = /authorization$/.test(key) ? value.match(/^([A-Za-z][\w-]*)\s+\S/)?.[1] : undefined;
+        headers.set(key, scheme ? { name: key, scheme } : { name: key });
+      }
+    }
+
+    return Array.from(headers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private static requestContentType(entries: HAREntry[]): string | undefined {
+    const postData = entries.find(entry => entry.request.postData?.text)?.request.postData;
+    return postData ? postData.mimeType.trim() || 'text/plain' : undefined;
+  }
+
+  /**
+   * Quote a string as a single-quoted TypeScript literal
+   */
+  private static quote(value: string): string {
+    return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+  }
+
+  /**
+   * The origin each endpoint was captured on, by endpoint key
+   */
+  private static endpointOrigins(groups: Map<string, EndpointSamples>): Map<string, string> {
+    const origins = new Map<string, string>();
+    for (const [key, samples] of groups) {
+      const origin = this.mostFrequentOrigin(samples.entries);
+      if (origin) {
+        origins.set(key, origin);
+      }
+    }
+    return origins;
+  }
+
+  private static mostFrequentOrigin(entries: HAREntry[]): string | undefined {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      try {
+        const origin = new URL(entry.request.url).origin;
+        counts.set(origin, (counts.get(origin) || 0) + 1);
+      } catch {
+        // Not an absolute URL
+      }
+    }
+
+    let best: string | undefined;
+    for (const [origin, count] of counts) {
+      if (best === undefined || count > counts.get(best)!) {
+        best = origin;
+      }
+    }
+    return best;
+  }
+}
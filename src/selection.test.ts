@@ -0,0 +1,114 @@
+import { EntrySelector } from './selection';
+import { harEntry } from './test-helpers';
+import { HARPage } from './types';
+
+const START = Date.parse('2024-03-01T10:00:00.000Z');
+
+const entry = (path: string, offset: number, pageref?: string, time = 100) => harEntry({
+  pageref,
+  startedDateTime: new Date(START + offset * 1000).toISOString(),
+  time,
+  url: `https://api.example.com${path}`,
+  status: path === '/checkout' ? 500 : 200
+});
+
+function page(id: string, title: string): HARPage {
+  return { id, title, startedDateTime: new Date(START).toISOString(), pageTimings: { onContentLoad: 0, onLoad: 0 } };
+}
+
+// Offsets in seconds from the start of the session
+const ENTRIES = [
+  entry('/home', 0, 'page_1'),
+  entry('/products', 10, 'page_1'),
+  entry('/cart', 30, 'page_2'),
+  entry('/checkout', 60, 'page_2', 2000),
+  entry('/confirm', 67, 'page_2'),
+  entry('/logout', 120)
+];
+const PAGES = [page('page_1', 'Shop - Home'), page('page_2', 'Checkout')];
+
+const paths = (options: Parameters<typeof EntrySelector.select>[2]) =>
+  EntrySelector.select(ENTRIES, PAGES, options).map(item => new URL(item.request.url).pathname);
+
+describe('EntrySelector', () => {
+  describe('pages', () => {
+    it('selects by page id or title substring', () => {
+      expect(paths({ pages: ['page_1'] })).toEqual(['/home', '/products']);
+      expect(paths({ pages: ['checkout'] })).toEqual(['/cart', '/checkout', '/confirm']);
+      expect(paths({ pages: ['home', 'page_2'] })).toEqual(['/home', '/products', '/cart', '/checkout', '/confirm']);
+    });
+
+    it('lists the available pages when none matches', () => {
+      expect(() => paths({ pages: ['admin'] })).toThrow("No page matches 'admin'. Available pages: page_1 (Shop - Home), page_2 (Checkout)");
+      expect(() => EntrySelector.select(ENTRIES, [], { pages: ['x'] })).toThrow('The HAR file has no pages');
+    });
+  });
+
+  describe('since and until', () => {
+    it('accepts offsets from the start and back from the end of the session', () => {
+      expect(paths({ since: '30s' })).toEqual(['/cart', '/checkout', '/confirm', '/logout']);
+      expect(paths({ until: '+1m' })).toEqual(['/home', '/products', '/cart', '/checkout']);
+      expect(paths({ since: '-60s' })).toEqual(['/checkout', '/confirm', '/logout']);
+      expect(paths({ since: '10000ms', until: '0.5m' })).toEqual(['/products', '/cart']);
+    });
+
+    it('accepts absolute timestamps', () => {
+      expect(paths({ since: '2024-03-01T10:01:00Z', until: '2024-03-01T10:01:30Z' })).toEqual(['/checkout', '/confirm']);
+    });
+
+    it('rejects invalid times', () => {
+      expect(() => paths({ since: 'yesterday' })).toThrow('Invalid time: yesterday');
+    });
+  });
+
+  describe('range', () => {
+    it('selects positions and inclusive ranges', () => {
+      expect(paths({ range: '0,2..3' })).toEqual(['/home', '/cart', '/checkout']);
+      expect(paths({ range: '4..' })).toEqual(['/confirm', '/logout']);
+      expect(paths({ range: '..1' })).toEqual(['/home', '/products']);
+      expect(paths({ range: '1-2' })).toEqual(['/products', '/cart']);
+    });
+
+    it.each(['', 'a..b', '..', '1,,2'])('rejects %j', range => {
+      expect(() => EntrySelector.parseRange(range)).toThrow('Invalid range');
+    });
+  });
+
+  describe('around', () => {
+    it('keeps entries within the window of a match, counting from its start to its end', () => {
+      // /checkout starts at 60s and takes 2s, so the window ends at 62s + 5s
+      expect(paths({ around: 'status >= 500' })).toEqual(['/checkout', '/confirm']);
+      expect(paths({ around: 'status >= 500', window: 30 })).toEqual(['/cart', '/checkout', '/confirm']);
+      expect(paths({ around: 'status >= 500', window: 0 })).toEqual(['/checkout']);
+    });
+
+    it('selects nothing when no entry matches', () => {
+      expect(paths({ around: 'status == 404' })).toEqual([]);
+    });
+
+    it('rejects negative windows', () => {
+      expect(() => paths({ around: 'status >= 500', window: -1 })).toThrow('Invalid window: -1');
+    });
+  });
+
+  it('combines options', () => {
+    expect(paths({ pages: ['page_2'], range: '3..' })).toEqual(['/checkout', '/confirm']);
+    expect(paths({ since: '5s', around: 'url endswith "/cart"', window: 20 })).toEqual(['/products', '/cart']);
+  });
+
+  it('reports whether any option is set', () => {
+    expect(EntrySelector.isActive({})).toBe(false);
+    expect(EntrySelector.isActive({ window: 10 })).toBe(false);
+    expect(EntrySelector.isActive({ around: 'status == 500' })).toBe(true);
+  });
+
+  it('describes each stage', () => {
+    const stages = EntrySelector.createStages(ENTRIES, PAGES, { pages: ['page_1'], since: '10s', range: '1..', around: 'status >= 500' });
+    expect(stages.map(stage => stage.description)).toEqual([
+      'on pages: page_1',
+      'started since 10s',
+      'in range 1..',
+      'within 5s of 1 entries matching status >= 500'
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { HAREntry, HARPage, HarToLlmOptions } from './types';
+import { EntryQuery } from './query';
+
+export type SelectionOptions = Pick<HarToLlmOptions, 'pages' | 'since' | 'until' | 'range' | 'around' | 'window'>;
+
+export interface SelectionStage {
+  name: string;
+  description: string;
+  test(entry: HAREntry, index: number): boolean;
+}
+
+// Seconds kept on each side of an --around match by default
+const DEFAULT_WINDOW = 5;
+
+const UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+/**
+ * Selects entries by their place in the session: page, start time, position
+ * in the file and proximity to other entries. Unlike filters, these need the
+ * whole capture, e.g. to find where the session starts or which entries
+ * match an `around` expression.
+ */
+export class EntrySelector {
+  /**
+   * Check whether any selection option is set
+   */
+  static isActive(options: SelectionOptions): boolean {
+    return !!(options.pages || options.since || options.until || options.range || options.around !== undefined);
+  }
+
+  /**
+   * Create a stage for each selection option set, in the order they run
+   */
+  static createStages(entries: HAREntry[], pages: HARPage[], options: SelectionOptions): SelectionStage[] {
+    const stages: SelectionStage[] = [];
+    const times = entries.map(entry => this.startTime(entry));
+    const known = times.filter(time => !isNaN(time));
+    const start = known.length > 0 ? known.reduce((min, time) => Math.min(min, time)) : 0;
+    const end = known.length > 0 ? known.reduce((max, time) => Math.max(max, time)) : 0;
+
+    if (options.pages) {
+      const ids = new Set(options.pages.flatMap(page => this.findPages(pages, page).map(match => match.id)));
+      stages.push({
+        name: 'pages',
+        description: `on pages: ${options.pages.join(', ')}`,
+        test: entry => entry.pageref !== undefined && ids.has(entry.pageref)
+      });
+    }
+
+    if (options.since || options.until) {
+      const since = options.since ? this.parseTime(options.since, start, end) : -Infinity;
+      const until = options.until ? this.parseTime(options.until, start, end) : Infinity;
+      const bounds = [options.since && `since ${options.since}`, options.until && `until ${options.until}`].filter(Boolean);
+      stages.push({
+        name: 'time',
+        description: `started ${bounds.join(' ')}`,
+        test: (_entry, index) => times[index] >= since && times[index] <= until
+      });
+    }
+
+    if (options.range) {
+      const inRange = this.parseRange(options.range);
+      stages.push({ name: 'range', description: `in range ${options.range}`, test: (_entry, index) => inRange(index) });
+    }
+
+    if (options.around !== undefined) {
+      const query = EntryQuery.parse(options.around);
+      const window = (options.window ?? DEFAULT_WINDOW) * 1000;
+      if (isNaN(window) || window < 0) {
+        throw new Error(`Invalid window: ${options.window}. Use a non-negative number of seconds`);
+      }
+      const anchors = entries
+        .map((entry, index) => ({ entry, time: times[index] }))
+        .filter(({ entry, time }) => !isNaN(time) && query.test(entry))
+        .map(({ entry, time }) => ({ from: time - window, to: time + Math.max(entry.time || 0, 0) + window }));
+      stages.push({
+        name: 'around',
+        description: `within ${window / 1000}s of ${anchors.length} entries matching ${options.around}`,
+        test: (_entry, index) => anchors.some(anchor => times[index] >= anchor.from && times[index] <= anchor.to)
+      });
+    }
+
+    return stages;
+  }
+
+  /**
+   * Apply the selection options to the entries of a capture
+   */
+  static select(entries: HAREntry[], pages: HARPage[], options: SelectionOptions): HAREntry[] {
+    const stages = this.createStages(entries, pages, options);
+    return entries.filter((entry, index) => stages.every(stage => stage.test(entry, index)));
+  }
+
+  /**
+   * Find pages by id, or by title (case-insensitive substring)
+   */
+  static findPages(pages: HARPage[], page: string): HARPage[] {
+    const byId = pages.filter(candidate => candidate.id === page);
+    if (byId.length > 0) {
+      return byId;
+    }
+
+    const byTitle = pages.filter(candidate => (candidate.title || '').toLowerCase().includes(page.toLowerCase()));
+    if (byTitle.length === 0) {
+      const available = pages.map(candidate => candidate.title ? `${candidate.id} (${candidate.title})` : candidate.id);
+      throw new Error(`No page matches '${page}'. ${available.length > 0 ? `Available pages: ${available.join(', ')}` : 'The HAR file has no pages'}`);
+    }
+    return byTitle;
+  }
+
+  /**
+   * Parse a point in time: an absolute timestamp, an offset from the start of the
+   * session (`30s`, `+2m`) or an offset back from its last entry (`-90s`)
+   */
+  static parseTime(value: string, start: number, end: number): number {
+    const offset = value.trim().match(/^([+-]?)(\d+(?:\.\d+)?)(ms|s|m|h)?$/);
+    if (offset) {
+      const duration = Number(offset[2]) * UNITS[offset[3] || 's'];
+      return offset[1] === '-' ? end - duration : start + duration;
+    }
+
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+      throw new Error(`Invalid time: ${value}. Use a timestamp (2024-03-01T10:00:00Z) or an offset such as 30s, +2m or -90s`);
+    }
+    return time;
+  }
+
+  /**
+   * Parse a comma-separated list of entry positions and inclusive ranges (`3`, `10..20`, `5..`, `..9`)
+   */
+  static parseRange(value: string): (index: number) => boolean {
+    const ranges = value.split(',').map(part => {
+      const match = part.trim().match(/^(\d+)?(?:(\.\.|-)(\d+)?)?$/);
+      if (!match || (match[1] === undefined && match[3] === undefined)) {
+        throw new Error(`Invalid range: ${part.trim() || value}. Use positions and ranges such as 3, 10..20, 5.. or ..9`);
+      }
+      const from = match[1] !== undefined ? Number(match[1]) : 0;
+      const to = match[2] ? (match[3] !== undefined ? Number(match[3]) : Infinity) : from;
+      return { from, to };
+    });
+
+    return index => ranges.some(range => index >= range.from && index <= range.to);
+  }
+
+  private static startTime(entry: HAREntry): number {
+    return Date.parse(entry.startedDateTime);
+  }
+}
@@ -0,0 +1,92 @@
+import { SnippetGenerator, SnippetRequest } from './snippets';
+import { LLMConversation } from './types';
+
+const generate = (language: string, request: Partial<SnippetRequest>) =>
+  SnippetGenerator.get(language).generate({ method: 'GET', url: 'https://api.example.com/items', headers: [], ...request });
+
+describe('SnippetGenerator', () => {
+  describe('curl', () => {
+    it('closes and reopens single-quoted words around quotes', () => {
+      expect(generate('curl', {
+        method: 'POST',
+        headers: [{ name: 'X-Note', value: "it's" }],
+        body: `{"name":"O'Brien"}`
+      })).toBe(`curl -X POST -H 'X-Note: it'\\''s' --data-raw '{"name":"O'\\''Brien"}' 'https://api.example.com/items'`);
+    });
+
+    it('sends @-prefixed form values literally and reads file parts', () => {
+      expect(generate('curl', {
+        method: 'POST',
+        parts: [{ name: 'handle', value: '@ada', size: 4 }, { name: 'avatar', filename: 'me "1".png', contentType: 'image/png', size: 0 }]
+      })).toBe(`curl -X POST --form-string 'handle=@ada' -F 'avatar=@"me \\"1\\".png";type=image/png' 'https://api.example.com/items'`);
+    });
+
+    it('turns off URL globbing only for URLs with brackets or braces', () => {
+      expect(generate('curl', { url: 'https://api.example.com/items?filter[id]={1}' }))
+        .toBe(`curl -X GET -g 'https://api.example.com/items?filter[id]={1}'`);
+      expect(generate('curl', {})).toBe(`curl -X GET 'https://api.example.com/items'`);
+    });
+
+    it('quotes methods that are not plain words', () => {
+      expect(generate('curl', { method: 'M-SEARCH' })).toBe(`curl -X 'M-SEARCH' 'https://api.example.com/items'`);
+    });
+  });
+
+  describe('string literals', () => {
+    it.each(['fetch', 'axios', 'python-requests', 'python-httpx', 'go'])('replaces lone surrogates in %s', language => {
+      const code = generate(language, { method: 'POST', body: 'half \ud83d and whole 😀' });
+      expect(code).toContain('"half \\ufffd and whole 😀"');
+      expect(code).not.toMatch(/\\ud[89a-f]/i);
+    });
+
+    it('encodes non-ASCII Python bodies as UTF-8', () => {
+      expect(generate('python-requests', { method: 'POST', body: 'café' })).toContain('data="café".encode("utf-8"),');
+      expect(generate('python-httpx', { method: 'POST', body: 'cafe' })).toContain('content="cafe",');
+    });
+  });
+
+  describe('powershell', () => {
+    it('doubles straight and typographic single quotes', () => {
+      const code = generate('powershell', {
+        method: 'POST',
+        headers: [{ name: 'X-Note', value: 'it’s ‘quoted’' }, { name: 'content-type', value: 'text/plain' }],
+        body: "it's"
+      });
+      expect(code).toBe([
+        `$headers = [ordered]@{\n    'X-Note' = 'it’’s ‘‘quoted’’'\n}`,
+        `$body = 'it''s'`,
+        `$response = Invoke-WebRequest -Uri 'https://api.example.com/items' -Method POST -Headers $headers -SkipHeaderValidation -ContentType 'text/plain' -Body $body -SkipHttpErrorCheck`,
+        '$response.StatusCode',
+        '$response.Content'
+      ].join('\n'));
+    });
+
+    it('uses -CustomMethod for methods Invoke-WebRequest does not know', () => {
+      expect(generate('powershell', { method: 'PROPFIND' })).toContain(`-CustomMethod 'PROPFIND'`);
+    });
+  });
+
+  it('leaves out computed headers and adds the captured content type', () => {
+    const conversation = {
+      request: {
+        method: 'POST',
+        url: 'https://api.example.com/items',
+        headers: { host: 'api.example.com', 'content-length': '2', accept: '*/*' },
+        body: '{}',
+        contentType: 'application/json'
+      },
+      response: { status: 201, headers: {} }
+    } as unknown as LLMConversation;
+
+    expect(SnippetGenerator.createRequest(conversation)).toEqual({
+      method: 'POST',
+      url: 'https://api.example.com/items',
+      headers: [{ name: 'accept', value: '*/*' }, { name: 'content-type', value: 'application/json' }],
+      body: '{}'
+    });
+  });
+
+  it('rejects unknown languages', () => {
+    expect(() => SnippetGenerator.get('cobol')).toThrow('Unknown snippet language: cobol. Available languages: curl, fetch');
+  });
+});
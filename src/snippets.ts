@@ -0,0 +1,390 @@
+import { LLMConversation, MultipartPart } from './types';
+
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  /** Headers to send, without those the client computes (host, content-length, the multipart content type) */
+  headers: Array<{ name: string; value: string }>;
+  /** Exact body text, when the body is not multipart */
+  body?: string;
+  /** Parts of a multipart body; file parts are read from a file named like the uploaded one */
+  parts?: MultipartPart[];
+}
+
+export interface SnippetTarget {
+  name: string;
+  description: string;
+  /** Language of the code, for markdown code fences */
+  language: string;
+  generate(request: SnippetRequest): string;
+}
+
+// Headers that HTTP clients compute themselves
+const COMPUTED_HEADERS = ['host', 'content-length'];
+
+// Methods Invoke-WebRequest accepts with -Method; others need -CustomMethod
+const POWERSHELL_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS', 'TRACE', 'MERGE'];
+
+/**
+ * Shell word in single quotes; a quote inside ends the string, adds an escaped quote and reopens it
+ */
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * String literal for JavaScript, Python and Go, which all accept JSON string escapes.
+ * Lone surrogates, which Python and Go reject, become U+FFFD.
+ */
+function quote(text: string): string {
+  return JSON.stringify(text).replace(/\\ud[89a-f][0-9a-f]{2}/gi, '\\ufffd');
+}
+
+/**
+ * Single-quoted PowerShell string; PowerShell also treats typographic single quotes as quotes
+ */
+function powershellQuote(text: string): string {
+  return `'${text.replace(/['\u2018\u2019\u201a\u201b]/g, match => match + match)}'`;
+}
+
+/**
+ * Content-Disposition value of a multipart part, as written by the Go snippet
+ */
+function disposition(part: MultipartPart): string {
+  const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  return `form-data; name="${escape(part.name || '')}"${part.filename !== undefined ? `; filename="${escape(part.filename)}"` : ''}`;
+}
+
+const curl: SnippetTarget = {
+  name: 'curl',
+  description: 'cURL command for a POSIX shell',
+  language: 'bash',
+  generate: request => {
+    // -g keeps curl from expanding [] and {} in the URL as globs
+    const args = [`curl -X ${/^[A-Za-z]+$/.test(request.method) ? request.method : shellQuote(request.method)}`];
+    if (/[[\]{}]/.test(request.url)) {
+      args.push('-g');
+    }
+    request.headers.forEach(header => args.push(`-H ${shellQuote(`${header.name}: ${header.value}`)}`));
+
+    if (request.parts) {
+      request.parts.forEach(part => {
+        if (part.filename !== undefined) {
+          const file = `"${part.filename.replace(/["\\]/g, '\\$&')}"`;
+          args.push(`-F ${shellQuote(`${part.name}=@${file}${part.contentType ? `;type=${part.contentType}` : ''}`)}`);
+        } else {
+          // --form-string sends values starting with @ or < literally
+          args.push(`--form-string ${shellQuote(`${part.name}=${part.value || ''}`)}`);
+        }
+      });
+    } else if (request.body !== undefined) {
+      // --data-raw sends the body exactly, without reading @file references
+      args.push(`--data-raw ${shellQuote(request.body)}`);
+    }
+
+    args.push(shellQuote(request.url));
+    return args.join(' ');
+  }
+};
+
+/**
+ * Options object shared by the fetch and axios snippets, and the FormData lines a multipart body needs
+ */
+function javascriptRequest(request: SnippetRequest, bodyKey: string): { imports: string[]; setup: string[]; options: string[] } {
+  const imports: string[] = [];
+  const setup: string[] = [];
+  const options: string[] = [];
+
+  if (request.headers.length > 0) {
+    options.push(`  headers: {\n${request.headers.map(header => `    ${quote(header.name)}: ${quote(header.value)}`).join(',\n')}\n  }`);
+  }
+
+  if (request.parts) {
+    if (request.parts.some(part => part.filename !== undefined)) {
+      imports.push(`import { readFileSync } from 'node:fs';`);
+    }
+    setup.push('const form = new FormData();');
+    request.parts.forEach(part => {
+      setup.push(part.filename !== undefined
+        ? `form.append(${quote(part.name || '')}, new Blob([readFileSync(${quote(part.filename)})]${part.contentType ? `, { type: ${quote(part.contentType)} }` : ''}), ${quote(part.filename)});`
+        : `form.append(${quote(part.name || '')}, ${quote(part.value || '')});`);
+    });
+    options.push(`  ${bodyKey}: form`);
+  } else if (request.body !== undefined) {
+    options.push(`  ${bodyKey}: ${quote(request.body)}`);
+  }
+
+  return { imports, setup, options };
+}
+
+/**
+ * Join the import, setup and request blocks of a JavaScript snippet
+ */
+function javascriptSnippet(...blocks: string[][]): string {
+  return blocks.filter(block => block.length > 0).map(block => block.join('\n')).join('\n\n');
+}
+
+const fetchTarget: SnippetTarget = {
+  name: 'fetch',
+  description: 'fetch for JavaScript and TypeScript (browsers, Node.js 18+, Deno, Bun)',
+  language: 'javascript',
+  generate: request => {
+    const { imports, setup, options } = javascriptRequest(request, 'body');
+    options.unshift(`  method: ${quote(request.method)}`);
+    return javascriptSnippet(imports, setup, [
+      `const response = await fetch(${quote(request.url)}, {\n${options.join(',\n')}\n});`,
+      'console.log(response.status, await response.text());'
+    ]);
+  }
+};
+
+const axiosTarget: SnippetTarget = {
+  name: 'axios',
+  description: 'axios for JavaScript and TypeScript',
+  language: 'javascript',
+  generate: request => {
+    const { imports, setup, options } = javascriptRequest(request, 'data');
+    // Keep the response body as text, and resolve for every status like the other snippets
+    options.unshift(`  method: ${quote(request.method)}`, `  url: ${quote(request.url)}`);
+    options.push(`  responseType: 'text'`, '  validateStatus: () => true');
+    return javascriptSnippet([`import axios from 'axios';`, ...imports], setup, [
+      `const response = await axios.request({\n${options.join(',\n')}\n});`,
+      'console.log(response.status, response.data);'
+    ]);
+  }
+};
+
+/**
+ * Python snippet for requests or httpx, which share their call signature except for raw bodies
+ */
+function pythonTarget(name: 'requests' | 'httpx', contentKey: string): SnippetTarget {
+  return {
+    name: `python-${name}`,
+    description: `Python with ${name}`,
+    language: 'python',
+    generate: request => {
+      const args = [quote(request.method), quote(request.url)];
+      if (request.headers.length > 0) {
+        args.push(`headers={\n${request.headers.map(header => `        ${quote(header.name)}: ${quote(header.value)},`).join('\n')}\n    }`);
+      }
+
+      if (request.parts) {
+        // A list of tuples keeps the order of the parts; (None, value) is a plain field
+        const parts = request.parts.map(part => part.filename !== undefined
+          ? `(${quote(part.name || '')}, (${quote(part.filename)}, open(${quote(part.filename)}, "rb")${part.contentType ? `, ${quote(part.contentType)}` : ''}))`
+          : `(${quote(part.name || '')}, (None, ${quote(part.value || '')}))`);
+        args.push(`files=[\n${parts.map(part => `        ${part},`).join('\n')}\n    ]`);
+      } else if (request.body !== undefined) {
+        // Encoded explicitly, as str bodies are not always sent as UTF-8
+        args.push(`${contentKey}=${quote(request.body)}${/[^\x00-\x7f]/.test(request.body) ? '.encode("utf-8")' : ''}`);
+      }
+
+      return `import ${name}\n\nresponse = ${name}.request(\n${args.map(arg => `    ${arg},`).join('\n')}\n)\nprint(response.status_code, response.text)`;
+    }
+  };
+}
+
+const goTarget: SnippetTarget = {
+  name: 'go',
+  description: 'Go with net/http',
+  language: 'go',
+  generate: request => {
+    const imports = new Set(['fmt', 'io', 'net/http']);
+    const lines: string[] = [];
+    let body = 'nil';
+
+    if (request.parts) {
+      imports.add('bytes').add('mime/multipart');
+      lines.push('var buf bytes.Buffer', 'form := multipart.NewWriter(&buf)');
+      request.parts.forEach(part => {
+        if (part.filename === undefined) {
+          lines.push(`if err := form.WriteField(${quote(part.name || '')}, ${quote(part.value || '')}); err != nil {`, '\tpanic(err)', '}');
+          return;
+        }
+        imports.add('net/textproto').add('os');
+        lines.push(
+          '{',
+          '\theader := make(textproto.MIMEHeader)',
+          `\theader.Set("Content-Disposition", ${quote(disposition(part))})`,
+          `\theader.Set("Content-Type", ${quote(part.contentType || 'application/octet-stream')})`,
+          '\tpart, err := form.CreatePart(header)',
+          '\tif err != nil {',
+          '\t\tpanic(err)',
+          '\t}',
+          `\tfile, err := os.Open(${quote(part.filename)})`,
+          '\tif err != nil {',
+          '\t\tpanic(err)',
+          '\t}',
+          '\tdefer file.Close()',
+          '\tif _, err := io.Copy(part, file); err != nil {',
+          '\t\tpanic(err)',
+          '\t}',
+          '}'
+        );
+      });
+      lines.push('if err := form.Close(); err != nil {', '\tpanic(err)', '}', '');
+      body = '&buf';
+    } else if (request.body !== undefined) {
+      imports.add('strings');
+      body = `strings.NewReader(${quote(request.body)})`;
+    }
+
+    lines.push(
+      `req, err := http.NewRequest(${quote(request.method)}, ${quote(request.url)}, ${body})`,
+      'if err != nil {',
+      '\tpanic(err)',
+      '}'
+    );
+    request.headers.forEach(header => lines.push(`req.Header.Set(${quote(header.name)}, ${quote(header.value)})`));
+    if (request.parts) {
+      lines.push('req.Header.Set("Content-Type", form.FormDataContentType())');
+    }
+    lines.push(
+      '',
+      'resp, err := http.DefaultClient.Do(req)',
+      'if err != nil {',
+      '\tpanic(err)',
+      '}',
+      'defer resp.Body.Close()',
+      'data, err := io.ReadAll(resp.Body)',
+      'if err != nil {',
+      '\tpanic(err)',
+      '}',
+      'fmt.Println(resp.Status)',
+      'fmt.Println(string(data))'
+    );
+
+    const importList = Array.from(imports).sort().map(name => `\t"${name}"`).join('\n');
+    return `package main\n\nimport (\n${importList}\n)\n\nfunc main() {\n${lines.map(line => (line ? `\t${line}` : '')).join('\n')}\n}`;
+  }
+};
+
+const powershellTarget: SnippetTarget = {
+  name: 'powershell',
+  description: 'PowerShell 7 with Invoke-WebRequest',
+  language: 'powershell',
+  generate: request => {
+    const lines: string[] = [];
+    const method = request.method.toUpperCase();
+    const args = [
+      `-Uri ${powershellQuote(request.url)}`,
+      POWERSHELL_METHODS.includes(method) ? `-Method ${method}` : `-CustomMethod ${powershellQuote(request.method)}`
+    ];
+
+    // The content type goes in -ContentType, which Invoke-WebRequest requires for bodies
+    const contentType = request.headers.find(header => header.name.toLowerCase() === 'content-type');
+    const headers = request.headers.filter(header => header !== contentType);
+    if (headers.length > 0) {
+      lines.push(`$headers = [ordered]@{\n${headers.map(header => `    ${powershellQuote(header.name)} = ${powershellQuote(header.value)}`).join('\n')}\n}`);
+      // Send header values as they are instead of validating them
+      args.push('-Headers $headers', '-SkipHeaderValidation');
+    }
+
+    if (request.parts) {
+      lines.push(`$form = [ordered]@{\n${request.parts.map(part => `    ${powershellQuote(part.name || '')} = ${part.filename !== undefined
+        ? `Get-Item -LiteralPath ${powershellQuote(part.filename)}`
+        : powershellQuote(part.value || '')}`).join('\n')}\n}`);
+      args.push('-Form $form');
+    } else if (request.body !== undefined) {
+      lines.push(`$body = ${powershellQuote(request.body)}`);
+      if (contentType) {
+        args.push(`-ContentType ${powershellQuote(contentType.value)}`);
+      }
+      args.push('-Body $body');
+    }
+
+    // Report error statuses like the other snippets instead of throwing
+    args.push('-SkipHttpErrorCheck');
+    lines.push(`$response = Invoke-WebRequest ${args.join(' ')}`, '$response.StatusCode', '$response.Content');
+    return lines.join('\n');
+  }
+};
+
+/**
+ * Generates runnable code that sends a captured request: the same method, URL,
+ * headers (including cookies) and body, with the quoting rules of each language.
+ * Targets are registered by name, so new languages plug in like output formats.
+ */
+export class SnippetGenerator {
+  /**
+   * Register a snippet target, replacing any target with the same name
+   */
+  static register(target: SnippetTarget): void {
+    this.registry.set(target.name.toLowerCase(), target);
+  }
+
+  /**
+   * Get a registered snippet target by name
+   */
+  static get(name: string): SnippetTarget {
+    const target = this.registry.get(name.toLowerCase());
+    if (!target) {
+      throw new Error(`Unknown snippet language: ${name}. Available languages: ${this.names().join(', ')}`);
+    }
+    return target;
+  }
+
+  /**
+   * Names of all registered snippet targets
+   */
+  static names(): string[] {
+    return Array.from(this.registry.keys());
+  }
+
+  /**
+   * Describe the request of a conversation for the snippet targets
+   */
+  static createRequest(conversation: LLMConversation): SnippetRequest {
+    const { request } = conversation;
+    const parts = request.parsedBody?.type === 'multipart'
+      ? request.parsedBody.parts.filter(part => part.name !== undefined)
+      : undefined;
+
+    const headers = Object.entries(request.headers)
+      .filter(([name]) => !COMPUTED_HEADERS.includes(name) && !(parts && name === 'content-type'))
+      .map(([name, value]) => ({ name, value }));
+    if (!parts && request.body !== undefined && request.contentType && !('content-type' in request.headers)) {
+      headers.push({ name: 'content-type', value: request.contentType });
+    }
+
+    return {
+      method: request.method,
+      url: request.url,
+      headers,
+      ...(parts ? { parts } : request.body !== undefined && { body: request.body })
+    };
+  }
+
+  /**
+   * Generate the code that sends the request of a conversation in one language
+   */
+  static generate(conversation: LLMConversation, language: string): string {
+    return this.get(language).generate(this.createRequest(conversation));
+  }
+
+  /**
+   * Render snippets for every conversation as markdown, in each of the given languages (default: all)
+   */
+  static toMarkdown(conversations: LLMConversation[], languages: string[] = this.names()): string {
+    const targets = languages.map(language => this.get(language));
+    let output = '# Code Snippets\n\n';
+
+    conversations.forEach((conv, index) => {
+      output += `## Request ${index + 1}: ${conv.request.method} ${conv.request.url}\n\n`;
+      const request = this.createRequest(conv);
+      targets.forEach(target => {
+        if (targets.length > 1) {
+          output += `### ${target.name}\n\n`;
+        }
+        output += `\`\`\`${target.language}\n${target.generate(request)}\n\`\`\`\n\n`;
+      });
+    });
+
+    return output;
+  }
+
+  private static registry = new Map<string, SnippetTarget>(
+    [curl, fetchTarget, axiosTarget, pythonTarget('requests', 'data'), pythonTarget('httpx', 'content'), goTarget, powershellTarget]
+      .map(target => [target.name, target] as [string, SnippetTarget])
+  );
+}
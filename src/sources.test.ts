@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HARSources } from './sources';
+import { HAREntry, HARFile } from './types';
+
+function har(entries: Array<[string, string]>, pageId?: string): HARFile {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'test', version: '1' },
+      pages: pageId ? [{ id: pageId, title: pageId, startedDateTime: '2024-01-01T00:00:00.000Z', pageTimings: { onContentLoad: 0, onLoad: 0 } }] : [],
+      entries: entries.map(([url, startedDateTime]) => ({ startedDateTime, request: { url } } as HAREntry))
+    }
+  };
+}
+
+describe('HARSources', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-sources-'));
+    for (const file of ['a.har', 'b.har', 'c.json', '.hidden.har', 'logs/x.har', 'logs/2024/y.har', 'logs/2024/z.txt', '.cache/w.har']) {
+      fs.mkdirSync(path.join(dir, path.dirname(file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), '{"log":{"entries":[]}}');
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('expand', () => {
+    const expand = (...patterns: string[]) => HARSources.expand(patterns, dir);
+
+    it.each([
+      ['*.har', ['a.har', 'b.har']],
+      ['?.har', ['a.har', 'b.har']],
+      ['[a].har', ['a.har']],
+      ['[!a].har', ['b.har']],
+      ['*.{har,json}', ['a.har', 'b.har', 'c.json']],
+      ['.*.har', ['.hidden.har']],
+      ['logs/*', ['logs/x.har']],
+      ['logs/*/*.har', ['logs/2024/y.har']],
+      ['**/*.har', ['a.har', 'b.har', 'logs/2024/y.har', 'logs/x.har']],
+      ['logs/**/*.har', ['logs/2024/y.har', 'logs/x.har']],
+      ['logs/**', ['logs/2024/y.har', 'logs/2024/z.txt', 'logs/x.har']],
+      ['**', ['a.har', 'b.har', 'c.json', 'logs/2024/y.har', 'logs/2024/z.txt', 'logs/x.har']]
+    ])('expands %s', (pattern, expected) => {
+      expect(expand(pattern)).toEqual(expected);
+    });
+
+    it('expands absolute patterns', () => {
+      expect(HARSources.expand([path.join(dir, 'logs', '**', '*.har')])).toEqual([
+        path.join(dir, 'logs/2024/y.har'),
+        path.join(dir, 'logs/x.har')
+      ]);
+    });
+
+    it('keeps pattern order, passes plain paths through and drops repeats', () => {
+      expect(expand('b.har', 'missing.har', '*.har', 'logs/x.har')).toEqual(['b.har', 'missing.har', 'a.har', 'logs/x.har']);
+    });
+
+    it('rejects globs without matches', () => {
+      expect(() => expand('*.zip')).toThrow("No files match '*.zip'");
+    });
+  });
+
+  describe('merge', () => {
+    it('orders entries by start time, tags their source and keeps file order for ties', () => {
+      const merged = HARSources.merge([
+        { source: 'one.har', har: har([['/a', '2024-01-01T00:00:02.000Z'], ['/b', '2024-01-01T00:00:05.000Z']], 'p1') },
+        { source: 'two.har', har: har([['/c', '2024-01-01T00:00:01.000Z'], ['/d', '2024-01-01T00:00:05.000Z']], 'p2') }
+      ]);
+
+      expect(merged.log.entries.map(entry => [entry.request.url, entry._source])).toEqual([
+        ['/c', 'two.har'],
+        ['/a', 'one.har'],
+        ['/b', 'one.har'],
+        ['/d', 'two.har']
+      ]);
+      expect(merged.log.pages!.map(page => page.id)).toEqual(['p1', 'p2']);
+      expect(merged.log.creator).toEqual({ name: 'test', version: '1' });
+    });
+  });
+
+  describe('load', () => {
+    it('returns a single file untagged and tags merged files', async () => {
+      const files = fs.mkdtempSync(path.join(dir, 'load-'));
+      const one = path.join(files, 'one.har');
+      const two = path.join(files, 'two.har');
+      fs.writeFileSync(one, JSON.stringify(har([['/a', '2024-01-01T00:00:02.000Z']])));
+      fs.writeFileSync(two, JSON.stringify(har([['/b', '2024-01-01T00:00:01.000Z']])));
+
+      expect((await HARSources.load([one])).log.entries[0]._source).toBeUndefined();
+      expect((await HARSources.load([one, two])).log.entries.map(entry => entry._source)).toEqual([two, one]);
+    });
+  });
+});
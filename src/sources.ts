@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HARFile, HAREntry } from './types';
+import { HARStreamReader } from './stream';
+
+/**
+ * Input handling for several HAR files: glob expansion, and merging captures
+ * into one chronological log with each entry tagged with the file it came from
+ * (in the `_source` custom field, following the HAR convention for extensions).
+ */
+export class HARSources {
+  /**
+   * Expand glob patterns (`*`, `?`, `**`, `[abc]`, `{a,b}`) into file paths, keeping the
+   * order of the patterns and sorting the matches of each. Plain paths are passed through.
+   */
+  static expand(patterns: string[], cwd: string = process.cwd()): string[] {
+    const files: string[] = [];
+
+    for (const pattern of patterns) {
+      if (!this.isGlob(pattern)) {
+        files.push(pattern);
+        continue;
+      }
+
+      const matches = this.expandBraces(pattern).flatMap(expanded => this.match(expanded, cwd));
+      if (matches.length === 0) {
+        throw new Error(`No files match '${pattern}'`);
+      }
+      files.push(...Array.from(new Set(matches)).sort());
+    }
+
+    // The same file given twice, e.g. by overlapping globs, is only read once
+    return Array.from(new Set(files));
+  }
+
+  /**
+   * Read HAR files and merge their entries in order of start time, tagging each with its file.
+   * A single file is returned as it is, without tags.
+   */
+  static async load(files: string[]): Promise<HARFile> {
+    if (files.length === 1) {
+      return HARStreamReader.readFile(files[0]);
+    }
+
+    const hars = await Promise.all(files.map(file => HARStreamReader.readFile(file)));
+    return this.merge(hars.map((har, index) => ({ source: files[index], har })));
+  }
+
+  /**
+   * Merge parsed HAR files into one log; entries keep their file order when they start at the same time
+   */
+  static merge(sources: Array<{ source: string; har: HARFile }>): HARFile {
+    const entries: HAREntry[] = sources.flatMap(({ source, har }) =>
+      har.log.entries.map(entry => ({ ...entry, _source: source }))
+    );
+    const time = (entry: HAREntry) => Date.parse(entry.startedDateTime) || 0;
+    entries.sort((a, b) => time(a) - time(b));
+
+    const first = sources[0]?.har.log;
+    return {
+      log: {
+        version: first?.version || '1.2',
+        creator: first?.creator || { name: 'har-to-llm', version: '' },
+        pages: sources.flatMap(({ har }) => har.log.pages || []),
+        entries
+      }
+    };
+  }
+
+  private static isGlob(pattern: string): boolean {
+    return /[*?[{]/.test(pattern);
+  }
+
+  /**
+   * Expand `{a,b}` alternatives into separate patterns
+   */
+  private static expandBraces(pattern: string): string[] {
+    const match = pattern.match(/^(.*?)\{([^{}]*)\}(.*)$/);
+    if (!match) {
+      return [pattern];
+    }
+    return match[2].split(',').flatMap(option => this.expandBraces(`${match[1]}${option}${match[3]}`));
+  }
+
+  private static match(pattern: string, cwd: string): string[] {
+    const normalized = pattern.replace(/\\/g, '/');
+    const absolute = path.isAbsolute(normalized);
+    const segments = normalized.split('/').filter((segment, index) => segment !== '' || index === 0);
+
+    // Start from the longest leading part without wildcards
+    let base = absolute ? '/' : '';
+    let index = 0;
+    if (absolute && segments[0] === '') {
+      index = 1;
+    }
+    while (index < segments.length - 1 && !this.isGlob(segments[index])) {
+      base = base ? path.posix.join(base, segments[index]) : segments[index];
+      index++;
+    }
+
+    const results: string[] = [];
+    this.walk(base, segments.slice(index), cwd, results);
+    return results;
+  }
+
+  private static walk(dir: string, segments: string[], cwd: string, results: string[]): void {
+    if (segments.length === 0) {
+      return;
+    }
+    const [segment, ...rest] = segments;
+    const full = path.resolve(cwd, dir || '.');
+
+    if (segment === '**') {
+      // Zero directories, then one more level at a time; a trailing ** matches every file below
+      this.walk(dir, rest.length > 0 ? rest : ['*'], cwd, results);
+      this.readDir(full)
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+        .forEach(entry => this.walk(this.join(dir, entry.name), segments, cwd, results));
+      return;
+    }
+
+    const regex = this.segmentToRegex(segment);
+    for (const entry of this.readDir(full)) {
+      // Wildcards do not match hidden files unless the pattern starts with a dot
+      if (!regex.test(entry.name) || (entry.name.startsWith('.') && !segment.startsWith('.'))) {
+        continue;
+      }
+      const child = this.join(dir, entry.name);
+      if (rest.length === 0) {
+        if (entry.isFile()) {
+          results.push(child);
+        }
+      } else if (entry.isDirectory()) {
+        this.walk(child, rest, cwd, results);
+      }
+    }
+  }
+
+  private static readDir(dir: string): fs.Dirent[] {
+    try {
+      return fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+  }
+
+  private static join(dir: string, name: string): string {
+    return dir ? path.posix.join(dir, name) : name;
+  }
+
+  private static segmentToRegex(segment: string): RegExp {
+    let source = '';
+    for (let i = 0; i < segment.length; i++) {
+      const ch = segment[i];
+      if (ch === '*') {
+        source += '.*';
+      } else if (ch === '?') {
+        source += '.';
+      } else if (ch === '[') {
+        const end = segment.indexOf(']', i + 1);
+        if (end > i) {
+          source += `[${segment.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+          i = end;
+        } else {
+          source += '\\[';
+        }
+      } else {
+        source += ch.replace(/[.+^${}()|\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+}
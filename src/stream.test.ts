@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HARStreamReader } from './stream';
+import { harEntry } from './test-helpers';
+import { HAREntry } from './types';
+
+const entry = (url: string, text: string) => harEntry({
+  url,
+  statusText: 'OK',
+  time: 12.5,
+  headers: [{ name: 'Accept', value: 'application/json' }],
+  responseText: text,
+  timings: { wait: 10, receive: 2.5 }
+});
+
+// Strings full of characters the parser must not mistake for structure
+const HAR = {
+  log: {
+    version: '1.2',
+    creator: { name: 'test "creator"', version: '1.0' },
+    entries: [
+      entry('https://api.example.com/a?q={"x":[1,2]}', '{"items":[{"id":1},{"id":2}],"note":"a \\"quoted\\" ] } , value"}'),
+      entry('https://api.example.com/b', 'backslash \\\\ at the end \\'),
+      entry('https://api.example.com/c', 'unicode é中😀 and escapes \n\t\u0000')
+    ],
+    pages: [{ startedDateTime: '2024-01-01T00:00:00.000Z', id: 'page_1', title: 'Home, "sweet" home', pageTimings: { onContentLoad: 100, onLoad: 200 } }],
+    'weird \\"key\\"': [1, { nested: '}' }]
+  }
+};
+
+describe('HARStreamReader', () => {
+  let dir: string;
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  const read = async (file: string, highWaterMark?: number) => {
+    const reader = new HARStreamReader(file, highWaterMark);
+    const entries: HAREntry[] = [];
+    for await (const item of reader.entries()) {
+      entries.push(item);
+    }
+    return { entries, metadata: reader.metadata };
+  };
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-stream-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each([1, 2, 3, 7, 64, 1024 * 1024])('parses entries and metadata with %i-byte chunks', async size => {
+    const file = write(`har-${size}.har`, JSON.stringify(HAR, null, 2));
+    const { entries, metadata } = await read(file, size);
+    const { entries: expected, ...log } = HAR.log;
+
+    expect(entries).toEqual(expected);
+    expect(metadata).toEqual(log);
+  });
+
+  it('parses compact JSON with a byte order mark', async () => {
+    const file = write('bom.har', `\uFEFF${JSON.stringify(HAR)}`);
+    const { entries } = await read(file, 5);
+    expect(entries.map(item => item.request.url)).toEqual(HAR.log.entries.map(item => item.request.url));
+  });
+
+  it('reads a whole file like JSON.parse', async () => {
+    const file = write('whole.har', JSON.stringify(HAR));
+    expect(await HARStreamReader.readFile(file)).toEqual(JSON.parse(JSON.stringify(HAR)));
+  });
+
+  it('handles an empty entries array', async () => {
+    const file = write('empty.har', '{"log":{"version":"1.2","entries":[]}}');
+    const { entries, metadata } = await read(file, 3);
+    expect(entries).toEqual([]);
+    expect(metadata).toEqual({ version: '1.2' });
+  });
+
+  it('rejects files without log.entries', async () => {
+    const file = write('missing.har', '{"log":{"version":"1.2","pages":[]}}');
+    await expect(read(file)).rejects.toThrow('Invalid HAR file: missing log.entries');
+  });
+
+  it('rejects truncated files', async () => {
+    const text = JSON.stringify(HAR);
+    const file = write('truncated.har', text.slice(0, text.length - 10));
+    await expect(read(file, 16)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import { HARFile, HAREntry } from './types';
+
+type HARLogMetadata = Omit<HARFile['log'], 'entries'>;
+
+interface Recording {
+  kind: 'entry' | 'meta';
+  key?: string;
+  parts: string[];
+  start: number;
+}
+
+/**
+ * Incremental reader for HAR files that yields entries one at a time.
+ *
+ * Only the entry currently being read is held in memory, so arbitrarily large
+ * captures can be processed. Everything in `log` other than `entries` (version,
+ * creator, pages, ...) is collected into `metadata`, which is complete once
+ * iteration finishes.
+ */
+export class HARStreamReader {
+  readonly metadata: Partial<HARLogMetadata> = {};
+
+  private stack: Array<'{' | '['> = [];
+  private expectKey = false;
+  private inString = false;
+  private escaped = false;
+  private keyParts: string[] | null = null;
+  private keyStart = 0;
+  private rootKey?: string;
+  private logKey?: string;
+  private inLog = false;
+  private inEntries = false;
+  private foundEntries = false;
+  private recording: Recording | null = null;
+  private queue: HAREntry[] = [];
+
+  constructor(private readonly file: string, private readonly highWaterMark: number = 1024 * 1024) {}
+
+  /**
+   * Read a whole HAR file through the streaming parser
+   */
+  static async readFile(file: string): Promise<HARFile> {
+    const reader = new HARStreamReader(file);
+    const entries: HAREntry[] = [];
+    for await (const entry of reader.entries()) {
+      entries.push(entry);
+    }
+    return { log: { ...reader.metadata, entries } as HARFile['log'] };
+  }
+
+  /**
+   * Iterate over the entries of the HAR file
+   */
+  async *entries(): AsyncGenerator<HAREntry> {
+    const stream = fs.createReadStream(this.file, { encoding: 'utf8', highWaterMark: this.highWaterMark });
+    let first = true;
+
+    for await (const data of stream) {
+      let chunk = data as string;
+      if (first) {
+        chunk = chunk.replace(/^\uFEFF/, '');
+        first = false;
+      }
+
+      this.process(chunk);
+
+      while (this.queue.length > 0) {
+        yield this.queue.shift()!;
+      }
+    }
+
+    if (!this.foundEntries || this.stack.length > 0) {
+      throw new Error(this.foundEntries ? 'Invalid HAR file: unexpected end of file' : 'Invalid HAR file: missing log.entries');
+    }
+  }
+
+  /**
+   * Advance the parser state over one chunk of text
+   */
+  private process(chunk: string): void {
+    let backslash = -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+          continue;
+        }
+
+        // Jump to the next quote or backslash
+        if (backslash !== chunk.length && backslash < i) {
+          backslash = chunk.indexOf('\\', i);
+          if (backslash === -1) backslash = chunk.length;
+        }
+        let quote = chunk.indexOf('"', i);
+        if (quote === -1) quote = chunk.length;
+        const next = Math.min(quote, backslash);
+
+        if (next === chunk.length) {
+          break;
+        }
+
+        i = next;
+        if (chunk[i] === '\\') {
+          this.escaped = true;
+          continue;
+        }
+
+        this.inString = false;
+        if (this.keyParts) {
+          this.keyParts.push(chunk.slice(this.keyStart, i));
+          this.setKey(JSON.parse(`"${this.keyParts.join('')}"`));
+          this.keyParts = null;
+        }
+        continue;
+      }
+
+      const ch = chunk[i];
+      const depth = this.stack.length;
+
+      switch (ch) {
+        case '"':
+          this.inString = true;
+          if (this.expectKey && depth <= 2) {
+            this.keyParts = [];
+            this.keyStart = i + 1;
+          }
+          break;
+
+        case ':':
+          if (depth === 2 && this.inLog) {
+            this.expectKey = false;
+            if (this.logKey === 'entries') {
+              this.foundEntries = true;
+            } else {
+              this.startRecording('meta', i + 1, this.logKey);
+            }
+          } else if (depth <= 2) {
+            this.expectKey = false;
+          }
+          break;
+
+        case '{':
+        case '[':
+          this.stack.push(ch);
+          this.expectKey = ch === '{';
+          if (depth === 1 && ch === '{' && this.rootKey === 'log') {
+            this.inLog = true;
+          }
+          if (depth === 2 && ch === '[' && this.inLog && this.logKey === 'entries' && !this.recording) {
+            this.inEntries = true;
+            this.startRecording('entry', i + 1);
+          }
+          break;
+
+        case ',':
+          if (depth === 2 && this.inLog) {
+            this.finishRecording(chunk, i);
+            this.expectKey = true;
+          } else if (depth === 3 && this.inEntries) {
+            this.finishRecording(chunk, i);
+            this.startRecording('entry', i + 1);
+          } else if (depth === 1) {
+            this.expectKey = true;
+          }
+          break;
+
+        case '}':
+        case ']':
+          if (depth === 2 && this.inLog && ch === '}') {
+            this.finishRecording(chunk, i);
+            this.inLog = false;
+          } else if (depth === 3 && this.inEntries && ch === ']') {
+            this.finishRecording(chunk, i);
+            this.inEntries = false;
+          }
+          this.stack.pop();
+          // Closing a nested value inside an object means a key comes next after ','
+          this.expectKey = false;
+          break;
+      }
+    }
+
+    // Carry partial keys and recordings over to the next chunk
+    if (this.keyParts) {
+      this.keyParts.push(chunk.slice(this.keyStart));
+      this.keyStart = 0;
+    }
+    if (this.recording) {
+      this.recording.parts.push(chunk.slice(this.recording.start));
+      this.recording.start = 0;
+    }
+  }
+
+  private setKey(key: string): void {
+    if (this.stack.length === 1) {
+      this.rootKey = key;
+    } else if (this.stack.length === 2 && this.inLog) {
+      this.logKey = key;
+    }
+  }
+
+  private startRecording(kind: Recording['kind'], start: number, key?: string): void {
+    this.recording = { kind, key, parts: [], start };
+  }
+
+  private finishRecording(chunk: string, end: number): void {
+    const recording = this.recording;
+    if (!recording) {
+      return;
+    }
+    this.recording = null;
+
+    recording.parts.push(chunk.slice(recording.start, end));
+    const text = recording.parts.join('').trim();
+    if (text === '') {
+      return;
+    }
+
+    const value = JSON.parse(text);
+    if (recording.kind === 'entry') {
+      this.queue.push(value);
+    } else if (recording.key !== undefined) {
+      (this.metadata as Record<string, unknown>)[recording.key] = value;
+    }
+  }
+}
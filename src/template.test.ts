@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TemplateFormatter } from './template';
+import { LLMConversation } from './types';
+
+const render = (source: string, data: any) => new TemplateFormatter('test', source).render(data);
+
+describe('TemplateFormatter', () => {
+  it('renders paths, this and literals', () => {
+    expect(render('{{user.name}} is {{user.age}}{{missing.deep}}', { user: { name: 'Ada', age: 36 } })).toBe('Ada is 36');
+    expect(render('{{#with user}}{{this.name}}/{{.}}{{/with}}', { user: 'x' })).toBe('/x');
+    expect(render('{{list}}', { list: [1, 2] })).toBe('[1,2]');
+  });
+
+  it('calls built-in helpers with arguments and sub-expressions', () => {
+    expect(render('{{upper name}} {{lower "ABC"}} {{truncate text 3}} {{default missing "none"}} {{join tags " | "}}', {
+      name: 'ada',
+      text: 'abcdef',
+      tags: ['a', 'b']
+    })).toBe('ADA abc abc… none a | b');
+    expect(render('{{#if (eq status 200)}}ok{{else}}failed{{/if}}', { status: 200 })).toBe('ok');
+    expect(render('{{json value}}', { value: { a: 1 } })).toBe('{\n  "a": 1\n}');
+  });
+
+  it('iterates arrays and objects with loop variables', () => {
+    expect(render('{{#each items}}{{@index}}:{{this}}{{#if @last}}.{{else}},{{/if}}{{/each}}', { items: ['a', 'b', 'c'] })).toBe('0:a,1:b,2:c.');
+    expect(render('{{#each headers}}{{@number}} {{@key}}={{this}};{{/each}}', { headers: { accept: '*/*', host: 'x' } })).toBe('1 accept=*/*;2 host=x;');
+    expect(render('{{#each items}}x{{else}}empty{{/each}}', { items: [] })).toBe('empty');
+  });
+
+  it('reaches parent and root scopes', () => {
+    const data = { prefix: '>', groups: [{ name: 'g', items: [1, 2] }] };
+    expect(render('{{#each groups}}{{#each items}}{{@root.prefix}}{{../name}}{{this}} {{/each}}{{/each}}', data)).toBe('>g1 >g2 ');
+  });
+
+  it('handles if, unless and with fallbacks', () => {
+    expect(render('{{#unless ok}}no{{else}}yes{{/unless}}', { ok: false })).toBe('no');
+    expect(render('{{#if items}}some{{else}}none{{/if}}', { items: [] })).toBe('none');
+    expect(render('{{#with user}}{{name}}{{else}}anonymous{{/with}}', {})).toBe('anonymous');
+  });
+
+  it('drops comments and the lines of standalone block tags', () => {
+    const source = [
+      '{{! header comment }}',
+      '# Requests',
+      '{{#each items}}',
+      '- {{this}}',
+      '{{/each}}',
+      '{{!-- done --}}',
+      'end'
+    ].join('\n');
+    expect(render(source, { items: ['a', 'b'] })).toBe('# Requests\n- a\n- b\nend');
+  });
+
+  it('uses registered helpers', () => {
+    TemplateFormatter.registerHelper('shout', (value: string, times: number) => `${value}${'!'.repeat(times)}`);
+    expect(render('{{shout word 3}}', { word: 'hey' })).toBe('hey!!!');
+  });
+
+  it.each([
+    ['{{#each items}}', "Template error at line 1: '{{#each}}' is never closed"],
+    ['a\n{{#if x}}{{/each}}', "Template error at line 2: '{{/each}}' closes '{{#if}}' from line 2"],
+    ['{{/if}}', "Template error at line 1: unexpected '{{/if}}'"],
+    ['{{else}}', "Template error at line 1: unexpected '{{else}}'"],
+    ['{{#loop items}}{{/loop}}', "Template error at line 1: unknown block '#loop'"],
+    ['{{#if}}{{/if}}', "Template error at line 1: '#if' needs an argument"],
+    ['x\n\n{{name', "Template error at line 3: unclosed '{{'"]
+  ])('rejects %j', (source, message) => {
+    expect(() => new TemplateFormatter('test', source)).toThrow(message);
+  });
+
+  it('reports unknown helpers when rendering', () => {
+    expect(() => render('\n{{nope a b}}', {})).toThrow("Template error at line 2: unknown helper 'nope'");
+  });
+
+  it('formats conversations with count and options', () => {
+    const conversations = [
+      { request: { method: 'GET', url: 'https://api.example.com/a' }, response: { status: 200 } },
+      { request: { method: 'POST', url: 'https://api.example.com/b' }, response: { status: 201 } }
+    ] as LLMConversation[];
+    const formatter = new TemplateFormatter('list', '{{count}} calls\n{{#each conversations}}\n{{request.method}} {{request.url}} → {{response.status}}\n{{/each}}');
+
+    expect(formatter.format(conversations, { entries: [], options: {} })).toBe(
+      '2 calls\nGET https://api.example.com/a → 200\nPOST https://api.example.com/b → 201\n'
+    );
+  });
+
+  it('loads templates from files, named after the file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-template-'));
+    try {
+      const file = path.join(dir, 'brief.hbs');
+      fs.writeFileSync(file, '{{#if x}}');
+      expect(() => TemplateFormatter.fromFile(file)).toThrow(`${file}: Template error at line 1`);
+
+      fs.writeFileSync(file, '{{x}}');
+      const formatter = TemplateFormatter.fromFile(file);
+      expect(formatter.name).toBe('brief');
+      expect(formatter.render({ x: 1 })).toBe('1');
+      expect(() => TemplateFormatter.fromFile(path.join(dir, 'missing.hbs'))).toThrow('not found');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
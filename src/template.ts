@@ -0,0 +1,372 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMConversation } from './types';
+import { OutputFormatter, FormatContext } from './formatters';
+
+export type TemplateHelper = (...args: any[]) => any;
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; expression: string[]; line: number }
+  | { kind: 'block'; name: string; expression: string[]; children: TemplateNode[]; inverse: TemplateNode[]; line: number };
+
+interface Token {
+  kind: 'text' | 'tag';
+  text: string;
+  line: number;
+  standalone?: boolean;
+}
+
+interface Frame {
+  value: any;
+  data: Record<string, any>;
+}
+
+const BLOCKS = ['each', 'if', 'unless', 'with'];
+
+const HELPERS: Record<string, TemplateHelper> = {
+  json: (value: any) => JSON.stringify(value, null, 2),
+  upper: (value: any) => String(value ?? '').toUpperCase(),
+  lower: (value: any) => String(value ?? '').toLowerCase(),
+  truncate: (value: any, length: number) => {
+    const text = String(value ?? '');
+    return text.length > length ? `${text.slice(0, length)}…` : text;
+  },
+  default: (value: any, fallback: any) => (value === undefined || value === null || value === '' ? fallback : value),
+  eq: (a: any, b: any) => a === b,
+  join: (values: any, separator: string = ', ') => (Array.isArray(values) ? values.join(separator) : values)
+};
+
+/**
+ * Output format rendered from a Handlebars-like template.
+ *
+ * Templates see `conversations`, `count` and `options` at the root, and support
+ * `{{path.to.value}}`, helpers such as `{{json request.headers}}` or
+ * `{{truncate response.body 500}}`, `{{#each}}` over arrays and objects (with
+ * `@index`, `@number`, `@key`, `@first` and `@last`), `{{#if}}`/`{{else}}`,
+ * `{{#unless}}`, `{{#with}}`, `../` for the parent scope and `{{! comments }}`.
+ * Block tags alone on a line do not leave blank lines behind.
+ */
+export class TemplateFormatter implements OutputFormatter {
+  private static helpers: Record<string, TemplateHelper> = { ...HELPERS };
+
+  readonly name: string;
+  readonly description?: string;
+  private readonly nodes: TemplateNode[];
+
+  constructor(name: string, source: string, description?: string) {
+    this.name = name;
+    this.description = description;
+    this.nodes = TemplateFormatter.parse(source);
+  }
+
+  /**
+   * Create a template formatter from a file, named after the file unless a name is given
+   */
+  static fromFile(file: string, name?: string): TemplateFormatter {
+    if (!fs.existsSync(file)) {
+      throw new Error(`Template file '${file}' not found`);
+    }
+    try {
+      return new TemplateFormatter(name || path.basename(file).replace(/\.[^.]+$/, ''), fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Register a helper callable as `{{name arg1 arg2}}` or `{{#if (name arg)}}`
+   */
+  static registerHelper(name: string, helper: TemplateHelper): void {
+    this.helpers[name] = helper;
+  }
+
+  format(conversations: LLMConversation[], context: FormatContext): string {
+    return this.render({ conversations, count: conversations.length, options: context.options });
+  }
+
+  /**
+   * Render the template against any data
+   */
+  render(data: any): string {
+    return this.renderNodes(this.nodes, [{ value: data, data: {} }]);
+  }
+
+  private renderNodes(nodes: TemplateNode[], stack: Frame[]): string {
+    let output = '';
+
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        output += node.text;
+      } else if (node.kind === 'value') {
+        const value = this.evaluate(node.expression, stack, node.line);
+        output += value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      } else {
+        output += this.renderBlock(node, stack);
+      }
+    }
+
+    return output;
+  }
+
+  private renderBlock(node: Extract<TemplateNode, { kind: 'block' }>, stack: Frame[]): string {
+    const value = this.evaluate(node.expression, stack, node.line);
+    const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+
+    switch (node.name) {
+      case 'if':
+        return this.renderNodes(truthy ? node.children : node.inverse, stack);
+      case 'unless':
+        return this.renderNodes(truthy ? node.inverse : node.children, stack);
+      case 'with':
+        return truthy
+          ? this.renderNodes(node.children, [...stack, { value, data: {} }])
+          : this.renderNodes(node.inverse, stack);
+      default: {
+        const items: Array<[string | number, any]> = Array.isArray(value)
+          ? value.map((item, index) => [index, item])
+          : value && typeof value === 'object' ? Object.entries(value) : [];
+        if (items.length === 0) {
+          return this.renderNodes(node.inverse, stack);
+        }
+        return items.map(([key, item], index) => this.renderNodes(node.children, [...stack, {
+          value: item,
+          data: {
+            index,
+            number: index + 1,
+            key,
+            first: index === 0,
+            last: index === items.length - 1
+          }
+        }])).join('');
+      }
+    }
+  }
+
+  /**
+   * Evaluate a tag expression: a path or literal, or a helper call with arguments
+   */
+  private evaluate(expression: string[], stack: Frame[], line: number): any {
+    const [head, ...args] = expression;
+    const helper = TemplateFormatter.helpers[head];
+
+    if (helper && (args.length > 0 || !this.isPath(head))) {
+      return helper(...args.map(arg => this.evaluateArgument(arg, stack, line)));
+    }
+    if (args.length > 0) {
+      throw new Error(`Template error at line ${line}: unknown helper '${head}'`);
+    }
+    return this.evaluateArgument(head, stack, line);
+  }
+
+  private evaluateArgument(argument: string, stack: Frame[], line: number): any {
+    if (argument.startsWith('(') && argument.endsWith(')')) {
+      return this.evaluate(TemplateFormatter.split(argument.slice(1, -1), line), stack, line);
+    }
+    if (/^".*"$|^'.*'$/.test(argument)) {
+      return argument.slice(1, -1);
+    }
+    if (/^-?\d+(\.\d+)?$/.test(argument)) {
+      return Number(argument);
+    }
+    if (argument === 'true' || argument === 'false') {
+      return argument === 'true';
+    }
+    if (argument === 'null') {
+      return null;
+    }
+    return this.lookup(argument, stack);
+  }
+
+  private lookup(reference: string, stack: Frame[]): any {
+    let depth = stack.length - 1;
+    let rest = reference;
+
+    while (rest.startsWith('../')) {
+      depth = Math.max(depth - 1, 0);
+      rest = rest.slice(3);
+    }
+
+    if (rest.startsWith('@root')) {
+      return this.resolve(stack[0].value, rest.slice('@root'.length).replace(/^\./, ''));
+    }
+    if (rest.startsWith('@')) {
+      return stack[depth].data[rest.slice(1)];
+    }
+    if (rest === 'this' || rest === '.') {
+      return stack[depth].value;
+    }
+    return this.resolve(stack[depth].value, rest.replace(/^this\./, ''));
+  }
+
+  private resolve(value: any, reference: string): any {
+    if (reference === '') {
+      return value;
+    }
+    return reference.split('.').reduce((current, key) => (current === undefined || current === null ? undefined : current[key]), value);
+  }
+
+  private isPath(text: string): boolean {
+    return /^(\.\.\/)*(@?[\w$-]+)(\.[\w$-]+)*$/.test(text);
+  }
+
+  /**
+   * Parse a template into a tree of text, value and block nodes
+   */
+  private static parse(source: string): TemplateNode[] {
+    const tokens = this.tokenize(source);
+    const root: TemplateNode[] = [];
+    const open: Array<{ node: Extract<TemplateNode, { kind: 'block' }>; inElse: boolean }> = [];
+    const current = () => {
+      const top = open[open.length - 1];
+      return top ? (top.inElse ? top.node.inverse : top.node.children) : root;
+    };
+
+    for (const token of tokens) {
+      if (token.kind === 'text') {
+        if (token.text) {
+          current().push({ kind: 'text', text: token.text });
+        }
+        continue;
+      }
+
+      const tag = token.text.trim();
+      if (tag.startsWith('!')) {
+        continue;
+      }
+
+      if (tag.startsWith('#')) {
+        const [name, ...expression] = this.split(tag.slice(1), token.line);
+        if (!BLOCKS.includes(name)) {
+          throw new Error(`Template error at line ${token.line}: unknown block '#${name}' (available: ${BLOCKS.map(b => `#${b}`).join(', ')})`);
+        }
+        if (expression.length === 0) {
+          throw new Error(`Template error at line ${token.line}: '#${name}' needs an argument`);
+        }
+        const node = { kind: 'block' as const, name, expression, children: [], inverse: [], line: token.line };
+        current().push(node);
+        open.push({ node, inElse: false });
+      } else if (tag.startsWith('/')) {
+        const name = tag.slice(1).trim();
+        const top = open.pop();
+        if (!top) {
+          throw new Error(`Template error at line ${token.line}: unexpected '{{/${name}}}'`);
+        }
+        if (top.node.name !== name) {
+          throw new Error(`Template error at line ${token.line}: '{{/${name}}}' closes '{{#${top.node.name}}}' from line ${top.node.line}`);
+        }
+      } else if (tag === 'else') {
+        const top = open[open.length - 1];
+        if (!top || top.inElse) {
+          throw new Error(`Template error at line ${token.line}: unexpected '{{else}}'`);
+        }
+        top.inElse = true;
+      } else {
+        const expression = this.split(tag.replace(/^\{|\}$/g, '').trim(), token.line);
+        if (expression.length === 0) {
+          throw new Error(`Template error at line ${token.line}: empty tag`);
+        }
+        current().push({ kind: 'value', expression, line: token.line });
+      }
+    }
+
+    if (open.length > 0) {
+      const top = open[open.length - 1].node;
+      throw new Error(`Template error at line ${top.line}: '{{#${top.name}}}' is never closed`);
+    }
+
+    return root;
+  }
+
+  /**
+   * Split a template into text and tags, removing the lines of standalone block tags
+   */
+  private static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\{\{(!--[\s\S]*?--|\{[\s\S]*?\}|[\s\S]*?)\}\}/g;
+    let last = 0;
+    let line = 1;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(source)) !== null) {
+      const text = source.slice(last, match.index);
+      tokens.push({ kind: 'text', text, line });
+      line += (text.match(/\n/g) || []).length;
+      tokens.push({ kind: 'tag', text: match[1].replace(/^!--|--$/g, '!'), line });
+      line += (match[0].match(/\n/g) || []).length;
+      last = match.index + match[0].length;
+    }
+    if (source.indexOf('{{', last) !== -1) {
+      const unclosed = source.slice(0, source.indexOf('{{', last));
+      throw new Error(`Template error at line ${unclosed.split('\n').length}: unclosed '{{'`);
+    }
+    tokens.push({ kind: 'text', text: source.slice(last), line });
+
+    // Block tags, else and comments alone on their line take the whole line with them
+    const lastText = tokens.length - 1;
+    for (let i = 1; i < lastText; i += 2) {
+      const before = tokens[i - 1].text;
+      const after = tokens[i + 1].text;
+      tokens[i].standalone = /^[#/!]|^else$/.test(tokens[i].text.trim()) &&
+        (/\n[ \t]*$/.test(before) || (i === 1 && /^[ \t]*$/.test(before))) &&
+        (/^[ \t]*\r?\n/.test(after) || (i + 1 === lastText && /^[ \t]*$/.test(after)));
+    }
+    for (let i = 1; i < lastText; i += 2) {
+      if (tokens[i].standalone) {
+        tokens[i - 1].text = tokens[i - 1].text.replace(/[ \t]*$/, '');
+        tokens[i + 1].text = tokens[i + 1].text.replace(/^[ \t]*(\r?\n)?/, '');
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Split a tag into words, keeping quoted strings and parenthesized sub-expressions together
+   */
+  private static split(text: string, line: number): string[] {
+    const words: string[] = [];
+    let word = '';
+    let depth = 0;
+    let quote: string | undefined;
+
+    for (const ch of text) {
+      if (quote) {
+        word += ch;
+        if (ch === quote) {
+          quote = undefined;
+        }
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+        word += ch;
+      } else if (ch === '(') {
+        depth++;
+        word += ch;
+      } else if (ch === ')') {
+        depth--;
+        if (depth < 0) {
+          throw new Error(`Template error at line ${line}: unbalanced ')'`);
+        }
+        word += ch;
+      } else if (/\s/.test(ch) && depth === 0) {
+        if (word) {
+          words.push(word);
+          word = '';
+        }
+      } else {
+        word += ch;
+      }
+    }
+
+    if (quote) {
+      throw new Error(`Template error at line ${line}: unterminated string`);
+    }
+    if (depth > 0) {
+      throw new Error(`Template error at line ${line}: unbalanced '('`);
+    }
+    if (word) {
+      words.push(word);
+    }
+    return words;
+  }
+}
@@ -0,0 +1,66 @@
+import { HAREntry } from './types';
+
+type Headers = HAREntry['request']['headers'] | Record<string, string>;
+
+export interface TestEntryOptions {
+  method?: string;
+  url?: string;
+  status?: number;
+  statusText?: string;
+  /** Total time in ms, also used as the wait timing (default 100) */
+  time?: number;
+  startedDateTime?: string;
+  pageref?: string;
+  /** Request headers, as a list or a name → value record */
+  headers?: Headers;
+  responseHeaders?: Headers;
+  /** JSON request body */
+  body?: string;
+  /** Response body, serialized as JSON (default `{}`) */
+  response?: unknown;
+  /** Raw response body, used instead of `response` */
+  responseText?: string;
+  timings?: Partial<HAREntry['timings']>;
+}
+
+/**
+ * Build a HAR entry for tests; the query string is taken from the URL
+ */
+export function harEntry(options: TestEntryOptions = {}): HAREntry {
+  const url = options.url || 'https://api.example.com/';
+  const time = options.time ?? 100;
+  const text = options.responseText ?? JSON.stringify(options.response ?? {});
+  const headers = (values: Headers = []) => Array.isArray(values)
+    ? values
+    : Object.entries(values).map(([name, value]) => ({ name, value }));
+
+  return {
+    ...(options.pageref !== undefined && { pageref: options.pageref }),
+    startedDateTime: options.startedDateTime || '2024-01-01T00:00:00.000Z',
+    time,
+    request: {
+      method: options.method || 'GET',
+      url,
+      httpVersion: 'HTTP/1.1',
+      headers: headers(options.headers),
+      queryString: Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value })),
+      cookies: [],
+      headersSize: -1,
+      bodySize: -1,
+      ...(options.body !== undefined && { postData: { mimeType: 'application/json', text: options.body } })
+    },
+    response: {
+      status: options.status ?? 200,
+      statusText: options.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      headers: headers(options.responseHeaders),
+      cookies: [],
+      content: { size: text.length, mimeType: 'application/json', text },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: -1
+    },
+    cache: {},
+    timings: { blocked: 0, dns: 0, connect: 0, send: 0, wait: time, receive: 0, ssl: 0, ...options.timings }
+  };
+}
@@ -0,0 +1,73 @@
+import { TokenEstimatorFn } from './types';
+
+/**
+ * Build an estimator that approximates BPE tokenizers: words split into chunks of
+ * roughly `charsPerToken` characters, digits into groups of three, and every
+ * symbol or non-ASCII character counts as its own token.
+ */
+const approximate = (charsPerToken: number): TokenEstimatorFn => (text: string) => {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(/[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g)) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.ceil(piece.length / charsPerToken);
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^\s/.test(piece)) {
+      // A single space merges into the following word
+      tokens += piece.length > 1 || piece === '\n' ? 1 : 0;
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+};
+
+export class TokenEstimator {
+  private static estimators = new Map<string, TokenEstimatorFn>([
+    ['default', approximate(4)],
+    ['gpt-4o', approximate(4.4)],
+    ['gpt-4', approximate(4)],
+    ['gpt-3.5', approximate(4)],
+    ['claude', approximate(3.5)],
+    ['llama', approximate(3.7)],
+    ['gemini', approximate(4)],
+    ['mistral', approximate(3.6)]
+  ]);
+
+  /**
+   * Register a token estimator for a model name (or model name prefix)
+   */
+  static register(model: string, estimator: TokenEstimatorFn): void {
+    this.estimators.set(model.toLowerCase(), estimator);
+  }
+
+  /**
+   * List the registered model names
+   */
+  static models(): string[] {
+    return Array.from(this.estimators.keys());
+  }
+
+  /**
+   * Resolve the estimator for a model, matching the longest registered prefix
+   * (e.g. "claude-3-opus" uses "claude")
+   */
+  static get(model: string = 'default'): TokenEstimatorFn {
+    const name = model.toLowerCase();
+    const match = this.models()
+      .filter(candidate => name.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!match) {
+      throw new Error(`Unknown tokenizer model: ${model}. Available models: ${this.models().join(', ')}`);
+    }
+    return this.estimators.get(match)!;
+  }
+
+  /**
+   * Estimate the number of tokens in a text for a model
+   */
+  static estimate(text: string, model: string = 'default'): number {
+    return this.get(model)(text);
+  }
+}
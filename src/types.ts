@@ -1,4 +1,5 @@
 export interface HAREntry {
+  pageref?: string;
   startedDateTime: string;
   time: number;
   request: {
@@ -24,7 +25,9 @@ export interface HAREntry {
       text: string;
       params?: Array<{
         name: string;
-        value: string;
+        value?: string;
+        fileName?: string;
+        contentType?: string;
       }>;
     };
   };
@@ -66,6 +69,19 @@ export interface HAREntry {
   serverIPAddress?: string;
   connection?: string;
   comment?: string;
+  /** File the entry was read from, when several HAR files are merged */
+  _source?: string;
+}
+
+export interface HARPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: {
+    onContentLoad: number;
+    onLoad: number;
+    comment?: string;
+  };
 }
 
 export interface HARFile {
@@ -79,16 +95,7 @@ export interface HARFile {
       name: string;
       version: string;
     };
-    pages?: Array<{
-      startedDateTime: string;
-      id: string;
-      title: string;
-      pageTimings: {
-        onContentLoad: number;
-        onLoad: number;
-        comment?: string;
-      };
-    }>;
+    pages?: HARPage[];
     entries: HAREntry[];
     comment?: string;
   };
@@ -101,8 +108,47 @@ export interface LLMRequest {
   queryParams: Record<string, string>;
   body?: string;
   contentType?: string;
+  parsedBody?: ParsedBody;
 }
 
+export interface FormField {
+  name: string;
+  value: string;
+}
+
+export interface MultipartPart {
+  name?: string;
+  filename?: string;
+  contentType?: string;
+  value?: string;
+  size: number;
+}
+
+export interface GraphQLOperation {
+  operationName?: string;
+  operationType?: 'query' | 'mutation' | 'subscription';
+  query?: string;
+  variables?: Record<string, any>;
+  extensions?: Record<string, any>;
+}
+
+export interface GraphQLOperationSummary {
+  key: string;
+  operationName?: string;
+  operationType?: GraphQLOperation['operationType'];
+  endpoints: string[];
+  calls: number;
+  statusCodes: number[];
+  query?: string;
+  variables?: JSONSchema;
+  response?: JSONSchema;
+}
+
+export type ParsedBody =
+  | { type: 'form'; fields: FormField[] }
+  | { type: 'multipart'; parts: MultipartPart[] }
+  | { type: 'graphql'; operations: GraphQLOperation[] };
+
 export interface LLMResponse {
   status: number;
   statusText: string;
@@ -116,6 +162,8 @@ export interface LLMConversation {
   response: LLMResponse;
   timestamp: string;
   duration: number;
+  /** File the entry was read from, when several HAR files are merged */
+  source?: string;
 }
 
 export interface RequestSignature {
@@ -125,3 +173,349 @@ export interface RequestSignature {
   queryParams: Record<string, string>;
   body?: string;
 }
+
+export type RedactionRuleName =
+  | 'headers'
+  | 'cookies'
+  | 'jwt'
+  | 'api-keys'
+  | 'emails'
+  | 'phones'
+  | 'cards'
+  | 'keys';
+
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface RedactionOptions {
+  rules?: RedactionRuleName[];
+  headers?: string[];
+  keys?: string[];
+  patterns?: RedactionPattern[];
+  deterministic?: boolean;
+}
+
+export type HeaderPattern = string | RegExp;
+
+export type HeaderDirection = 'request' | 'response';
+
+export interface HeaderRules {
+  allow?: HeaderPattern[];
+  deny?: HeaderPattern[];
+}
+
+export interface HeaderPolicyOptions extends HeaderRules {
+  keepAll?: boolean;
+  request?: HeaderRules;
+  response?: HeaderRules;
+}
+
+export interface JSONSchema {
+  type?: string | string[];
+  format?: string;
+  enum?: Array<string | null>;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+}
+
+export interface EndpointSchema {
+  method: string;
+  /** Templated path, e.g. /users/{id} */
+  path: string;
+  /** PascalCase name for generated types, e.g. GetUsersById */
+  name: string;
+  calls: number;
+  query?: JSONSchema;
+  request?: JSONSchema;
+  /** Response body schemas by status code */
+  responses: Record<string, JSONSchema>;
+}
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, any>>;
+}
+
+export type TokenEstimatorFn = (text: string) => number;
+
+export type BudgetDropReason = 'static-asset' | 'duplicate' | 'redirect' | 'low-priority';
+
+export interface TokenBudgetReport {
+  maxTokens: number;
+  model: string;
+  originalTokens: number;
+  finalTokens: number;
+  fits: boolean;
+  truncatedBodies: number;
+  bodyLimit?: number;
+  collapsedHeaders: boolean;
+  /** Entries left in the output; 0 when the budget cannot hold a single entry */
+  keptEntries: number;
+  dropped: Array<{
+    index: number;
+    method: string;
+    url: string;
+    reason: BudgetDropReason;
+  }>;
+}
+
+export type DedupeStrategy = 'exact' | 'semantic' | 'endpoint' | 'none';
+
+export type DedupeKeep = 'first' | 'last' | 'slowest' | 'largest' | 'error';
+
+export interface DedupeGroup {
+  kept: HAREntry;
+  absorbed: HAREntry[];
+}
+
+export interface DiffEndpointStats {
+  calls: number;
+  statusCodes: number[];
+  /** Median duration in ms */
+  medianDuration: number;
+}
+
+export interface DiffSchemaChange {
+  /** Field path in the response body, e.g. data.items[].id */
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  base?: string;
+  head?: string;
+}
+
+export interface DiffHeaderChange {
+  direction: HeaderDirection;
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  base?: string;
+  head?: string;
+}
+
+export interface DiffEndpointChange {
+  endpoint: string;
+  base: DiffEndpointStats;
+  head: DiffEndpointStats;
+  statusChanged: boolean;
+  schemaChanges: DiffSchemaChange[];
+  headerChanges: DiffHeaderChange[];
+  /** Set when the median duration grew beyond the latency threshold; `ratio` is omitted when the base median is 0 */
+  latencyRegression?: { base: number; head: number; ratio?: number };
+}
+
+export interface HARDiffReport {
+  base: string;
+  head: string;
+  summary: {
+    baseEntries: number;
+    headEntries: number;
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+  added: Array<{ endpoint: string } & DiffEndpointStats>;
+  removed: Array<{ endpoint: string } & DiffEndpointStats>;
+  changed: DiffEndpointChange[];
+}
+
+export interface PerformanceLatency {
+  /** Nearest-rank percentiles of the total time, in ms */
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/** Time spent in each HAR timing phase, in ms; connect excludes the TLS handshake, which is counted in ssl */
+export interface PerformancePhases {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface PerformanceEndpoint {
+  endpoint: string;
+  calls: number;
+  latency: PerformanceLatency;
+  /** Median time to first byte (wait), in ms */
+  ttfb: number;
+  /** Median download time (receive), in ms */
+  download: number;
+  /** Average response size, in bytes */
+  averageSize: number;
+}
+
+export interface PerformanceRequest {
+  /** Position of the entry in the analyzed entries */
+  index: number;
+  method: string;
+  url: string;
+  status: number;
+  time: number;
+  /** Start time relative to the first request, in ms */
+  start: number;
+  phases: PerformancePhases;
+  /** Response size, in bytes */
+  size: number;
+}
+
+export interface PerformanceHost {
+  host: string;
+  requests: number;
+  /** Requests that opened a connection */
+  newConnections: number;
+  dnsLookups: number;
+  dnsTime: number;
+  connectTime: number;
+  sslTime: number;
+  /** Most requests in flight at once */
+  maxConcurrency: number;
+}
+
+export interface PerformanceSizeBucket {
+  label: string;
+  /** Lower bound in bytes, inclusive */
+  min: number;
+  /** Upper bound in bytes, exclusive; missing for the last bucket */
+  max?: number;
+  requests: number;
+  medianTime: number;
+  medianDownload: number;
+  /** Bytes downloaded per second while receiving */
+  throughput: number;
+}
+
+export interface PerformanceReport {
+  summary: {
+    requests: number;
+    /** Time from the first request's start to the last request's end, in ms */
+    span: number;
+    latency: PerformanceLatency;
+    averageDuration: number;
+    /** Total response size, in bytes */
+    transferred: number;
+  };
+  phases: {
+    total: PerformancePhases;
+    average: PerformancePhases;
+    /** Share of wait + receive spent waiting for the first byte, in percent */
+    ttfbShare: number;
+  };
+  /** Every endpoint, slowest p95 first */
+  endpoints: PerformanceEndpoint[];
+  /** Slowest individual requests */
+  slowest: PerformanceRequest[];
+  connections: {
+    newConnections: number;
+    reused: number;
+    /** Share of requests sent on an existing connection, in percent */
+    reuseRate: number;
+    dnsLookups: number;
+    dnsTime: number;
+    sslHandshakes: number;
+    sslTime: number;
+    hosts: PerformanceHost[];
+  };
+  payload: {
+    buckets: PerformanceSizeBucket[];
+    /** Pearson correlation of response size and total time, when sizes vary */
+    correlation?: number;
+  };
+  concurrency: {
+    /** Most requests in flight at once */
+    max: number;
+    /** When the maximum was first reached, relative to the first request, in ms */
+    at: number;
+    /** Average number of requests in flight while any was */
+    average: number;
+  };
+}
+
+export interface ReplayResult {
+  /** Position of the entry among the replayed entries */
+  index: number;
+  method: string;
+  /** URL in the capture */
+  url: string;
+  /** URL the request was sent to */
+  target: string;
+  passed: boolean;
+  /** Why the entry failed, empty when it passed */
+  failures: string[];
+  expectedStatus: number;
+  /** Status of the replayed response, missing when the request failed */
+  actualStatus?: number;
+  /** Time taken by the replayed request, in ms */
+  duration: number;
+  /** Whether the JSON shape of the response was compared */
+  comparedShape: boolean;
+}
+
+export interface ReplayReport {
+  /** Base URL the requests were sent to, or "original hosts" */
+  target: string;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+  };
+  results: ReplayResult[];
+}
+
+export interface HarToLlmOptions {
+  format?: string;
+  formatters?: string[];
+  template?: string;
+  /** Languages rendered by the snippets format */
+  languages?: string[];
+  output?: string;
+  methods?: string[];
+  statusCodes?: number[];
+  domains?: string[];
+  excludeDomains?: string[];
+  minDuration?: number;
+  maxDuration?: number;
+  deduplicate?: boolean;
+  dedupe?: DedupeStrategy;
+  keep?: DedupeKeep;
+  dedupeReport?: boolean | string;
+  graphql?: boolean;
+  operations?: string[];
+  where?: string;
+  pages?: string[];
+  since?: string;
+  until?: string;
+  range?: string;
+  around?: string;
+  window?: number;
+  bySource?: boolean;
+  uselessHeaders?: string[];
+  headers?: HeaderPolicyOptions;
+  redact?: boolean | RedactionRuleName[];
+  redactHeaders?: string[];
+  redactKeys?: string[];
+  redactPatterns?: string[];
+  deterministic?: boolean;
+  maxTokens?: number;
+  tokenizer?: string;
+  summary?: boolean;
+  verbose?: boolean;
+}
+
+export interface HarToLlmConfig extends HarToLlmOptions {
+  profiles?: Record<string, HarToLlmOptions>;
+}
@@ -0,0 +1,126 @@
+import { JSONSchema } from './types';
+
+// Words that cannot be used as type names
+const RESERVED = new Set(['string', 'number', 'boolean', 'object', 'any', 'unknown', 'never', 'void', 'null', 'undefined']);
+
+/**
+ * Renders JSON schemas as TypeScript types. Objects become interfaces (nested
+ * objects are inlined), string enums become literal unions, nullable values
+ * get `| null`, and optional properties get `?`.
+ */
+export class TypeScriptGenerator {
+  /**
+   * Declare a named type: an interface for objects with known properties, a type alias otherwise
+   */
+  static declaration(name: string, schema: JSONSchema, comment?: string): string {
+    const doc = comment ? `/** ${comment} */\n` : '';
+    const types = this.typesOf(schema);
+
+    if (types.length === 1 && types[0] === 'object' && schema.properties && Object.keys(schema.properties).length > 0) {
+      return `${doc}export interface ${name} ${this.objectType(schema, '')}\n`;
+    }
+    return `${doc}export type ${name} = ${this.typeOf(schema)};\n`;
+  }
+
+  /**
+   * TypeScript type expression for a schema
+   */
+  static typeOf(schema: JSONSchema, indent = ''): string {
+    if (schema.enum && schema.enum.length > 0) {
+      return schema.enum.map(value => (value === null ? 'null' : JSON.stringify(value))).join(' | ');
+    }
+
+    const types = this.typesOf(schema);
+    if (types.length === 0) {
+      return 'unknown';
+    }
+
+    return types.map(type => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array': {
+          if (!schema.items) {
+            return 'unknown[]';
+          }
+          const items = this.typeOf(schema.items, indent);
+          return this.isCompound(items) ? `(${items})[]` : `${items}[]`;
+        }
+        case 'object':
+          return schema.properties && Object.keys(schema.properties).length > 0
+            ? this.objectType(schema, indent)
+            : 'Record<string, unknown>';
+        default:
+          return 'unknown';
+      }
+    }).filter((type, index, all) => all.indexOf(type) === index).join(' | ');
+  }
+
+  /**
+   * Check whether a type is a union or intersection at the top level, outside
+   * object literals, parentheses and string literals
+   */
+  private static isCompound(type: string): boolean {
+    let depth = 0;
+    let quote: string | undefined;
+    for (let index = 0; index < type.length; index++) {
+      const char = type[index];
+      if (quote) {
+        if (char === '\\') {
+          index++;
+        } else if (char === quote) {
+          quote = undefined;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if ('{([<'.includes(char)) {
+        depth++;
+      } else if ('})]>'.includes(char)) {
+        depth--;
+      } else if (depth === 0 && (char === '|' || char === '&')) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Convert text such as `get /users/{id}` or `user_id` to a PascalCase identifier
+   */
+  static pascalCase(text: string): string {
+    const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const name = words.map(word => word[0].toUpperCase() + word.slice(1)).join('') || 'Type';
+    return /^\d/.test(name) || RESERVED.has(name.toLowerCase()) ? `T${name}` : name;
+  }
+
+  /**
+   * Quote property names that are not valid identifiers
+   */
+  static propertyName(key: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+  }
+
+  private static objectType(schema: JSONSchema, indent: string): string {
+    const inner = `${indent}  `;
+    const required = new Set(schema.required || []);
+    const lines = Object.entries(schema.properties || {}).map(([key, property]) => {
+      const doc = property.format ? `${inner}/** Format: ${property.format} */\n` : '';
+      return `${doc}${inner}${this.propertyName(key)}${required.has(key) ? '' : '?'}: ${this.typeOf(property, inner)};`;
+    });
+    return `{\n${lines.join('\n')}\n${indent}}`;
+  }
+
+  private static typesOf(schema: JSONSchema): string[] {
+    if (!schema.type) {
+      return [];
+    }
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+}
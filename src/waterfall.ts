@@ -0,0 +1,405 @@
+import { HAREntry, HARPage, PerformancePhases } from './types';
+import { PerformanceAnalyzer } from './performance';
+
+export interface WaterfallOptions {
+  /** Pages of the capture; entries are grouped by page, then by domain */
+  pages?: HARPage[];
+  /** Width of the timeline: characters in ASCII (default 60), pixels in SVG and HTML (default 800) */
+  width?: number;
+  /** Color ASCII bars with ANSI escape codes, for terminals */
+  color?: boolean;
+  /** Title of the SVG and HTML output */
+  title?: string;
+}
+
+interface WaterfallRow {
+  entry: HAREntry;
+  /** Position of the entry in the rendered entries */
+  index: number;
+  /** Start time relative to the group's origin, in ms */
+  start: number;
+  phases: PerformancePhases;
+}
+
+interface WaterfallGroup {
+  title: string;
+  /** Length of the group's timeline, in ms */
+  duration: number;
+  /** Page events relative to the group's origin, in ms */
+  contentLoad?: number;
+  load?: number;
+  requests: number;
+  domains: Array<{ domain: string; rows: WaterfallRow[] }>;
+}
+
+interface PhaseStyle {
+  /** Character used in ASCII bars */
+  char: string;
+  /** Fill color in SVG */
+  color: string;
+  /** ANSI color for terminals */
+  ansi: string;
+}
+
+const PHASE_STYLES: Record<keyof PerformancePhases, PhaseStyle> = {
+  blocked: { char: '.', color: '#9e9e9e', ansi: '\x1b[90m' },
+  dns: { char: 'd', color: '#009688', ansi: '\x1b[36m' },
+  connect: { char: 'c', color: '#ff9800', ansi: '\x1b[33m' },
+  ssl: { char: 's', color: '#9c27b0', ansi: '\x1b[35m' },
+  send: { char: '>', color: '#3f51b5', ansi: '\x1b[34m' },
+  wait: { char: '=', color: '#4caf50', ansi: '\x1b[32m' },
+  receive: { char: '#', color: '#2196f3', ansi: '\x1b[94m' }
+};
+
+// Requests without a timing breakdown, only a total time
+const UNTIMED = { char: '~', color: '#bdbdbd' };
+
+const ANSI_RESET = '\x1b[0m';
+
+// Width of the request column in ASCII output
+const LABEL_WIDTH = 40;
+
+// SVG geometry, in pixels
+const SVG = { margin: 16, label: 340, row: 20, header: 30, domain: 22, bar: 12, legend: 28 };
+
+/**
+ * Renders the request timeline as a waterfall: one bar per request, split
+ * into its timing phases, grouped by page and then by domain. Each page gets
+ * its own time axis starting at the page's first request or navigation, with
+ * DOMContentLoaded and load marked when the capture has them.
+ */
+export class WaterfallRenderer {
+  /**
+   * Render a plain-text waterfall, for terminals and LLM prompts
+   */
+  static toASCII(entries: HAREntry[], options: WaterfallOptions = {}): string {
+    const width = Math.max(10, options.width || 60);
+    const groups = this.layout(entries, options.pages || []);
+    const legend = PerformanceAnalyzer.PHASES.map(phase => `${this.paint(PHASE_STYLES[phase].char, phase, options.color)} ${phase}`).join('  ');
+
+    const untimed = entries.some(entry => PerformanceAnalyzer.PHASES.every(phase => PerformanceAnalyzer.phases(entry)[phase] === 0));
+
+    let output = `Waterfall: ${entries.length} request${entries.length === 1 ? '' : 's'}\n`;
+    output += `Legend: ${legend}${untimed ? `  ${UNTIMED.char} no breakdown` : ''}\n`;
+
+    for (const group of groups) {
+      const scale = Math.max(group.duration, 1) / width;
+      output += `\n${group.title}: ${group.requests} request${group.requests === 1 ? '' : 's'} over ${this.formatTime(group.duration)}, 1 column = ${this.formatTime(scale)}\n`;
+      const events = [
+        group.contentLoad !== undefined ? `DOMContentLoaded (D) at +${this.formatTime(group.contentLoad)}` : undefined,
+        group.load !== undefined ? `load (L) at +${this.formatTime(group.load)}` : undefined
+      ].filter(Boolean);
+      if (events.length > 0) {
+        output += `${events.join(', ')}\n`;
+      }
+
+      // Ruler with quarter ticks and page events
+      const ruler: string[] = Array.from({ length: width }, (_, column) => (column % Math.ceil(width / 4) === 0 ? '+' : '-'));
+      if (group.contentLoad !== undefined) {
+        ruler[Math.min(width - 1, Math.floor(group.contentLoad / scale))] = 'D';
+      }
+      if (group.load !== undefined) {
+        ruler[Math.min(width - 1, Math.floor(group.load / scale))] = 'L';
+      }
+      output += `${'0ms'.padStart(LABEL_WIDTH + 15)} |${ruler.join('')}| ${this.formatTime(group.duration)}\n`;
+
+      for (const { domain, rows } of group.domains) {
+        output += `  ${domain}\n`;
+        for (const row of rows) {
+          const label = this.truncate(this.label(row.entry), LABEL_WIDTH - 2).padEnd(LABEL_WIDTH - 2);
+          const status = String(row.entry.response.status || '---').padStart(4);
+          const time = this.formatTime(Math.max(0, row.entry.time)).padStart(9);
+          output += `    ${label}${status}${time} |${this.bar(row, scale, width, options.color)}|\n`;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * Render a standalone SVG waterfall
+   */
+  static toSVG(entries: HAREntry[], options: WaterfallOptions = {}): string {
+    const width = Math.max(100, options.width || 800);
+    const groups = this.layout(entries, options.pages || []);
+    const totalWidth = SVG.margin * 2 + SVG.label + width + 80;
+    const parts: string[] = [];
+    let y = SVG.margin;
+
+    if (options.title) {
+      parts.push(`<text x="${SVG.margin}" y="${y + 16}" class="title">${this.escape(options.title)}</text>`);
+      y += SVG.header;
+    }
+
+    let x = SVG.margin;
+    for (const phase of PerformanceAnalyzer.PHASES) {
+      parts.push(`<rect x="${x}" y="${y + 4}" width="12" height="12" fill="${PHASE_STYLES[phase].color}"/>`);
+      parts.push(`<text x="${x + 16}" y="${y + 14}">${phase}</text>`);
+      x += 16 + phase.length * 7 + 16;
+    }
+    y += SVG.legend;
+
+    for (const group of groups) {
+      const scale = width / Math.max(group.duration, 1);
+      const left = SVG.margin + SVG.label;
+      parts.push(`<text x="${SVG.margin}" y="${y + 20}" class="group">${this.escape(`${group.title}: ${group.requests} request${group.requests === 1 ? '' : 's'} over ${this.formatTime(group.duration)}`)}</text>`);
+      // Room for the tick labels above the grid
+      y += SVG.header + 12;
+
+      const rowCount = group.domains.reduce((sum, { rows }) => sum + rows.length, 0);
+      const height = rowCount * SVG.row + group.domains.length * SVG.domain;
+      for (let tick = 0; tick <= 4; tick++) {
+        const tickX = left + (width * tick) / 4;
+        parts.push(`<line x1="${tickX}" y1="${y}" x2="${tickX}" y2="${y + height}" class="grid"/>`);
+        parts.push(`<text x="${tickX}" y="${y - 4}" class="tick">${this.formatTime((group.duration * tick) / 4)}</text>`);
+      }
+      const marker = (time: number | undefined, name: string, color: string) => {
+        if (time !== undefined) {
+          const markerX = this.round(left + time * scale);
+          parts.push(`<line x1="${markerX}" y1="${y}" x2="${markerX}" y2="${y + height}" stroke="${color}" stroke-width="1.5"><title>${name} at ${this.formatTime(time)}</title></line>`);
+        }
+      };
+      marker(group.contentLoad, 'DOMContentLoaded', '#1565c0');
+      marker(group.load, 'load', '#c62828');
+
+      for (const { domain, rows } of group.domains) {
+        parts.push(`<text x="${SVG.margin}" y="${y + 15}" class="domain">${this.escape(domain)}</text>`);
+        y += SVG.domain;
+
+        for (const row of rows) {
+          const { entry } = row;
+          const barY = y + (SVG.row - SVG.bar) / 2;
+          const tooltip = [
+            `${entry.request.method} ${entry.request.url}`,
+            `${entry.response.status} ${entry.response.statusText || ''}`.trim() + `, ${this.formatTime(Math.max(0, entry.time))}, starts at +${this.formatTime(row.start)}`,
+            ...PerformanceAnalyzer.PHASES.filter(phase => row.phases[phase] > 0).map(phase => `${phase}: ${this.formatTime(row.phases[phase])}`)
+          ].join('\n');
+
+          parts.push(`<g><title>${this.escape(tooltip)}</title>`);
+          parts.push(`<text x="${SVG.margin + 12}" y="${y + 14}">${this.escape(this.truncate(this.label(entry), 48))}</text>`);
+          let segmentX = left + row.start * scale;
+          for (const phase of PerformanceAnalyzer.PHASES) {
+            const segmentWidth = row.phases[phase] * scale;
+            if (segmentWidth > 0) {
+              parts.push(`<rect x="${this.round(segmentX)}" y="${barY}" width="${this.round(Math.max(segmentWidth, 0.5))}" height="${SVG.bar}" fill="${PHASE_STYLES[phase].color}"/>`);
+              segmentX += segmentWidth;
+            }
+          }
+          if (segmentX === left + row.start * scale) {
+            // No timing breakdown: draw the total time
+            const untimedWidth = Math.max(Math.max(0, entry.time) * scale, 1);
+            parts.push(`<rect x="${this.round(segmentX)}" y="${barY}" width="${this.round(untimedWidth)}" height="${SVG.bar}" fill="${UNTIMED.color}"/>`);
+            segmentX += untimedWidth;
+          }
+          parts.push(`<text x="${this.round(segmentX + 4)}" y="${y + 14}" class="time">${entry.response.status || '---'} ${this.formatTime(Math.max(0, entry.time))}</text>`);
+          parts.push('</g>');
+          y += SVG.row;
+        }
+      }
+      y += SVG.margin;
+    }
+
+    const totalHeight = y + SVG.margin;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${totalWidth}" height="${totalHeight}" viewBox="0 0 ${totalWidth} ${totalHeight}" font-family="system-ui, sans-serif" font-size="12">
+<style>
+  text { fill: #212121; }
+  .title { font-size: 16px; font-weight: 600; }
+  .group { font-size: 14px; font-weight: 600; }
+  .domain { font-weight: 600; fill: #424242; }
+  .tick { font-size: 10px; fill: #757575; text-anchor: middle; }
+  .time { font-size: 10px; fill: #616161; }
+  .grid { stroke: #e0e0e0; }
+</style>
+<rect width="100%" height="100%" fill="#ffffff"/>
+${parts.join('\n')}
+</svg>
+`;
+  }
+
+  /**
+   * Render a standalone HTML page with the SVG waterfall
+   */
+  static toHTML(entries: HAREntry[], options: WaterfallOptions = {}): string {
+    const title = options.title || 'Waterfall';
+    const svg = this.toSVG(entries, { ...options, title: undefined });
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${this.escape(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 24px; color: #212121; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  p { color: #616161; margin: 0 0 16px; }
+  svg g:hover rect { opacity: 0.8; }
+  svg g:hover text { font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>${this.escape(title)}</h1>
+<p>${entries.length} request${entries.length === 1 ? '' : 's'}, grouped by page and domain. Hover a request for its timings.</p>
+${svg}</body>
+</html>
+`;
+  }
+
+  /**
+   * Group entries by page, in page order, then by domain, in order of each domain's first request
+   */
+  private static layout(entries: HAREntry[], pages: HARPage[]): WaterfallGroup[] {
+    const byPage = new Map<string, number[]>();
+    entries.forEach((entry, index) => {
+      const key = entry.pageref || '';
+      const indices = byPage.get(key) || [];
+      indices.push(index);
+      byPage.set(key, indices);
+    });
+
+    const pageIds = pages.map(page => page.id).filter(id => byPage.has(id));
+    const otherIds = Array.from(byPage.keys()).filter(id => !pageIds.includes(id));
+    const hasPages = pageIds.length > 0 || otherIds.some(id => id !== '');
+
+    return [...pageIds, ...otherIds].map(id => {
+      const page = pages.find(candidate => candidate.id === id);
+      const indices = byPage.get(id)!;
+      const starts = indices.map(index => this.startTime(entries[index]));
+      const pageStart = page ? new Date(page.startedDateTime).getTime() : NaN;
+      const origin = starts.reduce((min, start) => Math.min(min, start), isNaN(pageStart) ? Infinity : pageStart);
+
+      const rows: WaterfallRow[] = indices.map((index, position) => ({
+        entry: entries[index],
+        index,
+        start: starts[position] - origin,
+        phases: PerformanceAnalyzer.phases(entries[index])
+      }));
+
+      const domains: WaterfallGroup['domains'] = [];
+      rows
+        .slice()
+        .sort((a, b) => a.start - b.start || a.index - b.index)
+        .forEach(row => {
+          const domain = this.domain(row.entry);
+          const group = domains.find(candidate => candidate.domain === domain);
+          if (group) {
+            group.rows.push(row);
+          } else {
+            domains.push({ domain, rows: [row] });
+          }
+        });
+
+      // Page timings are relative to the page start; -1 means the event did not happen
+      const pageEvent = (time: number | undefined) =>
+        page && time !== undefined && time >= 0 && !isNaN(pageStart) ? pageStart - origin + time : undefined;
+      const contentLoad = pageEvent(page?.pageTimings?.onContentLoad);
+      const load = pageEvent(page?.pageTimings?.onLoad);
+      const end = rows.reduce((max, row) => Math.max(max, row.start + Math.max(0, row.entry.time)), Math.max(contentLoad ?? 0, load ?? 0));
+
+      const title = page
+        ? `Page ${page.title ? `"${page.title}" (${page.id})` : page.id}`
+        : id ? `Page ${id}` : hasPages ? 'Requests without a page' : 'All requests';
+
+      return {
+        title,
+        duration: end,
+        ...(contentLoad !== undefined && { contentLoad }),
+        ...(load !== undefined && { load }),
+        requests: rows.length,
+        domains
+      };
+    });
+  }
+
+  /**
+   * Draw one ASCII bar; each column shows the phase that covers most of it
+   */
+  private static bar(row: WaterfallRow, scale: number, width: number, color?: boolean): string {
+    const end = row.start + Math.max(0, row.entry.time);
+    const first = Math.min(width - 1, Math.floor(row.start / scale));
+    const last = Math.min(width - 1, Math.max(first, Math.ceil(end / scale) - 1));
+
+    // Phase boundaries in group time
+    const segments: Array<{ phase: keyof PerformancePhases; from: number; to: number }> = [];
+    let time = row.start;
+    for (const phase of PerformanceAnalyzer.PHASES) {
+      if (row.phases[phase] > 0) {
+        segments.push({ phase, from: time, to: time + row.phases[phase] });
+        time += row.phases[phase];
+      }
+    }
+
+    let output = ' '.repeat(first);
+    let run = '';
+    let runPhase: keyof PerformancePhases | undefined;
+    for (let column = first; column <= last; column++) {
+      const from = column * scale;
+      const to = from + scale;
+      let best: keyof PerformancePhases | undefined;
+      let bestOverlap = 0;
+      for (const segment of segments) {
+        const overlap = Math.min(to, segment.to) - Math.max(from, segment.from);
+        if (overlap > bestOverlap) {
+          best = segment.phase;
+          bestOverlap = overlap;
+        }
+      }
+
+      // Timings that do not add up to the total time leave gaps; continue the previous phase
+      best = best ?? (segments.length > 0 ? runPhase ?? segments[0].phase : undefined);
+
+      if (best !== runPhase && run) {
+        output += runPhase ? this.paint(run, runPhase, color) : run;
+        run = '';
+      }
+      runPhase = best;
+      run += best ? PHASE_STYLES[best].char : UNTIMED.char;
+    }
+    output += runPhase ? this.paint(run, runPhase, color) : run;
+
+    return output + ' '.repeat(width - 1 - last);
+  }
+
+  private static paint(text: string, phase: keyof PerformancePhases, color?: boolean): string {
+    return color ? `${PHASE_STYLES[phase].ansi}${text}${ANSI_RESET}` : text;
+  }
+
+  private static label(entry: HAREntry): string {
+    try {
+      const url = new URL(entry.request.url);
+      return `${entry.request.method} ${url.pathname}${url.search}`;
+    } catch {
+      return `${entry.request.method} ${entry.request.url}`;
+    }
+  }
+
+  private static domain(entry: HAREntry): string {
+    try {
+      return new URL(entry.request.url).host;
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private static startTime(entry: HAREntry): number {
+    return new Date(entry.startedDateTime).getTime() || 0;
+  }
+
+  private static truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+
+  private static formatTime(ms: number): string {
+    if (ms < 10) {
+      return `${Math.round(ms * 10) / 10}ms`;
+    }
+    return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)}s`;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}